@@ -0,0 +1,148 @@
+// Benchmark the spectrogram hot path on the tfjs CPU backend.
+// Compares the former per-frame FFT loop against the batched implementation.
+// Usage: npm run benchmark -- [seconds of audio] [profile]
+
+import * as tf from '@tensorflow/tfjs'
+import {
+  AudioProfileMode,
+  computeSpectrogramImage,
+  getAudioProfile,
+  getFrameCount,
+  getNow,
+} from '../src/core'
+
+let width = 1920
+let height = 250
+
+// Linear chirp with some noise, so every frame has content
+function createSignal(seconds: number, sampleRate: number) {
+  let audioData = new Float32Array(Math.round(seconds * sampleRate))
+  let startHz = 100
+  let endHz = sampleRate / 4
+  for (let i = 0; i < audioData.length; i++) {
+    let t = i / sampleRate
+    let hz = startHz + ((endHz - startHz) * t) / (2 * seconds)
+    audioData[i] =
+      0.5 * Math.sin(2 * Math.PI * hz * t) + 0.05 * (Math.random() * 2 - 1)
+  }
+  return audioData
+}
+
+// The former drawSpectrogram loop: one tensor and one FFT per frame, one read-back per column
+async function computeLegacy(inputs: {
+  audioData: Float32Array
+  windowSize: number
+  hopSize: number
+  maxFrequency: number
+}) {
+  let { audioData, windowSize, hopSize, maxFrequency } = inputs
+  let log_255 = Math.log1p(255)
+  let frameCount = getFrameCount(audioData.length, windowSize, hopSize)
+  let values = new Float32Array(width * height)
+  let hammingWindow = tf.signal.hammingWindow(windowSize)
+  for (let x = 0; x < width; x++) {
+    let frameStartIdx = Math.floor((x / width) * frameCount)
+    let frameEndIdx = Math.min(
+      Math.ceil(((x + 1) / width) * frameCount),
+      frameCount,
+    )
+    frameStartIdx = Math.min(frameStartIdx, frameCount - 1)
+    let frameMagnitudes: tf.Tensor[] = []
+    for (let frame = frameStartIdx; frame < frameEndIdx; frame++) {
+      let start = frame * hopSize
+      let frameBuffer = audioData.slice(start, start + windowSize)
+      let logMagnitude = tf.tidy(() => {
+        let windowedFrame = tf.mul(tf.tensor1d(frameBuffer), hammingWindow)
+        let complexFrame = tf.complex(
+          windowedFrame,
+          tf.zerosLike(windowedFrame),
+        )
+        let fft = tf.spectral.fft(complexFrame)
+        let magnitude = tf.abs(fft).slice([0], [windowSize / 2])
+        return tf.div(tf.log1p(magnitude), log_255).slice([0], [maxFrequency])
+      })
+      frameMagnitudes.push(logMagnitude)
+    }
+    let stacked = tf.stack(frameMagnitudes)
+    let maxValuesTensor = tf.max(stacked, 0)
+    let maxValues = (await maxValuesTensor.data()) as Float32Array
+    tf.dispose([stacked, maxValuesTensor, ...frameMagnitudes])
+    for (let y = 0; y < height; y++) {
+      let freqStart = Math.floor(((height - 1 - y) / height) * maxFrequency)
+      let freqEnd = Math.ceil(((height - y) / height) * maxFrequency)
+      freqEnd = Math.max(freqStart + 1, Math.min(freqEnd, maxFrequency))
+      let maxMag = 0
+      for (let freq = freqStart; freq < freqEnd; freq++) {
+        maxMag = Math.max(maxMag, maxValues[freq])
+      }
+      values[y * width + x] = maxMag
+    }
+  }
+  hammingWindow.dispose()
+  return values
+}
+
+async function main() {
+  let seconds = Number(process.argv[2] || 2)
+  let mode = (process.argv[3] || 'low-precision') as AudioProfileMode
+  let { sampleRate, windowSize, hopSize } = getAudioProfile(mode)
+  let maxFrequency = windowSize / 4
+
+  await tf.setBackend('cpu')
+  await tf.ready()
+
+  let audioData = createSignal(seconds, sampleRate)
+  let frameCount = getFrameCount(audioData.length, windowSize, hopSize)
+  console.log(
+    `${mode}: ${seconds}s of audio, ${frameCount} frames, ${width}x${height} px, backend: ${tf.getBackend()}`,
+  )
+
+  let startTime = getNow()
+  let legacyValues = await computeLegacy({
+    audioData,
+    windowSize,
+    hopSize,
+    maxFrequency,
+  })
+  let legacyMs = getNow() - startTime
+  let legacyFps = frameCount / (legacyMs / 1000)
+  console.log(
+    `before (per-frame FFT): ${legacyMs.toFixed(0)} ms, ${legacyFps.toFixed(
+      0,
+    )} frames/s`,
+  )
+
+  startTime = getNow()
+  let image = await computeSpectrogramImage({
+    audioData,
+    windowSize,
+    hopSize,
+    maxFrequency,
+    width,
+    height,
+  })
+  let batchedMs = getNow() - startTime
+  let batchedFps = frameCount / (batchedMs / 1000)
+  console.log(
+    `after (batched FFT): ${batchedMs.toFixed(0)} ms, ${batchedFps.toFixed(
+      0,
+    )} frames/s`,
+  )
+  console.log(`speedup: ${(batchedFps / legacyFps).toFixed(1)}x`)
+
+  // Both paths should produce the same image (the legacy one is log1p scaled)
+  let log_255 = Math.log1p(255)
+  let maxDifference = 0
+  for (let i = 0; i < image.values.length; i++) {
+    let difference = Math.abs(
+      Math.log1p(image.values[i]) / log_255 - legacyValues[i],
+    )
+    maxDifference = Math.max(maxDifference, difference)
+  }
+  console.log(`max difference: ${maxDifference.toExponential(2)}`)
+}
+
+main().catch(error => {
+  console.error(error)
+  process.exit(1)
+})
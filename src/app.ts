@@ -1,21 +1,156 @@
-import type { AudioProfileMode, DrawProgress, PauseState } from './core'
+import type {
+  AudioPlayer,
+  AudioFileMetadata,
+  AudioProfile,
+  AudioProfileMode,
+  ColormapName,
+  DrawProgress,
+  DrawSpectrogramOptions,
+  FrequencyAxis,
+  FrequencyScale,
+  LiveSpectrogram,
+  MagnitudeScale,
+  MatrixImage,
+  MatrixScale,
+  MfccOptions,
+  NamedAudioProfile,
+  FormantTrack,
+  PauseState,
+  PitchTrack,
+  SpectralFeatureName,
+  SpectralFeatures,
+  SpectrumAnalysisOptions,
+  SpectrogramDataFormat,
+  SpectrogramExportFormat,
+  SpectrogramImage,
+  SpectrogramWorkerPool,
+  ViewState,
+  VoiceSegment,
+  WindowFunction,
+} from './core'
 import {
   calculateDefaultZoom,
   calculateWaveformData,
+  COLORMAP_NAMES,
+  createAudioBuffer,
+  createAudioPlayer,
+  createMagnitudeCache,
+  createSpectrogramWorkerPool,
+  DEFAULT_COLORMAP,
   DEFAULT_MAX_FREQUENCY_HZ,
   DEFAULT_MAX_HEIGHT_PX,
   decodeAudio,
+  decodeViewState,
+  detectOnsets,
+  detectVoiceActivity,
+  drawColorbar,
+  drawMatrixImage,
   drawSpectrogram,
+  drawSpectrogramImage,
+  drawVowelSpace,
   drawWaveform,
+  encodeViewState,
+  encodeVoiceSegmentsCsv,
+  encodeVoiceSegmentsJson,
+  exportSpectrogramData,
+  exportSpectrogramImage,
+  formatEta,
+  FREQUENCY_SCALES,
+  frequencyToPosition,
   getAudioProfile,
-  getMonoAudioData,
+  getAudioProfileResolution,
+  getHopSizeForOverlap,
+  getLogMelSpectrogram,
+  getMfcc,
+  getOverlapPercent,
+  getPitchAtTime,
+  getPitchTrack,
+  getDbLevels,
+  getFormantsAtTime,
+  getFormantTrack,
+  getFrameAtTime,
+  getMagnitudeCacheKey,
+  getChannelAudioData,
+  getFrequencyTicks,
+  getNiceStep,
   getNow,
+  getRowBinRange,
+  getSpectralFeatures,
+  getSpectralFeaturesAtTime,
+  getStepDecimals,
+  getTimeTicks,
+  getVowelSpacePoints,
+  isParsableAudioFile,
+  isWorkerRenderingSupported,
+  loadAudioProfiles,
   loadFile,
+  loadUrl,
+  mergeAudioProfiles,
+  parseAudioFile,
+  parseAudioProfilesJson,
+  positionToFrequency,
+  saveAudioProfiles,
+  SPECTRAL_FEATURE_UNITS,
+  SPECTRAL_FEATURES,
+  startLiveSpectrogram,
+  stringifyAudioProfiles,
+  trackBeats,
+  validateAudioProfile,
+  WINDOW_FUNCTIONS,
 } from './core'
 
 let statusNode = querySelector('#status')
 let input = querySelector<HTMLInputElement>('#fileInput')
+let urlInput = querySelector<HTMLInputElement>('#urlInput')
+let loadUrlBtn = querySelector<HTMLButtonElement>('#loadUrlBtn')
+let copyLinkBtn = querySelector<HTMLButtonElement>('#copyLinkBtn')
 let profileSelect = querySelector<HTMLSelectElement>('#profileSelect')
+let customProfileGroup = querySelector<HTMLOptGroupElement>(
+  '#customProfileGroup',
+)
+let editProfileBtn = querySelector<HTMLButtonElement>('#editProfileBtn')
+let profileEditor = querySelector('#profileEditor')
+let profileNameInput = querySelector<HTMLInputElement>('#profileNameInput')
+let profileSampleRateInput = querySelector<HTMLInputElement>(
+  '#profileSampleRateInput',
+)
+let profileWindowSizeInput = querySelector<HTMLInputElement>(
+  '#profileWindowSizeInput',
+)
+let profileHopSizeInput = querySelector<HTMLInputElement>(
+  '#profileHopSizeInput',
+)
+let profileOverlapInput = querySelector<HTMLInputElement>(
+  '#profileOverlapInput',
+)
+let profileFftSizeInput = querySelector<HTMLInputElement>(
+  '#profileFftSizeInput',
+)
+let profileWindowFunctionSelect = querySelector<HTMLSelectElement>(
+  '#profileWindowFunctionSelect',
+)
+let profileMaxFrequencyInput = querySelector<HTMLInputElement>(
+  '#profileMaxFrequencyInput',
+)
+let profileResolutionNode = querySelector('#profileResolution')
+let profileErrorsNode = querySelector('#profileErrors')
+let saveProfileBtn = querySelector<HTMLButtonElement>('#saveProfileBtn')
+let deleteProfileBtn = querySelector<HTMLButtonElement>('#deleteProfileBtn')
+let exportProfilesBtn = querySelector<HTMLButtonElement>('#exportProfilesBtn')
+let importProfilesInput = querySelector<HTMLInputElement>(
+  '#importProfilesInput',
+)
+let colormapSelect = querySelector<HTMLSelectElement>('#colormapSelect')
+let colorbarCanvas = querySelector<HTMLCanvasElement>('#colorbarCanvas')
+let magnitudeScaleSelect = querySelector<HTMLSelectElement>(
+  '#magnitudeScaleSelect',
+)
+let dbReferenceSelect = querySelector<HTMLSelectElement>('#dbReferenceSelect')
+let maxDbSlider = querySelector<HTMLInputElement>('#maxDbSlider')
+let dynamicRangeSlider = querySelector<HTMLInputElement>('#dynamicRangeSlider')
+let gainSlider = querySelector<HTMLInputElement>('#gainSlider')
+let autoLevelCheckbox = querySelector<HTMLInputElement>('#autoLevelCheckbox')
+let levelInfoNode = querySelector('#levelInfo')
 let waveformCanvas = querySelector<HTMLCanvasElement>('#waveformCanvas')
 let waveformOverlayCanvas = querySelector<HTMLCanvasElement>(
   '#waveformOverlayCanvas',
@@ -25,7 +160,34 @@ let canvasContainer = querySelector('#canvasContainer')
 let statsNode = querySelector('#stats')
 let cursorInfoNode = querySelector('#cursorInfo')
 let maxFrequencyInput = querySelector<HTMLInputElement>('#maxFrequencyInput')
+let pitchCheckbox = querySelector<HTMLInputElement>('#pitchCheckbox')
+let minF0Input = querySelector<HTMLInputElement>('#minF0Input')
+let maxF0Input = querySelector<HTMLInputElement>('#maxF0Input')
+let formantsCheckbox = querySelector<HTMLInputElement>('#formantsCheckbox')
+let maxFormantInput = querySelector<HTMLInputElement>('#maxFormantInput')
+let vowelSpaceBtn = querySelector<HTMLButtonElement>('#vowelSpaceBtn')
+let vowelSpacePanel = querySelector('#vowelSpacePanel')
+let vowelSpaceCanvas = querySelector<HTMLCanvasElement>('#vowelSpaceCanvas')
+let vowelSpaceInfoNode = querySelector('#vowelSpaceInfo')
+let closeVowelSpaceBtn = querySelector<HTMLButtonElement>('#closeVowelSpaceBtn')
+let windowFunctionSelect = querySelector<HTMLSelectElement>(
+  '#windowFunctionSelect',
+)
+let zeroPaddingSelect = querySelector<HTMLSelectElement>('#zeroPaddingSelect')
+let frequencyScaleSelect = querySelector<HTMLSelectElement>(
+  '#frequencyScaleSelect',
+)
+let imageModeSelect = querySelector<HTMLSelectElement>('#imageModeSelect')
+let melCountInput = querySelector<HTMLInputElement>('#melCountInput')
+let melMinHzInput = querySelector<HTMLInputElement>('#melMinHzInput')
+let mfccCountInput = querySelector<HTMLInputElement>('#mfccCountInput')
+let lifterInput = querySelector<HTMLInputElement>('#lifterInput')
+let mfccDeltasCheckbox = querySelector<HTMLInputElement>('#mfccDeltasCheckbox')
 let maxHeightInput = querySelector<HTMLInputElement>('#maxHeightInput')
+let liveSourceSelect = querySelector<HTMLSelectElement>('#liveSourceSelect')
+let startLiveBtn = querySelector<HTMLButtonElement>('#startLiveBtn')
+let stopLiveBtn = querySelector<HTMLButtonElement>('#stopLiveBtn')
+let recordLiveCheckbox = querySelector<HTMLInputElement>('#recordLiveCheckbox')
 let renderSpectrogramBtn = querySelector<HTMLButtonElement>(
   '#renderSpectrogramBtn',
 )
@@ -37,6 +199,64 @@ let zoomOutBtn = querySelector<HTMLButtonElement>('#zoomOutBtn')
 let zoomInBtn = querySelector<HTMLButtonElement>('#zoomInBtn')
 let panLeftBtn = querySelector<HTMLButtonElement>('#panLeftBtn')
 let panRightBtn = querySelector<HTMLButtonElement>('#panRightBtn')
+let playBtn = querySelector<HTMLButtonElement>('#playBtn')
+let pausePlaybackBtn = querySelector<HTMLButtonElement>('#pausePlaybackBtn')
+let seekSlider = querySelector<HTMLInputElement>('#seekSlider')
+let playbackTimeNode = querySelector('#playbackTime')
+let spectrogramOverlayCanvas = querySelector<HTMLCanvasElement>(
+  '#spectrogramOverlayCanvas',
+)
+let spectrogramView = querySelector('#spectrogramView')
+let timeAxisCanvas = querySelector<HTMLCanvasElement>('#timeAxisCanvas')
+let frequencyAxisCanvas = querySelector<HTMLCanvasElement>(
+  '#frequencyAxisCanvas',
+)
+let channelViewSelect = querySelector<HTMLSelectElement>('#channelViewSelect')
+let nativeRateCheckbox = querySelector<HTMLInputElement>('#nativeRateCheckbox')
+let channelCanvasesNode = querySelector('#channelCanvases')
+let featureLaneOptionsNode = querySelector('#featureLaneOptions')
+let featureCheckboxes = Array.from(
+  featureLaneOptionsNode.querySelectorAll<HTMLInputElement>(
+    'input[type="checkbox"]',
+  ),
+)
+let featureLanesNode = querySelector('#featureLanes')
+let detectOnsetsBtn = querySelector<HTMLButtonElement>('#detectOnsetsBtn')
+let onsetThresholdInput = querySelector<HTMLInputElement>(
+  '#onsetThresholdInput',
+)
+let prevOnsetBtn = querySelector<HTMLButtonElement>('#prevOnsetBtn')
+let nextOnsetBtn = querySelector<HTMLButtonElement>('#nextOnsetBtn')
+let onsetInfoNode = querySelector('#onsetInfo')
+let detectSpeechBtn = querySelector<HTMLButtonElement>('#detectSpeechBtn')
+let vadThresholdInput = querySelector<HTMLInputElement>('#vadThresholdInput')
+let minSpeechInput = querySelector<HTMLInputElement>('#minSpeechInput')
+let minSilenceInput = querySelector<HTMLInputElement>('#minSilenceInput')
+let segmentFormatSelect = querySelector<HTMLSelectElement>(
+  '#segmentFormatSelect',
+)
+let exportSegmentsBtn = querySelector<HTMLButtonElement>('#exportSegmentsBtn')
+let speechInfoNode = querySelector('#speechInfo')
+let segmentPanel = querySelector('#segmentPanel')
+let segmentListNode = querySelector('#segmentList')
+let selectionControls = querySelector('#selectionControls')
+let selectionInfoNode = querySelector('#selectionInfo')
+let zoomToSelectionBtn = querySelector<HTMLButtonElement>('#zoomToSelectionBtn')
+let loopSelectionBtn = querySelector<HTMLButtonElement>('#loopSelectionBtn')
+let loopBandBtn = querySelector<HTMLButtonElement>('#loopBandBtn')
+let clearSelectionBtn = querySelector<HTMLButtonElement>('#clearSelectionBtn')
+let exportFormatSelect = querySelector<HTMLSelectElement>('#exportFormatSelect')
+let exportRangeSelect = querySelector<HTMLSelectElement>('#exportRangeSelect')
+let exportWidthInput = querySelector<HTMLInputElement>('#exportWidthInput')
+let exportHeightInput = querySelector<HTMLInputElement>('#exportHeightInput')
+let exportColorbarCheckbox = querySelector<HTMLInputElement>(
+  '#exportColorbarCheckbox',
+)
+let exportImageBtn = querySelector<HTMLButtonElement>('#exportImageBtn')
+let exportDataFormatSelect = querySelector<HTMLSelectElement>(
+  '#exportDataFormatSelect',
+)
+let exportDataBtn = querySelector<HTMLButtonElement>('#exportDataBtn')
 
 let zoom = 1 // Internal zoom value (for backward compatibility)
 let zoomSeconds = 1 // Zoom in seconds (what user sees)
@@ -45,18 +265,109 @@ let frameCount = 0
 let maxHeight = DEFAULT_MAX_HEIGHT_PX
 let audioDuration = 0 // Total audio duration in seconds
 let cachedAudioData: Float32Array | null = null
-let cachedParams: {
-  windowSize: number
-  hopSize: number
-  maxFrequency: number
-  sampleRate: number
-} | null = null
+let cachedAudioName = '' // File name of the audio, for export titles
+let sourceUrl: string | null = null // Audio loaded from a URL instead of the file input
+// View of an opened link, restored once its audio is loaded
+let pendingViewState: ViewState | null = null
+let cachedParams: AnalysisSettings | null = null
 let cachedWaveformData: { min: number; max: number; rms: number }[] | null =
   null
 let hoverTimestamp: number | null = null // Track hover position from spectrogram
+let spectrogramImage: SpectrogramImage | null = null // Last rendered magnitudes, for re-colouring
+type ImageMode = 'spectrogram' | 'log-mel' | 'mfcc'
+// Log-mel or MFCC matrix of the rendered frames, drawn instead of the spectrogram
+let matrixImage:
+  | (MatrixImage & {
+      mode: Exclude<ImageMode, 'spectrogram'>
+      // Name of each row for the axis and the cursor readout
+      rowLabels: string[]
+      unit: string
+    })
+  | null = null
+let filePeakMagnitude: number | undefined // Peak magnitude of the whole file, known after a full view render
+// Computed FFT magnitudes, so zoom and pan only transform frames not seen before
+let magnitudeCache = createMagnitudeCache()
+let workerPool = createWorkerPool() // Renders off the main thread when supported
 // Store the frame range that was rendered on the canvas
 let renderedFrameStart = 0 // First frame index rendered on canvas
 let renderedFrameEnd = 0 // Last frame index rendered on canvas (exclusive)
+// Frequency axis rendered on canvas, settings may change before the next render
+let renderedFrequencyAxis: FrequencyAxis = {
+  scale: 'linear',
+  binCount: 1,
+  binWidth: 1,
+}
+let player: AudioPlayer | null = null // Plays the decoded (or recorded) audio
+// Analysis of the rendered frames drawn over the spectrogram, with the inputs it was computed from
+type TrackOverlay<Track, Settings = Record<string, number>> = {
+  track: Track
+  audioData: Float32Array
+  // Analysis settings and options of the track
+  settings: Settings
+}
+let pitchOverlay: TrackOverlay<PitchTrack> | null = null // F0 contour
+let formantOverlay: TrackOverlay<FormantTrack> | null = null // F1-F4 tracks
+// Spectral features plotted on the lanes under the spectrogram
+let featureOverlay: TrackOverlay<
+  SpectralFeatures,
+  Pick<
+    AnalysisSettings,
+    'sampleRate' | 'windowSize' | 'hopSize' | 'fftSize' | 'windowFunction'
+  >
+> | null = null
+// Canvases of the checked feature lanes, each with its plot of the rendered frames
+let featureLanes: {
+  name: SpectralFeatureName
+  canvas: HTMLCanvasElement
+  plot: HTMLCanvasElement
+}[] = []
+// Onsets and beats of the mono signal, marked on the waveform and spectrogram
+let onsetMarkers: {
+  onsets: Float32Array
+  beats: Float32Array
+  bpm: number
+} | null = null
+// Speech and non-speech segments of the mono signal, shaded on the waveform and listed in the segment panel
+let voiceSegments: VoiceSegment[] | null = null
+// Selected time range and frequency band, in seconds and Hz so it stays in place when zooming and panning
+let selection: {
+  startTime: number
+  endTime: number
+  lowHz: number
+  highHz: number
+  // Covers all frequencies, selected with Shift
+  fullHeight: boolean
+} | null = null
+// Spectrograms stacked on the canvas, the first is the main view (zoom, hover, selection)
+let channelViews: { label: string; audioData: Float32Array }[] = []
+// Canvases of the stacked views after the first, with their magnitudes for re-colouring
+let channelCanvases: {
+  canvas: HTMLCanvasElement
+  image: SpectrogramImage | null
+}[] = []
+let liveSession: {
+  spectrogram: LiveSpectrogram
+  settings: AnalysisSettings
+  stopSource: () => void
+} | null = null // Live input drawing on the canvas, instead of the file view
+
+function createWorkerPool(): SpectrogramWorkerPool | null {
+  if (!isWorkerRenderingSupported()) return null
+  try {
+    return createSpectrogramWorkerPool({
+      workerUrl: 'spectrogram-worker.js',
+      // Leave a core for the page
+      workerCount: Math.max(
+        1,
+        Math.min(4, (navigator.hardwareConcurrency || 2) - 1),
+      ),
+    })
+  } catch (error) {
+    // e.g. workers are not allowed on file:// pages
+    console.warn('Failed to start spectrogram workers:', error)
+    return null
+  }
+}
 
 let setStatus = (message: string) => {
   statusNode.textContent = message
@@ -77,10 +388,15 @@ let applyProfileDefaults = () => {
   }
 }
 
+// File names and tags come from the user's files, so they are escaped
+let escapeHtml = (text: string) => {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
 let renderStats = (inputs: Record<string, string | number>) => {
   setStats(
     Object.entries(inputs)
-      .map(([key, value]) => `<pre>${key}: ${value}</pre>`)
+      .map(([key, value]) => `<pre>${escapeHtml(`${key}: ${value}`)}</pre>`)
       .join(''),
   )
 }
@@ -90,25 +406,15 @@ let describeProgress = (progress: DrawProgress) => {
   return `Drawing spectrogram ${progress.percent}% (${etaText})`
 }
 
-function formatEta(etaMs: number | null) {
-  if (etaMs == null || !isFinite(etaMs) || etaMs < 0) {
-    return 'ETA --'
-  }
-  let seconds = etaMs / 1000
-  if (seconds >= 60) {
-    let minutes = Math.floor(seconds / 60)
-    let remainingSeconds = Math.round(seconds - minutes * 60)
-    return `ETA ${minutes}m ${remainingSeconds}s`
-  }
-  let roundedSeconds = Math.max(0, Math.round(seconds * 10) / 10)
-  return `ETA ${roundedSeconds}s`
-}
-
-function formatTime(seconds: number): string {
-  // Format as mm:ss.sss
-  let minutes = Math.floor(seconds / 60)
-  let secs = seconds % 60
-  let secsStr = secs.toFixed(3).padStart(6, '0')
+function formatTime(seconds: number, decimals = 3): string {
+  // Format as mm:ss.sss, rounded before the split so 59.96s is 1:00.0 rather than 0:60.0
+  let scale = 10 ** decimals
+  let rounded = Math.round(seconds * scale) / scale
+  let minutes = Math.floor(rounded / 60)
+  let secs = rounded - minutes * 60
+  let secsStr = secs
+    .toFixed(decimals)
+    .padStart(decimals > 0 ? decimals + 3 : 2, '0')
   return `${minutes}:${secsStr}`
 }
 
@@ -138,29 +444,38 @@ export async function run() {
     updatePauseButtonVisibility()
     await main(abortController.signal)
   } catch (error) {
+    // The view of a link does not apply to the next file
+    pendingViewState = null
     console.error(error)
     alert(String(error))
     setStatus('Failed to render spectrogram')
   }
 }
 
-export async function main(signal: AbortSignal) {
-  let file = input.files?.[0]
-  if (!file) {
-    setStatus('Select an audio file to render')
-    setStats('')
-    return
+// Read the canvas height from its input, falling back to the default
+let readMaxHeight = () => {
+  let maxHeightValue = maxHeightInput.value.trim()
+  if (maxHeightValue) {
+    let parsed = Number(maxHeightValue)
+    if (Number.isFinite(parsed) && parsed >= 100) {
+      maxHeight = parsed
+    } else {
+      maxHeight = DEFAULT_MAX_HEIGHT_PX
+    }
+  } else {
+    maxHeight = DEFAULT_MAX_HEIGHT_PX
   }
+}
 
-  setStatus('Loading file...')
-  let mode = profileSelect.value as AudioProfileMode
-  let profile = getAudioProfile(mode)
-  let {
-    sampleRate,
-    windowSize,
-    hopSize,
-    maxFrequency: defaultMaxFrequency,
-  } = profile
+// Analysis settings of the selected profile, window, zero-padding and max frequency,
+// at the profile's sample rate unless the audio keeps its native rate or the live input runs at another one
+let getAnalysisSettings = (actualSampleRate?: number) => {
+  let profile = getSelectedProfile()
+  let { windowSize, hopSize } = profile
+  let sampleRate = actualSampleRate ?? profile.sampleRate
+  // Zero-pad the FFT and swap the window function as selected in the UI
+  let fftSize = profile.fftSize * getSelectedZeroPadding()
+  let windowFunction = getSelectedWindowFunction()
   // maxFrequency input is in Hz, convert to number of bins
   let maxFrequencyHz = (() => {
     let raw = maxFrequencyInput.value.trim()
@@ -176,39 +491,182 @@ export async function main(signal: AbortSignal) {
   })()
 
   // Convert Hz to number of bins
-  let binWidth = sampleRate / windowSize
+  let binWidth = sampleRate / fftSize
   let maxFrequency = Math.floor(maxFrequencyHz / binWidth)
 
   // Clamp to available bins
-  let maxAllowedBins = Math.floor(windowSize / 2)
+  let maxAllowedBins = Math.floor(fftSize / 2)
   if (maxFrequency > maxAllowedBins) {
     maxFrequency = maxAllowedBins
   }
   if (maxFrequency < 1) {
     maxFrequency = 1
   }
+  return {
+    sampleRate,
+    windowSize,
+    hopSize,
+    fftSize,
+    windowFunction,
+    maxFrequency,
+  }
+}
+
+type AnalysisSettings = ReturnType<typeof getAnalysisSettings>
+
+// Name of the file a URL points to, for the stats and export titles
+let getUrlFileName = (url: string) => {
+  try {
+    let name = new URL(url, location.href).pathname.split('/').pop()
+    if (name) return decodeURIComponent(name)
+  } catch (error) {
+    // Not a valid URL or escape sequence, fetch will report it
+  }
+  return url
+}
+
+export async function main(signal: AbortSignal) {
+  let file = input.files?.[0]
+  let url = sourceUrl
+  if (!file && !url) {
+    setStatus('Select an audio file to render')
+    setStats('')
+    return
+  }
 
-  console.log('file size:', file.size.toLocaleString())
+  let settings = getAnalysisSettings()
 
-  console.time('loadFile')
-  let arrayBuffer = await loadFile(file)
-  console.timeEnd('loadFile')
+  let arrayBuffer: ArrayBuffer
+  if (url) {
+    setStatus('Downloading file...')
+    console.time('loadUrl')
+    arrayBuffer = await loadUrl(url)
+    console.timeEnd('loadUrl')
+  } else {
+    setStatus('Loading file...')
+    console.log('file size:', file!.size.toLocaleString())
+    console.time('loadFile')
+    arrayBuffer = await loadFile(file!)
+    console.timeEnd('loadFile')
+  }
   setStatus('Decoding audio...')
 
-  console.time('decodeAudio')
-  let audioBuffer = await decodeAudio(arrayBuffer, sampleRate)
-  console.timeEnd('decodeAudio')
+  let audioBuffer: AudioBuffer | null = null
+  let metadata: AudioFileMetadata | undefined
+  // WAV and AIFF files can skip the resampling of Web Audio, e.g. to see ultrasound at 384 kHz
+  if (nativeRateCheckbox.checked && isParsableAudioFile(arrayBuffer)) {
+    console.time('parseAudioFile')
+    try {
+      let parsedAudio = parseAudioFile(arrayBuffer)
+      audioBuffer = createAudioBuffer(parsedAudio)
+      metadata = parsedAudio.metadata
+      settings = getAnalysisSettings(parsedAudio.sampleRate)
+    } catch (error) {
+      console.warn('Parsing failed, decoding with Web Audio:', error)
+    }
+    console.timeEnd('parseAudioFile')
+  }
+  if (!audioBuffer) {
+    console.time('decodeAudio')
+    audioBuffer = await decodeAudio(arrayBuffer, settings.sampleRate)
+    console.timeEnd('decodeAudio')
+  }
   setStatus('Preparing audio data...')
 
   console.log('audio duration:', audioBuffer.duration)
 
-  console.time('getMonoAudioData')
-  let audioData = getMonoAudioData(audioBuffer)
-  console.timeEnd('getMonoAudioData')
+  openAudioData(
+    {
+      audioBuffer,
+      name: url ? getUrlFileName(url) : file!.name,
+      size: arrayBuffer.byteLength,
+      metadata,
+    },
+    settings,
+  )
+  applyPendingViewState()
+}
+
+// Format, bit depth, cue points and tags of a parsed file for the stats table
+let getMetadataStats = (metadata: AudioFileMetadata) => {
+  let stats: Record<string, string | number> = {
+    format: `${metadata.container.toUpperCase()}, ${
+      metadata.validBitsPerSample
+    }-bit ${metadata.encoding === 'float' ? 'float' : 'PCM'}`,
+  }
+  if (metadata.cuePoints.length > 0) {
+    stats.cue_points = metadata.cuePoints
+      .map(cue => cue.label ?? cue.note ?? `#${cue.id}`)
+      .join(', ')
+  }
+  for (let [id, text] of Object.entries(metadata.info)) {
+    stats[id.trim()] = text
+  }
+  return stats
+}
+
+// Show audio (decoded from a file or recorded live) in the waveform and spectrogram view,
+// with the channels picked in the channel select
+let openAudioData = (
+  audio: {
+    // Decoded audio with all channels, left intact for playback
+    audioBuffer: AudioBuffer
+    name: string
+    size: number
+    // Format details of a file read by parseAudioFile
+    metadata?: AudioFileMetadata
+  },
+  settings: AnalysisSettings,
+) => {
+  let { audioBuffer } = audio
+  updateChannelViewOptions(audioBuffer.numberOfChannels)
+  console.time('getChannelViews')
+  channelViews = getChannelViews(audioBuffer)
+  console.timeEnd('getChannelViews')
+  let audioData = channelViews[0].audioData
+  let {
+    sampleRate,
+    windowSize,
+    hopSize,
+    fftSize,
+    windowFunction,
+    maxFrequency,
+  } = settings
 
   // Cache audio data and params for zoom/pan
   cachedAudioData = audioData
-  cachedParams = { windowSize, hopSize, maxFrequency, sampleRate }
+  cachedAudioName = audio.name
+  filePeakMagnitude = undefined
+  magnitudeCache.clear()
+  cachedParams = { ...settings }
+  renderedFrameStart = 0
+  renderedFrameEnd = 0
+  selection = null
+  updateSelectionInfo()
+  pitchAnalysis.abort()
+  pitchOverlay = null
+  formantAnalysis.abort()
+  formantOverlay = null
+  featureAnalysis.abort()
+  featureOverlay = null
+  onsetAnalysis.abort()
+  onsetMarkers = null
+  updateOnsetControls()
+  speechAnalysis.abort()
+  voiceSegments = null
+  updateSegmentPanel()
+  updateChannelCanvases(0)
+  updateFeatureLanes()
+  drawSpectrogramAxes()
+
+  player?.close()
+  player = createAudioPlayer(audioBuffer, {
+    onEnded: () => {
+      updatePlaybackControls()
+      updatePlayback()
+    },
+  })
+  updatePlaybackControls()
 
   // Calculate and draw waveform (fast preview)
   setStatus('Calculating waveform preview...')
@@ -246,29 +704,24 @@ export async function main(signal: AbortSignal) {
   updateZoomDisplay()
 
   // Get max height from input, use default if not set
-  let maxHeightValue = maxHeightInput.value.trim()
-  if (maxHeightValue) {
-    let parsed = Number(maxHeightValue)
-    if (Number.isFinite(parsed) && parsed >= 100) {
-      maxHeight = parsed
-    } else {
-      maxHeight = DEFAULT_MAX_HEIGHT_PX
-    }
-  } else {
-    maxHeight = DEFAULT_MAX_HEIGHT_PX
-  }
+  readMaxHeight()
 
   renderStats({
-    filename: file.name,
-    file_size: file.size,
+    filename: audio.name,
+    file_size: audio.size,
     duration: formatTimeBoth(audioBuffer.duration),
+    channels: audioBuffer.numberOfChannels,
     sample_rate: sampleRate + ' Hz',
+    ...(audio.metadata && getMetadataStats(audio.metadata)),
     window_size: windowSize,
+    window_function: windowFunction,
+    fft_size: fftSize,
     hop_size: hopSize,
     max_frequency: maxFrequency + ' Hz',
     frame_count: frameCount,
   })
 
+  updatePlayback()
   setStatus('Waveform ready - Click "Render Spectrogram" to generate')
   // Don't render spectrogram automatically - wait for user to click button
 }
@@ -281,17 +734,7 @@ async function renderSpectrogram(
   maxFrequency: number,
 ) {
   // Get max height from input (fixed height), use default if not set
-  let maxHeightValue = maxHeightInput.value.trim()
-  if (maxHeightValue) {
-    let parsed = Number(maxHeightValue)
-    if (Number.isFinite(parsed) && parsed >= 100) {
-      maxHeight = parsed
-    } else {
-      maxHeight = DEFAULT_MAX_HEIGHT_PX
-    }
-  } else {
-    maxHeight = DEFAULT_MAX_HEIGHT_PX
-  }
+  readMaxHeight()
   let canvasHeight = maxHeight
 
   // Use maximum available width from parent container
@@ -304,8 +747,109 @@ async function renderSpectrogram(
   canvas.width = containerWidth
   canvas.height = canvasHeight
 
-  // Calculate frame range based on time window and offset
-  // Always limit rendering to the visible time window to improve performance
+  let { frameStart, frameEnd, showsFullAudio } = getVisibleFrameRange()
+  let imageMode = getSelectedImageMode()
+
+  // Store the frame range that will be rendered
+  renderedFrameStart = frameStart ?? 0
+  renderedFrameEnd = frameEnd ?? frameCount
+  // The log-mel bands are evenly spaced on the mel scale from the lowest filter up
+  renderedFrequencyAxis =
+    imageMode === 'log-mel'
+      ? {
+          scale: 'mel',
+          binCount: maxFrequency,
+          binWidth: cachedParams!.sampleRate / cachedParams!.fftSize,
+          minHz: Number(melMinHzInput.value),
+        }
+      : {
+          scale: getSelectedFrequencyScale(),
+          binCount: maxFrequency,
+          binWidth: cachedParams!.sampleRate / cachedParams!.fftSize,
+        }
+  spectrogramImage = null
+  matrixImage = null
+  // The pitch, formants and features of the new frames are computed after the render
+  pitchAnalysis.abort()
+  formantAnalysis.abort()
+  featureAnalysis.abort()
+  // Stacked channels are only shown as spectrograms
+  updateChannelCanvases(
+    imageMode === 'spectrogram' ? channelViews.length - 1 : 0,
+  )
+  updateFeatureLanes()
+  drawSpectrogramAxes()
+
+  let options: DrawSpectrogramOptions = {
+    signal,
+    audioData,
+    windowSize,
+    hopSize,
+    fftSize: cachedParams!.fftSize,
+    windowFunction: cachedParams!.windowFunction,
+    maxFrequency,
+    canvas,
+    frameStart,
+    frameEnd,
+    pauseState,
+    colormap: getSelectedColormap(),
+    magnitudeScale: getSelectedMagnitudeScale(),
+    frequencyScale: renderedFrequencyAxis.scale,
+    sampleRate: cachedParams!.sampleRate,
+    cache: magnitudeCache,
+    onProgress: progress => {
+      setStatus(describeProgress(progress))
+    },
+  }
+  if (imageMode !== 'spectrogram') {
+    await renderMatrixImage(signal, imageMode)
+  } else {
+    console.time('drawSpectrogram')
+    let image: SpectrogramImage
+    // A fully cached view is only pooled, that is quicker than sending the tiles to workers
+    if (workerPool && !isVisibleViewCached()) {
+      try {
+        image = await workerPool.drawSpectrogram(options)
+      } catch (error) {
+        console.warn('Worker rendering failed, using the main thread:', error)
+        workerPool.terminate()
+        workerPool = null
+        image = await drawSpectrogram(options)
+      }
+    } else {
+      image = await drawSpectrogram(options)
+    }
+    console.timeEnd('drawSpectrogram')
+    await renderChannelCanvases(options)
+    if (!signal.aborted) {
+      spectrogramImage = image
+      // Max pooling keeps the loudest bin, so a full view holds the file's peak
+      if (showsFullAudio) {
+        filePeakMagnitude = image.values.reduce((a, b) => Math.max(a, b), 0)
+      }
+      updateLevelInfo()
+    }
+  }
+
+  // Update scroll position based on offset
+  updateScrollPosition()
+
+  // Update waveform viewport indicator
+  updateWaveformViewport()
+  drawSpectrogramOverlay(player ? player.getCurrentTime() : null)
+
+  console.log('spectrogram size:', canvas.width + 'x' + canvas.height)
+  if (!signal.aborted) {
+    setStatus('Spectrogram ready')
+    updatePitchTrack()
+    updateFormantTrack()
+    updateFeatureTrack()
+  }
+}
+
+// Calculate frame range based on time window and offset
+// If time window >= audio duration, render all frames (undefined frameStart/frameEnd)
+let getVisibleFrameRange = () => {
   let frameStart: number | undefined
   let frameEnd: number | undefined
 
@@ -339,58 +883,467 @@ async function renderSpectrogram(
       frameEnd = Math.min(frameStart + 1, frameCount)
     }
   }
-  // If time window >= audio duration, render all frames (undefined frameStart/frameEnd)
+  return { frameStart, frameEnd, showsFullAudio }
+}
 
-  // Store the frame range that will be rendered
-  renderedFrameStart = frameStart ?? 0
-  renderedFrameEnd = frameEnd ?? frameCount
+let getSelectedColormap = (): ColormapName => {
+  let value = colormapSelect.value as ColormapName
+  return COLORMAP_NAMES.includes(value) ? value : DEFAULT_COLORMAP
+}
+
+let getSelectedWindowFunction = (): WindowFunction => {
+  let value = windowFunctionSelect.value as WindowFunction
+  return WINDOW_FUNCTIONS.includes(value) ? value : 'hamming'
+}
+
+// FFT size as a multiple of the window size
+let getSelectedZeroPadding = () => {
+  let factor = Number(zeroPaddingSelect.value)
+  return Number.isInteger(factor) && factor >= 1 ? factor : 1
+}
+
+let getSelectedMagnitudeScale = (): MagnitudeScale => {
+  if (magnitudeScaleSelect.value !== 'db') {
+    return { mode: 'log1p', gain: Number(gainSlider.value) }
+  }
+  return {
+    mode: 'db',
+    reference: dbReferenceSelect.value === 'peak' ? 'peak' : 'full-scale',
+    peakMagnitude: filePeakMagnitude,
+    maxDb: Number(maxDbSlider.value),
+    dynamicRange: Number(dynamicRangeSlider.value),
+    gain: Number(gainSlider.value),
+    autoLevel: autoLevelCheckbox.checked,
+  }
+}
+
+let updateLevelInfo = () => {
+  let magnitudeScale = getSelectedMagnitudeScale()
+  let gainText = `gain ${magnitudeScale.gain} dB`
+  if (magnitudeScale.mode !== 'db') {
+    levelInfoNode.textContent = `log scale, ${gainText}`
+    return
+  }
+  let unit = magnitudeScale.reference === 'peak' ? 'dB' : 'dBFS'
+  if (magnitudeScale.autoLevel && !spectrogramImage) {
+    levelInfoNode.textContent = `auto ${unit}, ${gainText}`
+    return
+  }
+  // Auto-levelling depends on the rendered magnitudes, fixed levels do not
+  let { minDb, maxDb } = getDbLevels(
+    magnitudeScale,
+    spectrogramImage ?? { values: new Float32Array(), fullScaleMagnitude: 1 },
+  )
+  levelInfoNode.textContent = `${minDb.toFixed(1)} to ${maxDb.toFixed(
+    1,
+  )} ${unit}, ${gainText}`
+}
 
-  console.time('drawSpectrogram')
-  await drawSpectrogram({
+let getSelectedFrequencyScale = (): FrequencyScale => {
+  let value = frequencyScaleSelect.value as FrequencyScale
+  return FREQUENCY_SCALES.includes(value) ? value : 'linear'
+}
+
+let getSelectedImageMode = (): ImageMode => {
+  let value = imageModeSelect.value
+  return value === 'log-mel' || value === 'mfcc' ? value : 'spectrogram'
+}
+
+let recolorSpectrogram = () => {
+  let colormap = getSelectedColormap()
+  drawColorbar(colorbarCanvas, colormap, 'horizontal')
+  updateLevelInfo()
+  if (matrixImage) {
+    drawRenderedMatrixImage()
+  }
+  // Re-colour the existing spectrogram, no need to recompute the FFT
+  if (spectrogramImage) {
+    drawSpectrogramImage(
+      canvas,
+      spectrogramImage,
+      colormap,
+      getSelectedMagnitudeScale(),
+    )
+  }
+  for (let entry of channelCanvases) {
+    if (entry.image) {
+      drawSpectrogramImage(
+        entry.canvas,
+        entry.image,
+        colormap,
+        getSelectedMagnitudeScale(),
+      )
+    }
+  }
+}
+
+// Compute the log-mel spectrogram or MFCCs of the rendered frames of the main view and draw them
+// in place of the spectrogram. The mel filters span the lowest filter frequency to the max frequency.
+let renderMatrixImage = async (
+  signal: AbortSignal,
+  mode: Exclude<ImageMode, 'spectrogram'>,
+) => {
+  let { sampleRate, windowSize, hopSize, fftSize, windowFunction } =
+    cachedParams!
+  let options: MfccOptions = {
     signal,
-    audioData,
+    audioData: cachedAudioData!,
+    sampleRate,
     windowSize,
     hopSize,
-    maxFrequency,
-    canvas,
-    frameStart,
-    frameEnd,
-    pauseState,
+    fftSize,
+    windowFunction,
+    melCount: Number(melCountInput.value),
+    minHz: Number(melMinHzInput.value),
+    maxHz: renderedFrequencyAxis.binCount * renderedFrequencyAxis.binWidth,
+    frameStart: renderedFrameStart,
+    frameEnd: renderedFrameEnd,
     onProgress: progress => {
       setStatus(describeProgress(progress))
     },
-  })
-  console.timeEnd('drawSpectrogram')
+  }
+  if (mode === 'log-mel') {
+    let melSpectrogram = await getLogMelSpectrogram(options)
+    if (signal.aborted) return
+    matrixImage = {
+      mode,
+      values: melSpectrogram.values,
+      rowCount: melSpectrogram.melCount,
+      rowLabels: Array.from(
+        melSpectrogram.centerFrequencies,
+        hz => `Mel band ${hz.toFixed(0)} Hz`,
+      ),
+      unit: 'dBFS',
+    }
+  } else {
+    let withDeltas = mfccDeltasCheckbox.checked
+    let mfcc = await getMfcc({
+      ...options,
+      coefficientCount: Number(mfccCountInput.value),
+      lifter: Number(lifterInput.value),
+      deltaOrder: withDeltas ? 2 : 0,
+    })
+    if (signal.aborted) return
+    let { coefficientCount, coefficients } = mfcc
+    let labels = Array.from({ length: coefficientCount }, (_, k) => `c${k}`)
+    if (!withDeltas) {
+      matrixImage = {
+        mode,
+        values: coefficients,
+        rowCount: coefficientCount,
+        rowLabels: labels,
+        unit: '',
+      }
+    } else {
+      // Stack the deltas and delta-deltas above the coefficients of each frame
+      let rowCount = coefficientCount * 3
+      let values = new Float32Array(mfcc.times.length * rowCount)
+      for (let frame = 0; frame < mfcc.times.length; frame++) {
+        let start = frame * coefficientCount
+        let end = start + coefficientCount
+        values.set(coefficients.subarray(start, end), frame * rowCount)
+        values.set(
+          mfcc.deltas!.subarray(start, end),
+          frame * rowCount + coefficientCount,
+        )
+        values.set(
+          mfcc.deltaDeltas!.subarray(start, end),
+          frame * rowCount + coefficientCount * 2,
+        )
+      }
+      matrixImage = {
+        mode,
+        values,
+        rowCount,
+        rowLabels: [
+          ...labels,
+          ...labels.map(label => `Δ${label}`),
+          ...labels.map(label => `ΔΔ${label}`),
+        ],
+        unit: '',
+      }
+    }
+  }
+  drawRenderedMatrixImage()
+  drawSpectrogramAxes()
+}
 
-  // Update scroll position based on offset
-  updateScrollPosition()
+// Log-mel levels span the dynamic range below the loudest band in view.
+// Each cepstral coefficient is scaled to its own range, c0 would otherwise hide the others.
+let drawRenderedMatrixImage = () => {
+  if (!matrixImage) return
+  let scale: MatrixScale = { normalizeRows: true }
+  if (matrixImage.mode === 'log-mel') {
+    let max = matrixImage.values.reduce((a, b) => Math.max(a, b), -Infinity)
+    scale = { min: max - Number(dynamicRangeSlider.value), max }
+  }
+  drawMatrixImage(canvas, matrixImage, getSelectedColormap(), scale)
+}
 
-  // Update waveform viewport indicator
-  updateWaveformViewport()
+// Row name and value of the matrix at a canvas position for the readout, empty for spectrograms
+let getMatrixInfo = (x: number, y: number) => {
+  if (!matrixImage) return ''
+  let { values, rowCount, rowLabels, unit } = matrixImage
+  let frameCount = Math.floor(values.length / rowCount)
+  if (frameCount === 0) return ''
+  let frame = Math.min(
+    frameCount - 1,
+    Math.floor((x * frameCount) / canvas.width),
+  )
+  let row = Math.max(
+    0,
+    rowCount - 1 - Math.floor((y * rowCount) / canvas.height),
+  )
+  let value = values[frame * rowCount + row]
+  return ` | ${rowLabels[row]}: ${value.toFixed(2)}${unit ? ` ${unit}` : ''}`
+}
 
-  console.log('spectrogram size:', canvas.width + 'x' + canvas.height)
-  if (!signal.aborted) {
-    setStatus('Spectrogram ready')
+let updateImageSettings = () => {
+  setStatus('Image updated - Click "Render Spectrogram" to apply')
+}
+imageModeSelect.onchange = updateImageSettings
+melCountInput.onchange = updateImageSettings
+melMinHzInput.onchange = updateImageSettings
+mfccCountInput.onchange = updateImageSettings
+lifterInput.onchange = updateImageSettings
+mfccDeltasCheckbox.onchange = updateImageSettings
+
+// Channel views of the audio, e.g. L and R, are offered when it has more than one channel
+let updateChannelViewOptions = (channelCount: number) => {
+  let previous = channelViewSelect.value
+  let options: [string, string][] = [['mono', 'Mono downmix']]
+  if (channelCount >= 2) {
+    for (let c = 0; c < channelCount; c++) {
+      options.push([
+        `channel-${c}`,
+        `Channel ${getChannelLabel(c, channelCount)}`,
+      ])
+    }
+    options.push(
+      ['mid', 'Mid (L+R)'],
+      ['side', 'Side (L−R)'],
+      ['stacked', 'All channels stacked'],
+      ['mid-side', 'Mid and side stacked'],
+    )
+  }
+  channelViewSelect.textContent = ''
+  for (let [value, text] of options) {
+    let option = document.createElement('option')
+    option.value = value
+    option.textContent = text
+    channelViewSelect.appendChild(option)
   }
+  channelViewSelect.value = options.some(([value]) => value === previous)
+    ? previous
+    : 'mono'
+}
+
+let getChannelLabel = (channel: number, channelCount: number) => {
+  return channelCount === 2 ? ['L', 'R'][channel] : String(channel + 1)
+}
+
+let getChannelViews = (audioBuffer: AudioBuffer) => {
+  let value = channelViewSelect.value
+  let channelCount = audioBuffer.numberOfChannels
+  let channelView = (channel: number) => ({
+    label: getChannelLabel(channel, channelCount),
+    audioData: getChannelAudioData(audioBuffer, channel),
+  })
+  if (value === 'stacked') {
+    return Array.from({ length: channelCount }, (_, c) => channelView(c))
+  }
+  if (value.startsWith('channel-')) {
+    return [channelView(Number(value.slice('channel-'.length)))]
+  }
+  let mid = () => ({
+    label: 'Mid',
+    audioData: getChannelAudioData(audioBuffer, 'mid'),
+  })
+  let side = () => ({
+    label: 'Side',
+    audioData: getChannelAudioData(audioBuffer, 'side'),
+  })
+  if (value === 'mid-side') return [mid(), side()]
+  if (value === 'mid') return [mid()]
+  if (value === 'side') return [side()]
+  // The mono downmix of a multi-channel file needs no label
+  return [{ label: '', audioData: getChannelAudioData(audioBuffer, 'mono') }]
+}
+
+// Keep one canvas per stacked view after the first, sized like the main canvas
+let updateChannelCanvases = (count: number) => {
+  while (channelCanvases.length > count) {
+    channelCanvases.pop()!.canvas.remove()
+  }
+  while (channelCanvases.length < count) {
+    let channelCanvas = document.createElement('canvas')
+    channelCanvasesNode.appendChild(channelCanvas)
+    channelCanvases.push({ canvas: channelCanvas, image: null })
+  }
+  for (let entry of channelCanvases) {
+    entry.canvas.width = canvas.width
+    entry.canvas.height = canvas.height
+    entry.image = null
+  }
+}
+
+// Render the stacked views with the frame range and settings of the main view.
+// They render on the main thread without the magnitude cache, which holds one audio buffer
+// (the main view's).
+let renderChannelCanvases = async (options: DrawSpectrogramOptions) => {
+  for (let i = 0; i < channelCanvases.length; i++) {
+    if (options.signal.aborted) return
+    let entry = channelCanvases[i]
+    let view = channelViews[i + 1]
+    entry.image = await drawSpectrogram({
+      ...options,
+      audioData: view.audioData,
+      canvas: entry.canvas,
+      cache: undefined,
+      onProgress: progress => {
+        setStatus(`Drawing ${view.label} ${progress.percent}%`)
+      },
+    })
+  }
+}
+
+channelViewSelect.onchange = () => {
+  if (!player || !cachedParams || liveSession) return
+  channelViews = getChannelViews(player.audioBuffer)
+  cachedAudioData = channelViews[0].audioData
+  // The peak was measured on other samples
+  filePeakMagnitude = undefined
+  updateChannelCanvases(0)
+  cachedWaveformData = calculateWaveformData(
+    cachedAudioData,
+    canvasContainer.clientWidth || 1920,
+  )
+  updateWaveformViewport()
+  setStatus('Channels updated - Click "Render Spectrogram" to apply')
 }
 
 setStatus('Ready')
 setStats('')
 applyProfileDefaults()
+recolorSpectrogram()
 
 let updateScrollPosition = () => {
   canvasContainer.scrollLeft = offset
+  schedulePermalinkUpdate()
 }
 
-let updateWaveformViewport = () => {
-  if (!cachedWaveformData || !cachedParams || frameCount === 0) return
+// Permalink: the view is kept in the fragment of the page URL, so the address bar links to it
+let getViewState = (): ViewState => {
+  let totalPixels = Math.ceil(frameCount * zoom)
+  let hasView = !!cachedParams && totalPixels > 0
+  return {
+    sourceUrl: sourceUrl ?? undefined,
+    profile: profileSelect.value,
+    maxFrequencyHz: Number(maxFrequencyInput.value) || undefined,
+    height: maxHeight,
+    zoomSeconds: hasView ? zoomSeconds : undefined,
+    startTime: hasView ? (offset / totalPixels) * audioDuration : undefined,
+    selection: selection
+      ? {
+          startTime: selection.startTime,
+          endTime: selection.endTime,
+          ...(!selection.fullHeight && {
+            lowHz: selection.lowHz,
+            highHz: selection.highHz,
+          }),
+        }
+      : undefined,
+  }
+}
 
-  let context = waveformCanvas.getContext('2d')!
-  let canvasWidth = waveformCanvas.width
-  let canvasHeight = waveformCanvas.height
+let getPermalink = () => {
+  return (
+    location.href.replace(/#.*$/, '') + '#' + encodeViewState(getViewState())
+  )
+}
+
+// Debounced, browsers limit how often the URL may be replaced (e.g. while dragging)
+let permalinkTimer: ReturnType<typeof setTimeout> | null = null
+let schedulePermalinkUpdate = () => {
+  if (permalinkTimer) {
+    clearTimeout(permalinkTimer)
+  }
+  permalinkTimer = setTimeout(() => {
+    permalinkTimer = null
+    // Keep an opened link until its view is restored, and the page URL clean until audio is open
+    if (pendingViewState || !cachedParams) return
+    history.replaceState(history.state, '', getPermalink())
+  }, 250)
+}
+
+// Open the view of a link: the settings now, the zoom, position and selection once the audio is loaded
+let restoreViewState = (state: ViewState) => {
+  if (state.profile) {
+    let previous = profileSelect.value
+    profileSelect.value = state.profile
+    if (profileSelect.value) {
+      applyCustomProfile()
+      if (!profileEditor.hidden) fillProfileEditor()
+    } else {
+      // e.g. a custom profile that is only saved in another browser
+      console.warn(`Unknown profile in the link: ${state.profile}`)
+      profileSelect.value = previous
+    }
+  }
+  if (state.maxFrequencyHz) {
+    maxFrequencyInput.value = String(state.maxFrequencyHz)
+  }
+  if (state.height) {
+    maxHeightInput.value = String(state.height)
+    readMaxHeight()
+  }
+  if (state.sourceUrl) {
+    sourceUrl = state.sourceUrl
+    urlInput.value = state.sourceUrl
+    input.value = ''
+  }
+  pendingViewState = state
+}
+
+let applyPendingViewState = () => {
+  let state = pendingViewState
+  pendingViewState = null
+  if (!state || !cachedParams) return
+  if (state.zoomSeconds) {
+    setZoomSeconds(state.zoomSeconds)
+  }
+  if (state.startTime !== undefined) {
+    setViewStartTime(state.startTime)
+  }
+  if (state.selection) {
+    let { startTime, endTime, lowHz, highHz } = state.selection
+    let fullHeight = lowHz === undefined || highHz === undefined
+    selection = {
+      startTime,
+      endTime,
+      lowHz: lowHz ?? 0,
+      highHz:
+        highHz ??
+        (cachedParams.maxFrequency * cachedParams.sampleRate) /
+          cachedParams.fftSize,
+      fullHeight,
+    }
+    updateSelectionInfo()
+  }
+  renderSpectrogramBtn.click()
+}
+
+let updateWaveformViewport = () => {
+  if (!cachedWaveformData || !cachedParams || frameCount === 0) return
+
+  let context = waveformCanvas.getContext('2d')!
+  let canvasWidth = waveformCanvas.width
+  let canvasHeight = waveformCanvas.height
 
   // Redraw waveform
   drawWaveform(waveformCanvas, cachedWaveformData)
+  drawWaveformSpeechSegments()
+  drawWaveformOnsetMarkers()
 
   // Draw viewport indicator (what portion of audio is visible in spectrogram)
   // Only show indicator if spectrogram has been rendered (canvas has content)
@@ -529,9 +1482,10 @@ let setZoomSeconds = (newSeconds: number) => {
   updateZoomDisplay()
 
   // Don't re-render automatically - user must click "Render Spectrogram" button
-  // Just update the viewport indicator
+  // (unless the new view is fully cached), just update the viewport indicator
   updateWaveformViewport()
   setStatus('Zoom updated - Click "Render Spectrogram" to apply')
+  scheduleCachedRender()
 }
 
 let handleZoom = (multiplier: number) => {
@@ -576,6 +1530,7 @@ let handleZoom = (multiplier: number) => {
   )
   updateScrollPosition()
   updateWaveformViewport()
+  scheduleCachedRender()
 }
 
 let handlePan = (delta: number) => {
@@ -585,6 +1540,7 @@ let handlePan = (delta: number) => {
   offset = Math.max(0, Math.min(offset + delta, maxOffset))
   updateScrollPosition()
   updateWaveformViewport()
+  scheduleCachedRender()
 }
 
 let navigateToWaveformPosition = (x: number) => {
@@ -613,9 +1569,11 @@ let navigateToWaveformPosition = (x: number) => {
   updateWaveformViewport()
 
   // Don't re-render spectrogram automatically - user must click "Render Spectrogram" button
+  // (unless the new view is fully cached)
   setStatus(
     'Position updated - Click "Render Spectrogram" to render this region',
   )
+  scheduleCachedRender()
 }
 
 let isRendering = false
@@ -662,6 +1620,36 @@ renderSpectrogramBtn.onclick = async () => {
   }
 }
 
+// Re-pool the view from the magnitude cache when no FFT is needed.
+// Debounced, so dragging the zoom slider or panning repeatedly renders once.
+let cachedRenderTimer: ReturnType<typeof setTimeout> | null = null
+let scheduleCachedRender = () => {
+  if (cachedRenderTimer) {
+    clearTimeout(cachedRenderTimer)
+  }
+  cachedRenderTimer = setTimeout(() => {
+    cachedRenderTimer = null
+    // Only after the user rendered once, and not while a render is in progress
+    if (!spectrogramImage || isRendering || !cachedAudioData || !cachedParams) {
+      return
+    }
+    if (isVisibleViewCached()) {
+      renderSpectrogramBtn.click()
+    }
+  }, 100)
+}
+
+// Whether the FFT magnitudes of all visible frames are in the magnitude cache
+let isVisibleViewCached = () => {
+  if (!cachedAudioData || !cachedParams) return false
+  let { frameStart, frameEnd } = getVisibleFrameRange()
+  return magnitudeCache.hasFrames(
+    getMagnitudeCacheKey({ ...cachedParams, audioData: cachedAudioData }),
+    frameStart ?? 0,
+    frameEnd ?? frameCount,
+  )
+}
+
 pauseBtn.onclick = () => {
   pauseState.paused = true
   updatePauseButtonVisibility()
@@ -674,187 +1662,2108 @@ resumeBtn.onclick = () => {
   setStatus('Processing resumed')
 }
 
-// Zoom controls
-zoomSlider.oninput = () => {
-  let value = Number(zoomSlider.value)
-  if (Number.isFinite(value)) {
-    setZoomSeconds(value)
-  }
+let updateLiveButtons = () => {
+  startLiveBtn.style.display = liveSession ? 'none' : ''
+  stopLiveBtn.style.display = liveSession ? '' : 'none'
+  recordLiveCheckbox.disabled = !!liveSession
 }
 
-zoomInput.onchange = () => {
-  let value = Number(zoomInput.value)
-  let maxSeconds = Math.min(audioDuration || 60, 60)
-  if (Number.isFinite(value) && value >= 0.01 && value <= maxSeconds) {
-    setZoomSeconds(value)
+let startLive = async () => {
+  // The live view takes over the canvas, stop any render and playback of the file view
+  abortController.abort()
+  player?.pause()
+  updatePlaybackControls()
+  spectrogramImage = null
+  matrixImage = null
+  let settings = getAnalysisSettings()
+  readMaxHeight()
+  canvas.width = canvasContainer.clientWidth || 1920
+  canvas.height = maxHeight
+
+  let stream =
+    liveSourceSelect.value === 'oscillator'
+      ? null
+      : await navigator.mediaDevices.getUserMedia({ audio: true })
+  // The browser may not support the profile's rate, the max frequency is converted at the actual one
+  let audioContext = new AudioContext({ sampleRate: settings.sampleRate })
+  settings = getAnalysisSettings(audioContext.sampleRate)
+  let source: AudioNode
+  let stopSource: () => void
+  if (stream) {
+    let tracks = stream.getTracks()
+    source = audioContext.createMediaStreamSource(stream)
+    stopSource = () => {
+      for (let track of tracks) {
+        track.stop()
+      }
+      audioContext.close()
+    }
   } else {
-    // Reset to current zoom if invalid
-    updateZoomDisplay()
+    // A sawtooth shows the harmonics, standing in for a microphone when testing
+    let oscillator = audioContext.createOscillator()
+    oscillator.type = 'sawtooth'
+    oscillator.frequency.value = 220
+    oscillator.start()
+    source = oscillator
+    stopSource = () => {
+      oscillator.stop()
+      audioContext.close()
+    }
+  }
+
+  try {
+    let spectrogram = await startLiveSpectrogram({
+      source,
+      canvas,
+      windowSize: settings.windowSize,
+      hopSize: settings.hopSize,
+      fftSize: settings.fftSize,
+      windowFunction: settings.windowFunction,
+      maxFrequency: settings.maxFrequency,
+      colormap: getSelectedColormap(),
+      magnitudeScale: getSelectedMagnitudeScale(),
+      frequencyScale: getSelectedFrequencyScale(),
+      record: recordLiveCheckbox.checked,
+    })
+    liveSession = { spectrogram, settings, stopSource }
+    // The canvas no longer shows the file view
+    renderedFrameStart = 0
+    renderedFrameEnd = 0
+    updateChannelCanvases(0)
+    updateFeatureLanes()
+    renderedFrequencyAxis = {
+      scale: getSelectedFrequencyScale(),
+      binCount: settings.maxFrequency,
+      binWidth: spectrogram.sampleRate / settings.fftSize,
+    }
+    drawSpectrogramAxes()
+    drawSpectrogramOverlay(null)
+  } catch (error) {
+    stopSource()
+    throw error
   }
+  updateLiveButtons()
+  setStatus(
+    recordLiveCheckbox.checked ? 'Live input (recording)' : 'Live input',
+  )
 }
 
-// Update slider max when audio is loaded
-let updateZoomSliderRange = () => {
-  if (audioDuration > 0) {
-    let maxSeconds = audioDuration
-    zoomSlider.max = String(maxSeconds)
-    zoomInput.max = String(maxSeconds)
+let stopLive = async () => {
+  let session = liveSession
+  if (!session) return
+  liveSession = null
+  updateLiveButtons()
+  let recording = session.spectrogram.isRecording()
+    ? session.spectrogram.stopRecording()
+    : null
+  await session.spectrogram.stop()
+  session.stopSource()
+  drawSpectrogramAxes()
+  if (!recording || recording.length < session.settings.windowSize) {
+    setStatus('Live input stopped')
+    return
+  }
+  // Open the recording like a decoded file
+  input.value = ''
+  let audioBuffer = new AudioBuffer({
+    length: recording.length,
+    numberOfChannels: 1,
+    sampleRate: session.settings.sampleRate,
+  })
+  audioBuffer.getChannelData(0).set(recording)
+  openAudioData(
+    {
+      audioBuffer,
+      name: 'Live recording',
+      size: recording.byteLength,
+    },
+    session.settings,
+  )
+}
+
+startLiveBtn.onclick = async () => {
+  try {
+    await startLive()
+  } catch (error) {
+    console.error(error)
+    setStatus('Failed to start live input: ' + String(error))
   }
 }
 
-zoomInBtn.onclick = () => {
-  // Zoom in: decrease time window by 10% (multiply by 0.9)
-  handleZoom(0.9)
+stopLiveBtn.onclick = async () => {
+  try {
+    await stopLive()
+  } catch (error) {
+    console.error(error)
+    setStatus('Failed to stop live input: ' + String(error))
+  }
 }
-zoomOutBtn.onclick = () => {
-  // Zoom out: increase time window by 10% (multiply by 1.1)
-  handleZoom(1.1)
+
+updateLiveButtons()
+
+// Playback
+let playbackAnimationFrame: number | null = null
+
+let updatePlaybackControls = () => {
+  let isPlaying = !!player?.isPlaying()
+  playBtn.style.display = isPlaying ? 'none' : ''
+  pausePlaybackBtn.style.display = isPlaying ? '' : 'none'
+  seekSlider.max = String(player?.duration ?? 0)
+  seekSlider.disabled = !player
 }
-panLeftBtn.onclick = () => handlePan(-100)
-panRightBtn.onclick = () => handlePan(100)
 
-let updateMaxHeight = () => {
-  let value = maxHeightInput.value.trim()
-  if (value) {
-    let height = Number(value)
-    if (Number.isFinite(height) && height >= 100) {
-      maxHeight = height
-      // Don't auto-render - user needs to click "Render Spectrogram" button
-      setStatus('Height updated - Click "Render Spectrogram" to apply')
+// Move the view to start at a time, like panning
+let setViewStartTime = (seconds: number) => {
+  let viewportWidth = canvasContainer.clientWidth || 1920
+  let totalCanvasWidth = Math.ceil(frameCount * zoom)
+  offset = Math.max(
+    0,
+    Math.min(
+      (seconds / audioDuration) * totalCanvasWidth,
+      totalCanvasWidth - viewportWidth,
+    ),
+  )
+  updateScrollPosition()
+  updateWaveformViewport()
+}
+
+// Move the view so a time is at its centre, as far as the ends of the audio allow
+let setViewCenterTime = (seconds: number) => {
+  let viewportWidth = canvasContainer.clientWidth || 1920
+  let totalCanvasWidth = Math.ceil(frameCount * zoom)
+  setViewStartTime(
+    seconds - ((viewportWidth / totalCanvasWidth) * audioDuration) / 2,
+  )
+}
+
+// Auto-pan: when the playhead leaves the rendered frames of a zoomed-in view, render the page it is on
+let followPlayhead = (time: number) => {
+  if (!cachedParams || !player?.isPlaying()) return
+  if (zoomSeconds >= audioDuration || isRendering) return
+  if (renderedFrameEnd <= renderedFrameStart) return
+  let frame = (time * cachedParams.sampleRate) / cachedParams.hopSize
+  if (frame >= renderedFrameStart && frame < renderedFrameEnd) return
+  // The tail after the last frame has no page of its own
+  if (frame >= renderedFrameEnd && renderedFrameEnd >= frameCount) return
+  setViewStartTime(time)
+  renderSpectrogramBtn.click()
+}
+
+// Selection and playhead on top of the spectrogram
+let drawSpectrogramOverlay = (time: number | null) => {
+  if (
+    spectrogramOverlayCanvas.width !== canvas.width ||
+    spectrogramOverlayCanvas.height !== canvas.height
+  ) {
+    spectrogramOverlayCanvas.width = canvas.width
+    spectrogramOverlayCanvas.height = canvas.height
+  }
+  let context = spectrogramOverlayCanvas.getContext('2d')!
+  context.clearRect(0, 0, canvas.width, canvas.height)
+  if (!cachedParams || liveSession) return
+  if (renderedFrameEnd <= renderedFrameStart) return
+  // The rows of MFCCs are not frequencies
+  if (matrixImage?.mode !== 'mfcc') {
+    drawFormantTracks(context)
+    drawPitchTrack(context)
+  }
+  drawSpectrogramOnsetMarkers(context)
+  drawSelection(context)
+  if (time === null) return
+  let x = timeToCanvasX(time)
+  if (x < 0 || x > canvas.width) return
+  context.strokeStyle = '#f00'
+  context.lineWidth = 1
+  context.beginPath()
+  context.moveTo(x, 0)
+  context.lineTo(x, canvas.height)
+  context.stroke()
+}
+
+// Runs one kind of analysis after aborting its previous run, with its progress and outcome in the status line.
+// run resolves to null when it fails, or when a newer run or abort() stops it.
+let createAnalysisRunner = (messages: {
+  progress: string
+  done: string
+  failed: string
+}) => {
+  let controller = new AbortController()
+  let abort = () => controller.abort()
+  let run = async <T>(
+    analyze: (control: {
+      signal: AbortSignal
+      onProgress: (progress: DrawProgress) => void
+    }) => Promise<T>,
+  ): Promise<T | null> => {
+    abort()
+    controller = new AbortController()
+    let { signal } = controller
+    try {
+      let result = await analyze({
+        signal,
+        onProgress: progress => {
+          if (!signal.aborted) {
+            setStatus(
+              `${messages.progress} ${progress.percent}% (${formatEta(
+                progress.etaMs,
+              )})`,
+            )
+          }
+        },
+      })
+      if (signal.aborted) return null
+      setStatus(messages.done)
+      return result
+    } catch (error) {
+      if (signal.aborted) return null
+      console.error(error)
+      setStatus(`${messages.failed}: ${(error as Error).message}`)
+      return null
     }
   }
+  return { abort, run }
 }
 
-input.onchange = run
-profileSelect.onchange = () => {
-  applyProfileDefaults()
-  // Only reload audio and waveform, don't render spectrogram
-  run()
+// Run an analysis of the whole mono downmix framed like the spectrogram, whatever channel view is shown
+let runMonoAnalysis = async <T>(
+  runner: ReturnType<typeof createAnalysisRunner>,
+  analyze: (options: SpectrumAnalysisOptions) => Promise<T>,
+) => {
+  if (!player || !cachedParams || liveSession) {
+    setStatus('Please load an audio file first')
+    return null
+  }
+  let { audioBuffer } = player
+  let { windowSize, hopSize, fftSize, windowFunction } = cachedParams
+  let audioData = getChannelAudioData(audioBuffer, 'mono')
+  return runner.run(control =>
+    analyze({
+      ...control,
+      audioData,
+      sampleRate: audioBuffer.sampleRate,
+      windowSize,
+      hopSize,
+      fftSize,
+      windowFunction,
+    }),
+  )
 }
-maxFrequencyInput.onchange = () => {
-  // Just update the cached params, don't re-render spectrogram
-  // User needs to click "Render Spectrogram" button
-  if (cachedParams && cachedAudioData) {
-    let mode = profileSelect.value as AudioProfileMode
-    let profile = getAudioProfile(mode)
-    let maxFrequencyHz = (() => {
-      let raw = maxFrequencyInput.value.trim()
-      if (!raw) {
-        return DEFAULT_MAX_FREQUENCY_HZ
-      }
-      let parsed = Number(raw)
-      if (!Number.isFinite(parsed) || parsed <= 0) {
-        return DEFAULT_MAX_FREQUENCY_HZ
-      }
-      return parsed
-    })()
-    let binWidth = profile.sampleRate / profile.windowSize
-    let maxFrequency = Math.floor(maxFrequencyHz / binWidth)
-    let maxAllowedBins = Math.floor(profile.windowSize / 2)
-    if (maxFrequency > maxAllowedBins) {
-      maxFrequency = maxAllowedBins
+
+// Whether an overlay was computed from these inputs and covers the frames, the rendered ones by default
+let isOverlayCurrent = (
+  overlay: TrackOverlay<
+    { frameStart: number; frameEnd: number },
+    Record<string, unknown>
+  > | null,
+  audioData: Float32Array,
+  settings: Record<string, unknown>,
+  frameStart = renderedFrameStart,
+  frameEnd = renderedFrameEnd,
+) => {
+  return (
+    !!overlay &&
+    overlay.audioData === audioData &&
+    Object.keys(settings).every(
+      key => overlay.settings[key] === settings[key],
+    ) &&
+    overlay.track.frameStart <= frameStart &&
+    overlay.track.frameEnd >= frameEnd
+  )
+}
+
+let pitchAnalysis = createAnalysisRunner({
+  progress: 'Tracking pitch',
+  done: 'Pitch ready',
+  failed: 'Pitch tracking failed',
+})
+
+// Track the F0 of the rendered frames of the main view, unless the last track covers them
+let updatePitchTrack = async () => {
+  if (!pitchCheckbox.checked || !cachedAudioData || !cachedParams) return
+  if (renderedFrameEnd <= renderedFrameStart) return
+  let { sampleRate, windowSize, hopSize } = cachedParams
+  let audioData = cachedAudioData
+  let settings = {
+    sampleRate,
+    windowSize,
+    hopSize,
+    minF0: Number(minF0Input.value),
+    maxF0: Number(maxF0Input.value),
+  }
+  if (isOverlayCurrent(pitchOverlay, audioData, settings)) {
+    drawSpectrogramOverlay(player ? player.getCurrentTime() : null)
+    return
+  }
+  let track = await pitchAnalysis.run(control =>
+    getPitchTrack({
+      ...settings,
+      ...control,
+      audioData,
+      frameStart: renderedFrameStart,
+      frameEnd: renderedFrameEnd,
+    }),
+  )
+  if (!track) return
+  pitchOverlay = { track, audioData, settings }
+  drawSpectrogramOverlay(player ? player.getCurrentTime() : null)
+}
+
+// Pitch contour at the centre of each frame's columns, broken at unvoiced frames
+let drawPitchTrack = (context: CanvasRenderingContext2D) => {
+  if (!pitchCheckbox.checked || !pitchOverlay) return
+  let { track } = pitchOverlay
+  context.strokeStyle = '#f0f'
+  context.lineWidth = 2
+  context.beginPath()
+  let drawing = false
+  for (let i = 0; i < track.times.length; i++) {
+    if (!track.voiced[i]) {
+      drawing = false
+      continue
     }
-    if (maxFrequency < 1) {
-      maxFrequency = 1
+    let x = frameCenterToCanvasX(track.times[i])
+    let y = frequencyToCanvasY(track.frequencies[i])
+    if (drawing) {
+      context.lineTo(x, y)
+    } else {
+      context.moveTo(x, y)
+      drawing = true
     }
-    cachedParams.maxFrequency = maxFrequency
-    setStatus('Settings updated - Click "Render Spectrogram" to apply')
   }
+  context.stroke()
 }
-maxHeightInput.onchange = updateMaxHeight
-maxHeightInput.oninput = updateMaxHeight
 
-// Initialize max height
-updateMaxHeight()
+// F0 at the cursor for the readout, empty without a pitch track
+let getPitchInfo = (time: number) => {
+  if (!pitchCheckbox.checked || !pitchOverlay) return ''
+  let { track, settings } = pitchOverlay
+  let pitch = getPitchAtTime(
+    track,
+    time,
+    settings.sampleRate,
+    settings.windowSize,
+    settings.hopSize,
+  )
+  if (!pitch) return ''
+  let confidence = Math.round(pitch.confidence * 100)
+  return pitch.voiced
+    ? ` | F0: ${pitch.frequency.toFixed(1)} Hz (${confidence}% confidence)`
+    : ' | F0: unvoiced'
+}
 
-// Cursor tracking for timestamp and frequency display
-canvas.onmousemove = (event: MouseEvent) => {
-  if (!cachedParams) {
-    cursorInfoNode.textContent = ''
+pitchCheckbox.onchange = () => {
+  if (pitchCheckbox.checked) {
+    updatePitchTrack()
+  } else {
+    pitchAnalysis.abort()
+    drawSpectrogramOverlay(player ? player.getCurrentTime() : null)
+  }
+}
+minF0Input.onchange = updatePitchTrack
+maxF0Input.onchange = updatePitchTrack
+
+let formantAnalysis = createAnalysisRunner({
+  progress: 'Tracking formants',
+  done: 'Formants ready',
+  failed: 'Formant tracking failed',
+})
+
+// Track the formants of the rendered frames of the main view, unless the last track covers them
+let updateFormantTrack = async () => {
+  if (!formantsCheckbox.checked || !cachedAudioData || !cachedParams) return
+  if (renderedFrameEnd <= renderedFrameStart) return
+  let { sampleRate, windowSize, hopSize } = cachedParams
+  let audioData = cachedAudioData
+  let settings = {
+    sampleRate,
+    windowSize,
+    hopSize,
+    maxFormantHz: Number(maxFormantInput.value),
+  }
+  if (isOverlayCurrent(formantOverlay, audioData, settings)) {
+    drawSpectrogramOverlay(player ? player.getCurrentTime() : null)
     return
   }
+  let track = await formantAnalysis.run(control =>
+    getFormantTrack({
+      ...settings,
+      ...control,
+      audioData,
+      frameStart: renderedFrameStart,
+      frameEnd: renderedFrameEnd,
+    }),
+  )
+  if (!track) return
+  formantOverlay = { track, audioData, settings }
+  drawSpectrogramOverlay(player ? player.getCurrentTime() : null)
+}
 
-  let rect = canvas.getBoundingClientRect()
-  // Convert CSS coordinates to canvas coordinates (accounting for CSS scaling)
-  let scaleX = canvas.width / rect.width
-  let scaleY = canvas.height / rect.height
-  let x = (event.clientX - rect.left) * scaleX
-  let y = (event.clientY - rect.top) * scaleY
+// Colours of F1, F2, F3 and F4
+let FORMANT_COLORS = ['#f33', '#fa0', '#3c3', '#39f']
+
+// A dot per frame and formant at the centre of the frame's columns
+let drawFormantTracks = (context: CanvasRenderingContext2D) => {
+  if (!formantsCheckbox.checked || !formantOverlay) return
+  let { track } = formantOverlay
+  for (let formant = 0; formant < track.formantCount; formant++) {
+    context.fillStyle = FORMANT_COLORS[formant % FORMANT_COLORS.length]
+    for (let i = 0; i < track.times.length; i++) {
+      let frequency = track.frequencies[i * track.formantCount + formant]
+      if (!Number.isFinite(frequency)) continue
+      let x = frameCenterToCanvasX(track.times[i])
+      let y = frequencyToCanvasY(frequency)
+      context.fillRect(x - 1, y - 1, 3, 3)
+    }
+  }
+}
 
-  // Clamp to canvas bounds
-  x = Math.max(0, Math.min(x, canvas.width))
-  y = Math.max(0, Math.min(y, canvas.height))
+// Formants at the cursor for the readout, empty without a formant track
+let getFormantInfo = (time: number) => {
+  if (!formantsCheckbox.checked || !formantOverlay) return ''
+  let { track, settings } = formantOverlay
+  let formants = getFormantsAtTime(
+    track,
+    time,
+    settings.sampleRate,
+    settings.windowSize,
+    settings.hopSize,
+  )
+  if (!formants) return ''
+  let parts = formants
+    .map(({ frequency, bandwidth }, i) =>
+      Number.isFinite(frequency)
+        ? `F${i + 1} ${frequency.toFixed(0)} Hz (bw ${bandwidth.toFixed(0)})`
+        : `F${i + 1} --`,
+    )
+    .join(', ')
+  return ` | ${parts}`
+}
 
-  // Calculate frame index from x position
-  // The canvas shows frames from renderedFrameStart to renderedFrameEnd
-  // Map x position to a frame within that range
-  let canvasWidth = canvas.width
-  let renderedFrameCount = renderedFrameEnd - renderedFrameStart
-  let frameRatio = x / canvasWidth
-  let frameIndexInRenderedRange = Math.floor(frameRatio * renderedFrameCount)
+formantsCheckbox.onchange = () => {
+  if (formantsCheckbox.checked) {
+    updateFormantTrack()
+  } else {
+    formantAnalysis.abort()
+    drawSpectrogramOverlay(player ? player.getCurrentTime() : null)
+  }
+}
+maxFormantInput.onchange = updateFormantTrack
+
+let FEATURE_LANE_HEIGHT = 60
+let FEATURE_LABELS: Record<SpectralFeatureName, string> = {
+  centroid: 'Centroid',
+  rolloff: 'Rolloff',
+  flatness: 'Flatness',
+  bandwidth: 'Bandwidth',
+  flux: 'Flux',
+  rms: 'RMS',
+  zcr: 'ZCR',
+}
 
-  // Convert to absolute frame index in the full audio
-  let absoluteFrame = renderedFrameStart + frameIndexInRenderedRange
-  absoluteFrame = Math.max(
-    renderedFrameStart,
-    Math.min(absoluteFrame, renderedFrameEnd - 1),
+let getSelectedFeatures = () => {
+  return SPECTRAL_FEATURES.filter(name =>
+    featureCheckboxes.some(
+      checkbox => checkbox.checked && checkbox.value === name,
+    ),
   )
+}
 
-  // Calculate absolute timestamp in the source audio
-  let sampleIndex = absoluteFrame * cachedParams.hopSize
-  let timestamp = sampleIndex / cachedParams.sampleRate
+let formatFeatureValue = (name: SpectralFeatureName, value: number) => {
+  let unit = SPECTRAL_FEATURE_UNITS[name]
+  return unit ? `${value.toFixed(0)} ${unit}` : value.toPrecision(3)
+}
 
-  // Calculate frequency from y position
-  // Canvas y=0 is at top (highest frequency), y=height is at bottom (lowest frequency)
-  // Account for vertical scaling if canvas height is less than maxFrequency
-  let verticalScale =
-    canvas.height < cachedParams.maxFrequency
-      ? canvas.height / cachedParams.maxFrequency
-      : 1
-
-  // Map canvas y to frequency bin index
-  let freqIndexStart = (canvas.height - 1 - y) / verticalScale
-  let freqIndexEnd = (canvas.height - y) / verticalScale
-  let freqStart = Math.floor(freqIndexStart)
-  let freqEnd = Math.ceil(freqIndexEnd)
-
-  // Clamp to valid range
-  freqStart = Math.max(0, Math.min(freqStart, cachedParams.maxFrequency - 1))
-  freqEnd = Math.max(0, Math.min(freqEnd, cachedParams.maxFrequency))
-
-  // Use the center frequency bin for display
-  let frequencyBinIndex = Math.floor((freqStart + freqEnd) / 2)
-
-  // Calculate frequency range for this bin
-  // Each bin represents a frequency range
-  // The FFT produces windowSize/2 bins, each representing sampleRate/windowSize Hz
-  // binWidth = sampleRate / windowSize (Hz per bin)
-  let binWidth = cachedParams.sampleRate / cachedParams.windowSize
-
-  // Calculate the actual frequency for this bin
-  // maxFrequency is the number of bins displayed (0 to maxFrequency-1)
-  let frequencyStart = frequencyBinIndex * binWidth
-  let frequencyEnd = (frequencyBinIndex + 1) * binWidth
+// A lane shares the hover timestamp with the spectrogram and waveform
+let createFeatureLane = (name: SpectralFeatureName) => {
+  let laneCanvas = document.createElement('canvas')
+  laneCanvas.onmousemove = (event: MouseEvent) => {
+    if (!cachedParams || liveSession) return
+    if (renderedFrameEnd <= renderedFrameStart) return
+    let rect = laneCanvas.getBoundingClientRect()
+    let x = ((event.clientX - rect.left) * laneCanvas.width) / rect.width
+    let timestamp = canvasXToTime(Math.max(0, Math.min(x, canvas.width)))
+    cursorInfoNode.textContent = `Time: ${formatTimeBoth(
+      timestamp,
+    )}${getFeatureInfo(toFrameCenterTime(timestamp))}`
+    hoverTimestamp = timestamp
+    updateWaveformHoverIndicator()
+  }
+  laneCanvas.onmouseleave = () => {
+    cursorInfoNode.textContent = ''
+    hoverTimestamp = null
+    updateWaveformHoverIndicator()
+  }
+  return { name, canvas: laneCanvas, plot: document.createElement('canvas') }
+}
 
-  // Format display - show both mm:ss.sss and seconds format
-  let timeStr = formatTimeBoth(timestamp)
-  let freqStr = `${frequencyStart.toFixed(1)} - ${frequencyEnd.toFixed(1)} Hz`
+// Keep one lane per checked feature, in the order of SPECTRAL_FEATURES, as wide as the main canvas
+let updateFeatureLanes = () => {
+  let names = getSelectedFeatures()
+  for (let lane of featureLanes) {
+    if (!names.includes(lane.name)) lane.canvas.remove()
+  }
+  featureLanes = names.map(
+    name =>
+      featureLanes.find(lane => lane.name === name) ?? createFeatureLane(name),
+  )
+  for (let lane of featureLanes) {
+    featureLanesNode.appendChild(lane.canvas)
+    lane.canvas.width = canvas.width
+    lane.canvas.height = FEATURE_LANE_HEIGHT
+  }
+  plotFeatureLanes()
+  drawFeatureLanes()
+}
 
-  cursorInfoNode.textContent = `Time: ${timeStr} | Frequency: ${freqStr}`
+// Plot the features of the rendered frames, from 0 to the largest value in view.
+// The plots are kept, so the hover line and playhead are drawn over them without replotting.
+let plotFeatureLanes = () => {
+  let overlay =
+    featureOverlay && featureOverlay.audioData === cachedAudioData
+      ? featureOverlay
+      : null
+  let renderedFrameCount = renderedFrameEnd - renderedFrameStart
+  for (let lane of featureLanes) {
+    let { plot, name } = lane
+    plot.width = lane.canvas.width
+    plot.height = lane.canvas.height
+    let series = overlay?.track.features[name]
+    if (!series || liveSession || renderedFrameCount <= 0) continue
+    let track = overlay!.track
+    let start = Math.max(0, renderedFrameStart - track.frameStart)
+    let end = Math.min(series.length, renderedFrameEnd - track.frameStart)
+    if (end <= start) continue
+    let maxValue = 0
+    for (let i = start; i < end; i++) {
+      maxValue = Math.max(maxValue, series[i])
+    }
+    let scale = maxValue > 0 ? (plot.height - 4) / maxValue : 0
+    let context = plot.getContext('2d')!
+    context.strokeStyle = '#06c'
+    context.lineWidth = 1
+    context.beginPath()
+    for (let i = start; i < end; i++) {
+      let x = frameCenterToCanvasX(track.times[i])
+      let y = plot.height - 2 - series[i] * scale
+      if (i === start) {
+        context.moveTo(x, y)
+      } else {
+        context.lineTo(x, y)
+      }
+    }
+    context.stroke()
+    context.fillStyle = '#000'
+    context.font = '11px sans-serif'
+    context.textBaseline = 'top'
+    context.fillText(
+      `${FEATURE_LABELS[name]} (max ${formatFeatureValue(name, maxValue)})`,
+      4,
+      2,
+    )
+  }
+}
 
-  // Update hover timestamp and draw indicator on overlay canvas
-  hoverTimestamp = timestamp
-  updateWaveformHoverIndicator()
+// Draw the plots with the hover line (at the centre of the frame's columns) and the playhead
+let drawFeatureLanes = () => {
+  let renderedFrameCount = renderedFrameEnd - renderedFrameStart
+  let playheadTime = player && !liveSession ? player.getCurrentTime() : null
+  for (let lane of featureLanes) {
+    let context = lane.canvas.getContext('2d')!
+    context.clearRect(0, 0, lane.canvas.width, lane.canvas.height)
+    context.drawImage(lane.plot, 0, 0)
+    if (!cachedParams || liveSession || renderedFrameCount <= 0) continue
+    let lines: [number, string][] = []
+    if (hoverTimestamp !== null) {
+      lines.push([
+        frameCenterToCanvasX(toFrameCenterTime(hoverTimestamp)),
+        '#0ff',
+      ])
+    }
+    if (playheadTime !== null) {
+      lines.push([timeToCanvasX(playheadTime), '#f00'])
+    }
+    for (let [x, color] of lines) {
+      if (x < 0 || x > lane.canvas.width) continue
+      context.strokeStyle = color
+      context.lineWidth = 1
+      context.beginPath()
+      context.moveTo(x, 0)
+      context.lineTo(x, lane.canvas.height)
+      context.stroke()
+    }
+  }
 }
 
-canvas.onmouseleave = () => {
-  cursorInfoNode.textContent = ''
-  hoverTimestamp = null
-  updateWaveformHoverIndicator()
+let featureAnalysis = createAnalysisRunner({
+  progress: 'Computing features',
+  done: 'Features ready',
+  failed: 'Feature extraction failed',
+})
+
+// Compute all features of the rendered frames of the main view, unless the last result covers them
+let updateFeatureTrack = async () => {
+  if (featureLanes.length === 0 || !cachedAudioData || !cachedParams) return
+  if (renderedFrameEnd <= renderedFrameStart) return
+  let { sampleRate, windowSize, hopSize, fftSize, windowFunction } =
+    cachedParams
+  let audioData = cachedAudioData
+  let settings = { sampleRate, windowSize, hopSize, fftSize, windowFunction }
+  if (isOverlayCurrent(featureOverlay, audioData, settings)) {
+    plotFeatureLanes()
+    drawFeatureLanes()
+    return
+  }
+  let track = await featureAnalysis.run(control =>
+    getSpectralFeatures({
+      ...settings,
+      ...control,
+      audioData,
+      frameStart: renderedFrameStart,
+      frameEnd: renderedFrameEnd,
+    }),
+  )
+  if (!track) return
+  featureOverlay = { track, audioData, settings }
+  plotFeatureLanes()
+  drawFeatureLanes()
 }
 
-// Update hover indicator on overlay canvas (separate from waveform redraw)
-let updateWaveformHoverIndicator = () => {
+// Values of the plotted features at the cursor for the readout, empty without lanes
+let getFeatureInfo = (time: number) => {
+  if (featureLanes.length === 0 || !featureOverlay) return ''
+  let { track, settings } = featureOverlay
+  let values = getSpectralFeaturesAtTime(
+    track,
+    time,
+    settings.sampleRate,
+    settings.windowSize,
+    settings.hopSize,
+  )
+  if (!values) return ''
+  let parts = featureLanes
+    .map(
+      ({ name }) =>
+        `${FEATURE_LABELS[name]} ${formatFeatureValue(name, values![name]!)}`,
+    )
+    .join(', ')
+  return ` | ${parts}`
+}
+
+for (let checkbox of featureCheckboxes) {
+  checkbox.onchange = () => {
+    updateFeatureLanes()
+    if (featureLanes.length > 0) {
+      updateFeatureTrack()
+    } else {
+      featureAnalysis.abort()
+    }
+  }
+}
+
+// Length of the onset ticks along the top and the beat ticks along the bottom, in pixels
+let ONSET_TICK_PX = 12
+let ONSET_COLOR = '#fa0'
+let BEAT_COLOR = '#0af'
+
+let updateOnsetControls = () => {
+  prevOnsetBtn.disabled = !onsetMarkers
+  nextOnsetBtn.disabled = !onsetMarkers
+  if (!onsetMarkers) {
+    onsetInfoNode.textContent = ''
+    return
+  }
+  let { onsets, beats, bpm } = onsetMarkers
+  onsetInfoNode.textContent = Number.isFinite(bpm)
+    ? `${onsets.length} onsets, ${bpm.toFixed(1)} BPM (${beats.length} beats)`
+    : `${onsets.length} onsets, no tempo found`
+}
+
+let drawTimeTicks = (
+  context: CanvasRenderingContext2D,
+  times: Float32Array,
+  timeToX: (time: number) => number,
+  width: number,
+  top: number,
+  bottom: number,
+  color: string,
+) => {
+  context.strokeStyle = color
+  context.lineWidth = 1
+  context.beginPath()
+  for (let time of times) {
+    let x = timeToX(time)
+    if (x < 0 || x > width) continue
+    context.moveTo(x, top)
+    context.lineTo(x, bottom)
+  }
+  context.stroke()
+}
+
+// The waveform shows the whole audio, its context is scaled to CSS pixels
+let getWaveformDrawing = () => {
+  let dpr = window.devicePixelRatio || 1
+  let width = waveformCanvas.width / dpr
+  return {
+    context: waveformCanvas.getContext('2d')!,
+    width,
+    height: waveformCanvas.height / dpr,
+    timeToX: (time: number) => (time / audioDuration) * width,
+  }
+}
+
+let drawWaveformOnsetMarkers = () => {
+  if (!onsetMarkers || audioDuration <= 0) return
+  let { context, width, height, timeToX } = getWaveformDrawing()
+  let { onsets, beats } = onsetMarkers
+  drawTimeTicks(context, onsets, timeToX, width, 0, ONSET_TICK_PX, ONSET_COLOR)
+  drawTimeTicks(
+    context,
+    beats,
+    timeToX,
+    width,
+    height - ONSET_TICK_PX,
+    height,
+    BEAT_COLOR,
+  )
+}
+
+// Ticks on the columns of the frames the onsets and beats were found in
+let drawSpectrogramOnsetMarkers = (context: CanvasRenderingContext2D) => {
+  if (!onsetMarkers) return
+  let { onsets, beats } = onsetMarkers
+  drawTimeTicks(
+    context,
+    onsets,
+    frameCenterToCanvasX,
+    canvas.width,
+    0,
+    ONSET_TICK_PX,
+    ONSET_COLOR,
+  )
+  drawTimeTicks(
+    context,
+    beats,
+    frameCenterToCanvasX,
+    canvas.width,
+    canvas.height - ONSET_TICK_PX,
+    canvas.height,
+    BEAT_COLOR,
+  )
+}
+
+let onsetAnalysis = createAnalysisRunner({
+  progress: 'Detecting onsets',
+  done: 'Onsets ready',
+  failed: 'Onset detection failed',
+})
+
+// Detect onsets, the tempo and beats of the whole audio
+detectOnsetsBtn.onclick = async () => {
+  detectOnsetsBtn.disabled = true
+  let markers = await runMonoAnalysis(onsetAnalysis, async options => {
+    let detection = await detectOnsets({
+      ...options,
+      threshold: Number(onsetThresholdInput.value),
+    })
+    return { onsets: detection.onsets, ...trackBeats(detection) }
+  })
+  detectOnsetsBtn.disabled = false
+  if (!markers) return
+  onsetMarkers = markers
+  updateOnsetControls()
+  updateWaveformViewport()
+  drawSpectrogramOverlay(player ? player.getCurrentTime() : null)
+}
+
+// Move the playhead to the next or previous onset and centre the view on it
+let navigateOnset = async (direction: 1 | -1) => {
+  if (!onsetMarkers || !player || frameCount === 0) return
+  let time = player.getCurrentTime()
+  let { onsets } = onsetMarkers
+  let target: number | undefined
+  // Skip the onset the playhead is on, its time is rounded to float32
+  let margin = 1e-3
+  if (direction > 0) {
+    target = onsets.find(onset => onset > time + margin)
+  } else {
+    for (let i = onsets.length - 1; i >= 0 && target === undefined; i--) {
+      if (onsets[i] < time - margin) target = onsets[i]
+    }
+  }
+  if (target === undefined) {
+    setStatus(direction > 0 ? 'No later onset' : 'No earlier onset')
+    return
+  }
+  await player.seek(target)
+  setViewCenterTime(target)
+  updatePlayback()
+  if (zoomSeconds < audioDuration) {
+    renderSpectrogramBtn.click()
+  }
+}
+
+prevOnsetBtn.onclick = () => navigateOnset(-1)
+nextOnsetBtn.onclick = () => navigateOnset(1)
+updateOnsetControls()
+
+let SPEECH_FILL = 'rgba(0, 200, 0, 0.2)'
+
+let getSpeechSegments = () =>
+  voiceSegments?.filter(segment => segment.speech) ?? []
+
+// List the speech segments as buttons that zoom the spectrogram to them
+let updateSegmentPanel = () => {
+  let segments = getSpeechSegments()
+  exportSegmentsBtn.disabled = !voiceSegments
+  segmentPanel.hidden = !voiceSegments
+  segmentListNode.textContent = ''
+  if (!voiceSegments) {
+    speechInfoNode.textContent = ''
+    return
+  }
+  let speechSeconds = segments.reduce(
+    (sum, segment) => sum + segment.endTime - segment.startTime,
+    0,
+  )
+  speechInfoNode.textContent = `${
+    segments.length
+  } speech segments, ${formatTime(speechSeconds, 1)} of ${formatTime(
+    audioDuration,
+    1,
+  )}`
+  for (let segment of segments) {
+    let item = document.createElement('li')
+    let button = document.createElement('button')
+    button.textContent = `${formatTime(segment.startTime, 1)}–${formatTime(
+      segment.endTime,
+      1,
+    )}`
+    button.title = `${(segment.endTime - segment.startTime).toFixed(2)}s`
+    button.onclick = () => showSpeechSegment(segment)
+    item.appendChild(button)
+    segmentListNode.appendChild(item)
+  }
+}
+
+// Zoom the spectrogram to a segment and move the playhead to its start
+let showSpeechSegment = async (segment: VoiceSegment) => {
+  if (!player || frameCount === 0) return
+  let { startTime, endTime } = segment
+  await player.seek(startTime)
+  setZoomSeconds(endTime - startTime)
+  setViewStartTime(startTime)
+  updatePlayback()
+  renderSpectrogramBtn.click()
+}
+
+let drawWaveformSpeechSegments = () => {
+  if (!voiceSegments || audioDuration <= 0) return
+  let { context, height, timeToX } = getWaveformDrawing()
+  context.fillStyle = SPEECH_FILL
+  for (let { startTime, endTime } of getSpeechSegments()) {
+    let x = timeToX(startTime)
+    // Keep short segments visible
+    context.fillRect(x, 0, Math.max(1, timeToX(endTime) - x), height)
+  }
+}
+
+let speechAnalysis = createAnalysisRunner({
+  progress: 'Detecting speech',
+  done: 'Speech segments ready',
+  failed: 'Speech detection failed',
+})
+
+detectSpeechBtn.onclick = async () => {
+  detectSpeechBtn.disabled = true
+  let activity = await runMonoAnalysis(speechAnalysis, options =>
+    detectVoiceActivity({
+      ...options,
+      thresholdDb: Number(vadThresholdInput.value),
+      minSpeechSeconds: Number(minSpeechInput.value),
+      minSilenceSeconds: Number(minSilenceInput.value),
+    }),
+  )
+  detectSpeechBtn.disabled = false
+  if (!activity) return
+  voiceSegments = activity.segments
+  updateSegmentPanel()
+  updateWaveformViewport()
+}
+
+exportSegmentsBtn.onclick = () => {
+  if (!voiceSegments) return
+  let format = segmentFormatSelect.value === 'json' ? 'json' : 'csv'
+  let text =
+    format === 'json'
+      ? encodeVoiceSegmentsJson(voiceSegments)
+      : encodeVoiceSegmentsCsv(voiceSegments)
+  let type = format === 'json' ? 'application/json' : 'text/csv'
+  downloadBlob(
+    new Blob([text], { type }),
+    `${getExportBaseName()}-speech.${format}`,
+  )
+  setStatus('Speech segments exported')
+}
+updateSegmentPanel()
+
+// Size of the axis canvases in CSS pixels, the canvases are scaled for crisp text
+let TIME_AXIS_HEIGHT = 28
+let FREQUENCY_AXIS_WIDTH = 64
+// Pixels per tick label, so the tick count follows the width and height
+let TIME_TICK_SPACING = 100
+let FREQUENCY_TICK_SPACING = 40
+
+let resizeAxisCanvas = (
+  axisCanvas: HTMLCanvasElement,
+  width: number,
+  height: number,
+) => {
+  let dpr = window.devicePixelRatio || 1
+  axisCanvas.style.width = `${width}px`
+  axisCanvas.style.height = `${height}px`
+  axisCanvas.width = Math.round(width * dpr)
+  axisCanvas.height = Math.round(height * dpr)
+  let context = axisCanvas.getContext('2d')!
+  context.scale(dpr, dpr)
+  context.clearRect(0, 0, width, height)
+  context.fillStyle = '#000'
+  context.strokeStyle = '#000'
+  context.lineWidth = 1
+  context.font = '11px sans-serif'
+  return context
+}
+
+// Time and frequency range shown on the canvas, live views end now
+let getDisplayedRange = () => {
+  if (liveSession) {
+    let { sampleRate, hopSize } = liveSession.settings
+    return {
+      startTime: -(canvas.width * hopSize) / sampleRate,
+      endTime: 0,
+    }
+  }
+  if (!cachedParams || renderedFrameEnd <= renderedFrameStart) return null
+  let { sampleRate, hopSize } = cachedParams
+  return {
+    startTime: (renderedFrameStart * hopSize) / sampleRate,
+    endTime: (renderedFrameEnd * hopSize) / sampleRate,
+  }
+}
+
+// Every few rows of a matrix image at the centre of the row, e.g. the coefficients of MFCCs
+let getMatrixRowTicks = (rowLabels: string[], maxCount: number) => {
+  let step = Math.ceil(rowLabels.length / maxCount)
+  let ticks: { position: number; label: string }[] = []
+  for (let row = 0; row < rowLabels.length; row += step) {
+    ticks.push({
+      position: (row + 0.5) / rowLabels.length,
+      label: rowLabels[row],
+    })
+  }
+  return ticks
+}
+
+// Time axis under the spectrogram and frequency axis beside it, for what the canvas shows
+let drawSpectrogramAxes = () => {
+  let width = canvas.clientWidth
+  let viewCanvases = [canvas, ...channelCanvases.map(entry => entry.canvas)]
+  let top = canvas.getBoundingClientRect().top
+  let height =
+    viewCanvases[viewCanvases.length - 1].getBoundingClientRect().bottom - top
+  let timeContext = resizeAxisCanvas(timeAxisCanvas, width, TIME_AXIS_HEIGHT)
+  let frequencyContext = resizeAxisCanvas(
+    frequencyAxisCanvas,
+    FREQUENCY_AXIS_WIDTH,
+    height,
+  )
+  // Line up with the spectrogram, below the waveform
+  frequencyAxisCanvas.style.marginTop = `${
+    top - spectrogramView.getBoundingClientRect().top
+  }px`
+  let range = getDisplayedRange()
+  if (!range || width === 0 || height <= 0) return
+
+  let { startTime, endTime } = range
+  let maxCount = Math.max(2, Math.floor(width / TIME_TICK_SPACING))
+  let decimals = getStepDecimals(getNiceStep(endTime - startTime, maxCount))
+  timeContext.textAlign = 'center'
+  timeContext.textBaseline = 'top'
+  for (let tick of getTimeTicks(startTime, endTime, maxCount)) {
+    let x = Math.round(tick.position * width) + 0.5
+    timeContext.beginPath()
+    timeContext.moveTo(x, 0)
+    timeContext.lineTo(x, 5)
+    timeContext.stroke()
+    let label = formatTime(Math.abs(tick.value), decimals)
+    timeContext.fillText(tick.value < 0 ? `-${label}` : label, x, 8)
+  }
+
+  // One frequency axis per stacked view, labelled with its channel
+  for (let i = 0; i < viewCanvases.length; i++) {
+    let viewTop = viewCanvases[i].getBoundingClientRect().top - top
+    let viewHeight = viewCanvases[i].clientHeight
+    let maxTickCount = Math.max(
+      2,
+      Math.floor(viewHeight / FREQUENCY_TICK_SPACING),
+    )
+    let ticks =
+      matrixImage?.mode === 'mfcc'
+        ? getMatrixRowTicks(matrixImage.rowLabels, maxTickCount)
+        : getFrequencyTicks(renderedFrequencyAxis, maxTickCount).map(tick => ({
+            ...tick,
+            label: `${tick.label} Hz`,
+          }))
+    frequencyContext.textAlign = 'right'
+    frequencyContext.textBaseline = 'middle'
+    for (let tick of ticks) {
+      let y = Math.round(viewTop + (1 - tick.position) * viewHeight) + 0.5
+      frequencyContext.beginPath()
+      frequencyContext.moveTo(FREQUENCY_AXIS_WIDTH - 5, y)
+      frequencyContext.lineTo(FREQUENCY_AXIS_WIDTH, y)
+      frequencyContext.stroke()
+      // Keep the labels at the ends inside the view
+      let labelY = Math.max(viewTop + 6, Math.min(viewTop + viewHeight - 6, y))
+      frequencyContext.fillText(tick.label, FREQUENCY_AXIS_WIDTH - 8, labelY)
+    }
+    let label = liveSession ? '' : channelViews[i]?.label
+    if (label) {
+      frequencyContext.save()
+      frequencyContext.translate(2, viewTop + viewHeight / 2)
+      frequencyContext.rotate(-Math.PI / 2)
+      frequencyContext.font = 'bold 11px sans-serif'
+      frequencyContext.textAlign = 'center'
+      frequencyContext.textBaseline = 'top'
+      frequencyContext.fillText(label, 0, 0)
+      frequencyContext.restore()
+    }
+  }
+}
+
+// Update the playhead, time readout and view, every animation frame while playing
+let updatePlayback = () => {
+  if (playbackAnimationFrame !== null) {
+    cancelAnimationFrame(playbackAnimationFrame)
+    playbackAnimationFrame = null
+  }
+  let time = player ? player.getCurrentTime() : null
+  seekSlider.value = String(time ?? 0)
+  playbackTimeNode.textContent = player
+    ? `${formatTime(time!)} / ${formatTime(player.duration)}`
+    : ''
+  if (time !== null) {
+    followPlayhead(time)
+  }
+  drawSpectrogramOverlay(time)
+  updateWaveformHoverIndicator()
+  if (player?.isPlaying()) {
+    playbackAnimationFrame = requestAnimationFrame(updatePlayback)
+  }
+}
+
+let startPlaybackAnimation = () => {
+  if (playbackAnimationFrame === null) {
+    playbackAnimationFrame = requestAnimationFrame(updatePlayback)
+  }
+}
+
+playBtn.onclick = async () => {
+  if (!player) {
+    setStatus('Please load an audio file first')
+    return
+  }
+  // The whole audio, without the range and filter of a selection loop
+  await player.play(undefined, {})
+  updatePlaybackControls()
+  startPlaybackAnimation()
+}
+
+pausePlaybackBtn.onclick = () => {
+  player?.pause()
+  updatePlaybackControls()
+  updatePlayback()
+}
+
+seekSlider.oninput = async () => {
+  if (!player) return
+  await player.seek(Number(seekSlider.value))
+  updatePlayback()
+}
+
+updatePlaybackControls()
+
+// Zoom controls
+zoomSlider.oninput = () => {
+  let value = Number(zoomSlider.value)
+  if (Number.isFinite(value)) {
+    setZoomSeconds(value)
+  }
+}
+
+zoomInput.onchange = () => {
+  let value = Number(zoomInput.value)
+  let maxSeconds = Math.min(audioDuration || 60, 60)
+  if (Number.isFinite(value) && value >= 0.01 && value <= maxSeconds) {
+    setZoomSeconds(value)
+  } else {
+    // Reset to current zoom if invalid
+    updateZoomDisplay()
+  }
+}
+
+// Update slider max when audio is loaded
+let updateZoomSliderRange = () => {
+  if (audioDuration > 0) {
+    let maxSeconds = audioDuration
+    zoomSlider.max = String(maxSeconds)
+    zoomInput.max = String(maxSeconds)
+  }
+}
+
+zoomInBtn.onclick = () => {
+  // Zoom in: decrease time window by 10% (multiply by 0.9)
+  handleZoom(0.9)
+}
+zoomOutBtn.onclick = () => {
+  // Zoom out: increase time window by 10% (multiply by 1.1)
+  handleZoom(1.1)
+}
+panLeftBtn.onclick = () => handlePan(-100)
+panRightBtn.onclick = () => handlePan(100)
+
+let updateMaxHeight = () => {
+  let value = maxHeightInput.value.trim()
+  if (value) {
+    let height = Number(value)
+    if (Number.isFinite(height) && height >= 100) {
+      maxHeight = height
+      schedulePermalinkUpdate()
+      // Don't auto-render - user needs to click "Render Spectrogram" button
+      setStatus('Height updated - Click "Render Spectrogram" to apply')
+    }
+  }
+}
+
+input.onchange = () => {
+  sourceUrl = null
+  run()
+}
+
+let openUrl = (url: string) => {
+  sourceUrl = url
+  urlInput.value = url
+  input.value = ''
+  run()
+}
+
+loadUrlBtn.onclick = () => {
+  let url = urlInput.value.trim()
+  if (!url) {
+    setStatus('Enter the URL of an audio file')
+    return
+  }
+  openUrl(url)
+}
+
+urlInput.onkeydown = (event: KeyboardEvent) => {
+  if (event.key === 'Enter') loadUrlBtn.click()
+}
+
+// Drop an audio file, or a link to one, anywhere on the page
+document.ondragover = (event: DragEvent) => {
+  event.preventDefault()
+  if (event.dataTransfer) event.dataTransfer.dropEffect = 'copy'
+}
+
+document.ondrop = (event: DragEvent) => {
+  event.preventDefault()
+  let transfer = event.dataTransfer
+  if (!transfer) return
+  if (transfer.files.length > 0) {
+    input.files = transfer.files
+    sourceUrl = null
+    run()
+    return
+  }
+  // Lines starting with # are comments in text/uri-list
+  let url = transfer
+    .getData('text/uri-list')
+    .split(/\r?\n/)
+    .find(line => line.trim() && !line.startsWith('#'))
+  if (url) openUrl(url.trim())
+}
+
+copyLinkBtn.onclick = async () => {
+  let link = getPermalink()
+  history.replaceState(history.state, '', link)
+  try {
+    await navigator.clipboard.writeText(link)
+  } catch (error) {
+    setStatus(`Cannot copy the link: ${(error as Error).message}`)
+    return
+  }
+  setStatus(
+    sourceUrl
+      ? 'Link copied'
+      : 'Link copied - it leaves out the local file, open the same file to restore the view',
+  )
+}
+nativeRateCheckbox.onchange = run
+profileSelect.onchange = () => {
+  applyProfileDefaults()
+  applyCustomProfile()
+  if (!profileEditor.hidden) fillProfileEditor()
+  // Only reload audio and waveform, don't render spectrogram
+  run()
+}
+
+// User-defined profiles, saved in localStorage and listed after the presets
+let customProfiles: NamedAudioProfile[] = (() => {
+  try {
+    return loadAudioProfiles()
+  } catch (error) {
+    // localStorage is unavailable, e.g. blocked for file:// pages
+    console.warn('Cannot load saved profiles:', error)
+    return []
+  }
+})()
+let CUSTOM_PROFILE_PREFIX = 'custom:'
+
+let getSelectedCustomProfile = () => {
+  let value = profileSelect.value
+  if (!value.startsWith(CUSTOM_PROFILE_PREFIX)) return null
+  let name = value.slice(CUSTOM_PROFILE_PREFIX.length)
+  return customProfiles.find(profile => profile.name === name) ?? null
+}
+
+let getSelectedProfile = (): AudioProfile => {
+  return (
+    getSelectedCustomProfile() ??
+    getAudioProfile(profileSelect.value as AudioProfileMode)
+  )
+}
+
+let getSelectedProfileName = () => {
+  return getSelectedCustomProfile()?.name ?? profileSelect.value
+}
+
+let updateProfileOptions = () => {
+  let value = profileSelect.value
+  customProfileGroup.textContent = ''
+  for (let profile of customProfiles) {
+    let option = document.createElement('option')
+    option.value = CUSTOM_PROFILE_PREFIX + profile.name
+    option.textContent = profile.name
+    customProfileGroup.appendChild(option)
+  }
+  customProfileGroup.hidden = customProfiles.length === 0
+  profileSelect.value = value
+  // The selected profile was deleted
+  if (!profileSelect.value) {
+    profileSelect.value = 'low-precision'
+  }
+}
+
+// A custom profile brings its window function and default max frequency
+let applyCustomProfile = () => {
+  let profile = getSelectedCustomProfile()
+  if (!profile) return
+  windowFunctionSelect.value = profile.windowFunction
+  zeroPaddingSelect.value = '1'
+  maxFrequencyInput.value = String(
+    Math.round((profile.maxFrequency * profile.sampleRate) / profile.fftSize),
+  )
+}
+
+let persistCustomProfiles = () => {
+  try {
+    saveAudioProfiles(customProfiles)
+  } catch (error) {
+    setStatus(`Cannot save profiles: ${(error as Error).message}`)
+    return false
+  }
+  return true
+}
+
+for (let windowFunction of WINDOW_FUNCTIONS) {
+  let option = document.createElement('option')
+  option.value = windowFunction
+  option.textContent =
+    windowFunctionSelect.querySelector(`option[value="${windowFunction}"]`)
+      ?.textContent ?? windowFunction
+  profileWindowFunctionSelect.appendChild(option)
+}
+
+// Show the selected profile in the editor, with the max frequency currently used for presets
+let fillProfileEditor = () => {
+  let profile = getSelectedProfile()
+  let custom = getSelectedCustomProfile()
+  profileNameInput.value = custom?.name ?? ''
+  profileSampleRateInput.value = String(profile.sampleRate)
+  profileWindowSizeInput.value = String(profile.windowSize)
+  profileHopSizeInput.value = String(profile.hopSize)
+  profileOverlapInput.value = String(
+    +getOverlapPercent(profile.windowSize, profile.hopSize).toFixed(2),
+  )
+  profileFftSizeInput.value = String(profile.fftSize)
+  profileWindowFunctionSelect.value = custom
+    ? profile.windowFunction
+    : getSelectedWindowFunction()
+  profileMaxFrequencyInput.value = custom
+    ? String(
+        Math.round(
+          (profile.maxFrequency * profile.sampleRate) / profile.fftSize,
+        ),
+      )
+    : maxFrequencyInput.value || String(DEFAULT_MAX_FREQUENCY_HZ)
+  deleteProfileBtn.disabled = !custom
+  updateProfileEditorInfo()
+}
+
+// Profile of the editor inputs, the max frequency is converted from Hz to bins
+let readProfileEditor = (): NamedAudioProfile => {
+  let sampleRate = Number(profileSampleRateInput.value)
+  let fftSize = Number(profileFftSizeInput.value)
+  let maxFrequencyHz = Number(profileMaxFrequencyInput.value)
+  return {
+    name: profileNameInput.value.trim(),
+    sampleRate,
+    windowSize: Number(profileWindowSizeInput.value),
+    hopSize: Number(profileHopSizeInput.value),
+    fftSize,
+    windowFunction: profileWindowFunctionSelect.value as WindowFunction,
+    maxFrequency: Math.floor(maxFrequencyHz / (sampleRate / fftSize)),
+  }
+}
+
+// Validate the editor as it is typed in, and show the resolution of valid values
+let updateProfileEditorInfo = () => {
+  let profile = readProfileEditor()
+  let errors = validateAudioProfile(profile)
+  if (!profile.name) {
+    errors.push('Enter a name to save the profile')
+  }
+  profileErrorsNode.textContent = ''
+  for (let error of errors) {
+    let item = document.createElement('li')
+    item.textContent = error
+    profileErrorsNode.appendChild(item)
+  }
+  saveProfileBtn.disabled = errors.length > 0
+  if (validateAudioProfile(profile).length > 0) {
+    profileResolutionNode.textContent = ''
+    return
+  }
+  let resolution = getAudioProfileResolution(profile)
+  profileResolutionNode.textContent = [
+    `Time: ${resolution.windowMs.toFixed(
+      2,
+    )} ms window, ${resolution.hopMs.toFixed(
+      2,
+    )} ms hop (${resolution.overlapPercent.toFixed(1)}% overlap)`,
+    `Frequency: ${resolution.binWidthHz.toFixed(
+      2,
+    )} Hz per bin, up to ${Math.round(resolution.maxFrequencyHz)} Hz (Nyquist ${
+      resolution.nyquistHz
+    } Hz)`,
+  ].join('\n')
+}
+
+editProfileBtn.onclick = () => {
+  profileEditor.hidden = !profileEditor.hidden
+  if (!profileEditor.hidden) fillProfileEditor()
+}
+for (let node of [
+  profileNameInput,
+  profileSampleRateInput,
+  profileFftSizeInput,
+  profileWindowFunctionSelect,
+  profileMaxFrequencyInput,
+]) {
+  node.oninput = updateProfileEditorInfo
+}
+// Hop size and overlap are two views of the same setting
+profileHopSizeInput.oninput = () => {
+  let windowSize = Number(profileWindowSizeInput.value)
+  let hopSize = Number(profileHopSizeInput.value)
+  if (windowSize > 0 && hopSize > 0) {
+    profileOverlapInput.value = String(
+      +getOverlapPercent(windowSize, hopSize).toFixed(2),
+    )
+  }
+  updateProfileEditorInfo()
+}
+profileOverlapInput.oninput = () => {
+  let windowSize = Number(profileWindowSizeInput.value)
+  let overlap = Number(profileOverlapInput.value)
+  if (windowSize > 0 && overlap >= 0 && overlap < 100) {
+    profileHopSizeInput.value = String(
+      getHopSizeForOverlap(windowSize, overlap),
+    )
+  }
+  updateProfileEditorInfo()
+}
+// Keep the overlap when the window changes
+profileWindowSizeInput.oninput = profileOverlapInput.oninput
+
+saveProfileBtn.onclick = () => {
+  let profile = readProfileEditor()
+  if (!profile.name || validateAudioProfile(profile).length > 0) {
+    updateProfileEditorInfo()
+    return
+  }
+  customProfiles = mergeAudioProfiles(customProfiles, [profile])
+  if (!persistCustomProfiles()) return
+  updateProfileOptions()
+  profileSelect.value = CUSTOM_PROFILE_PREFIX + profile.name
+  profileSelect.onchange!(new Event('change'))
+  setStatus(`Saved profile "${profile.name}"`)
+}
+
+deleteProfileBtn.onclick = () => {
+  let profile = getSelectedCustomProfile()
+  if (!profile || !confirm(`Delete profile "${profile.name}"?`)) return
+  customProfiles = customProfiles.filter(item => item !== profile)
+  if (!persistCustomProfiles()) return
+  updateProfileOptions()
+  profileSelect.onchange!(new Event('change'))
+  setStatus(`Deleted profile "${profile.name}"`)
+}
+
+exportProfilesBtn.onclick = () => {
+  // Share the saved profiles, or the one being edited when none are saved yet
+  let profiles =
+    customProfiles.length > 0 ? customProfiles : [readProfileEditor()]
+  let errors = profiles.flatMap(validateAudioProfile)
+  if (errors.length > 0 || profiles.some(profile => !profile.name)) {
+    setStatus('Save a valid profile before exporting')
+    return
+  }
+  let blob = new Blob([stringifyAudioProfiles(profiles)], {
+    type: 'application/json',
+  })
+  downloadBlob(blob, 'spectrogram-profiles.json')
+}
+
+importProfilesInput.onchange = async () => {
+  let file = importProfilesInput.files?.[0]
+  if (!file) return
+  importProfilesInput.value = ''
+  try {
+    let profiles = parseAudioProfilesJson(await file.text())
+    customProfiles = mergeAudioProfiles(customProfiles, profiles)
+    if (!persistCustomProfiles()) return
+    updateProfileOptions()
+    setStatus(
+      `Imported ${profiles.length} profile(s): ${profiles
+        .map(profile => profile.name)
+        .join(', ')}`,
+    )
+  } catch (error) {
+    setStatus(`Cannot import profiles: ${(error as Error).message}`)
+  }
+}
+
+updateProfileOptions()
+colormapSelect.onchange = recolorSpectrogram
+magnitudeScaleSelect.onchange = recolorSpectrogram
+dbReferenceSelect.onchange = recolorSpectrogram
+maxDbSlider.oninput = recolorSpectrogram
+dynamicRangeSlider.oninput = recolorSpectrogram
+gainSlider.oninput = recolorSpectrogram
+autoLevelCheckbox.onchange = recolorSpectrogram
+frequencyScaleSelect.onchange = () => {
+  setStatus('Frequency scale updated - Click "Render Spectrogram" to apply')
+}
+let updateMaxFrequency = () => {
+  // Just update the cached params, don't re-render spectrogram
+  // User needs to click "Render Spectrogram" button
+  if (cachedParams && cachedAudioData) {
+    let maxFrequencyHz = (() => {
+      let raw = maxFrequencyInput.value.trim()
+      if (!raw) {
+        return DEFAULT_MAX_FREQUENCY_HZ
+      }
+      let parsed = Number(raw)
+      if (!Number.isFinite(parsed) || parsed <= 0) {
+        return DEFAULT_MAX_FREQUENCY_HZ
+      }
+      return parsed
+    })()
+    let binWidth = cachedParams.sampleRate / cachedParams.fftSize
+    let maxFrequency = Math.floor(maxFrequencyHz / binWidth)
+    let maxAllowedBins = Math.floor(cachedParams.fftSize / 2)
+    if (maxFrequency > maxAllowedBins) {
+      maxFrequency = maxAllowedBins
+    }
+    if (maxFrequency < 1) {
+      maxFrequency = 1
+    }
+    cachedParams.maxFrequency = maxFrequency
+    // The peak was measured with the previous settings
+    filePeakMagnitude = undefined
+    setStatus('Settings updated - Click "Render Spectrogram" to apply')
+  }
+  schedulePermalinkUpdate()
+}
+maxFrequencyInput.onchange = updateMaxFrequency
+let updateWindowSettings = () => {
+  if (cachedParams) {
+    let profile = getSelectedProfile()
+    cachedParams.windowFunction = getSelectedWindowFunction()
+    cachedParams.fftSize = profile.fftSize * getSelectedZeroPadding()
+    // Bin width changes with the FFT size, so convert max frequency again
+    updateMaxFrequency()
+  }
+}
+windowFunctionSelect.onchange = updateWindowSettings
+zeroPaddingSelect.onchange = updateWindowSettings
+maxHeightInput.onchange = updateMaxHeight
+maxHeightInput.oninput = updateMaxHeight
+
+// Initialize max height
+updateMaxHeight()
+
+// Cursor tracking for timestamp and frequency display
+let getCanvasPosition = (event: MouseEvent) => {
+  let rect = canvas.getBoundingClientRect()
+  // Convert CSS coordinates to canvas coordinates (accounting for CSS scaling)
+  let scaleX = canvas.width / rect.width
+  let scaleY = canvas.height / rect.height
+  let x = (event.clientX - rect.left) * scaleX
+  let y = (event.clientY - rect.top) * scaleY
+
+  // Clamp to canvas bounds
+  x = Math.max(0, Math.min(x, canvas.width))
+  y = Math.max(0, Math.min(y, canvas.height))
+  return { x, y }
+}
+
+// Timestamp in the source audio of the rendered frame at canvas position x
+let canvasXToTime = (x: number) => {
+  // Calculate frame index from x position
+  // The canvas shows frames from renderedFrameStart to renderedFrameEnd
+  // Map x position to a frame within that range
+  let canvasWidth = canvas.width
+  let renderedFrameCount = renderedFrameEnd - renderedFrameStart
+  let frameRatio = x / canvasWidth
+  let frameIndexInRenderedRange = Math.floor(frameRatio * renderedFrameCount)
+
+  // Convert to absolute frame index in the full audio
+  let absoluteFrame = renderedFrameStart + frameIndexInRenderedRange
+  absoluteFrame = Math.max(
+    renderedFrameStart,
+    Math.min(absoluteFrame, renderedFrameEnd - 1),
+  )
+
+  // Calculate absolute timestamp in the source audio
+  let sampleIndex = absoluteFrame * cachedParams!.hopSize
+  return sampleIndex / cachedParams!.sampleRate
+}
+
+// Canvas position x of a timestamp, the inverse of canvasXToTime
+let timeToCanvasX = (time: number) => {
+  let frame = (time * cachedParams!.sampleRate) / cachedParams!.hopSize
+  let renderedFrameCount = renderedFrameEnd - renderedFrameStart
+  return ((frame - renderedFrameStart) / renderedFrameCount) * canvas.width
+}
+
+// Centre time of the frame starting at a time, such as a timestamp from canvasXToTime
+let toFrameCenterTime = (time: number) => {
+  return time + cachedParams!.windowSize / 2 / cachedParams!.sampleRate
+}
+
+// Canvas position x of the centre of a frame's columns, from the frame's centre time as in the analysis results
+let frameCenterToCanvasX = (time: number) => {
+  let { sampleRate, windowSize, hopSize } = cachedParams!
+  let frame = (time * sampleRate - windowSize / 2) / hopSize
+  let renderedFrameCount = renderedFrameEnd - renderedFrameStart
+  return (
+    ((frame + 0.5 - renderedFrameStart) / renderedFrameCount) * canvas.width
+  )
+}
+
+// Frequency at canvas position y, on the rendered frequency scale
+let canvasYToFrequency = (y: number) => {
+  return positionToFrequency(1 - y / canvas.height, renderedFrequencyAxis)
+}
+
+let frequencyToCanvasY = (hz: number) => {
+  return (1 - frequencyToPosition(hz, renderedFrequencyAxis)) * canvas.height
+}
+
+canvas.onmousemove = (event: MouseEvent) => {
+  if (!cachedParams || liveSession) {
+    cursorInfoNode.textContent = ''
+    return
+  }
+
+  let { x, y } = getCanvasPosition(event)
+  if (selectionDrag) {
+    updateSelectionDrag(x, y)
+  } else {
+    canvas.style.cursor = getSelectionCursor(getSelectionEdges(x, y))
+  }
+  let timestamp = canvasXToTime(x)
+
+  // Calculate frequency from y position
+  // Use the same row to bin mapping as drawSpectrogram, so the readout matches the pixel
+  // Canvas y=0 is at top (highest frequency), y=height is at bottom (lowest frequency)
+  // The FFT produces fftSize/2 bins, each representing sampleRate/fftSize Hz
+  let axis = renderedFrequencyAxis
+  let binWidth = axis.binWidth
+  let row = Math.min(Math.floor(y), canvas.height - 1)
+  let [freqStart, freqEnd] = getRowBinRange(row, canvas.height, axis)
+
+  // Calculate the frequency range covered by this row
+  let frequencyStart = freqStart * binWidth
+  let frequencyEnd = freqEnd * binWidth
+
+  // Format display - show both mm:ss.sss and seconds format
+  let timeStr = formatTimeBoth(timestamp)
+  let freqStr = `${frequencyStart.toFixed(1)} - ${frequencyEnd.toFixed(1)} Hz`
+
+  // The analysis tracks are looked up at the centre of the hovered frame
+  let frameTime = toFrameCenterTime(timestamp)
+  let pitchStr = getPitchInfo(frameTime)
+  let formantStr = getFormantInfo(frameTime)
+  let featureStr = getFeatureInfo(frameTime)
+  let matrixStr = getMatrixInfo(x, y)
+
+  cursorInfoNode.textContent =
+    matrixImage?.mode === 'mfcc'
+      ? `Time: ${timeStr}${matrixStr}${featureStr}`
+      : `Time: ${timeStr} | Frequency: ${freqStr}${matrixStr}${pitchStr}${formantStr}${featureStr}`
+
+  // Update hover timestamp and draw indicator on overlay canvas
+  hoverTimestamp = timestamp
+  updateWaveformHoverIndicator()
+}
+
+canvas.onmouseleave = () => {
+  cursorInfoNode.textContent = ''
+  hoverTimestamp = null
+  updateWaveformHoverIndicator()
+  selectionDrag = null
+}
+
+// Selection: drag to select a time range and frequency band (Shift for all frequencies),
+// drag the edges to adjust it, click without dragging to seek
+type SelectionEdges = {
+  left: boolean
+  right: boolean
+  top: boolean
+  bottom: boolean
+}
+let selectionDrag:
+  | { type: 'create'; x: number; y: number; fullHeight: boolean }
+  | { type: 'resize'; edges: SelectionEdges }
+  | null = null
+// Distance in canvas pixels to grab an edge of the selection
+let SELECTION_HANDLE_PX = 6
+// Drags shorter than this are clicks
+let SELECTION_MIN_DRAG_PX = 3
+
+// Edges of the selection near canvas position (x, y)
+let getSelectionEdges = (x: number, y: number): SelectionEdges | null => {
+  if (!selection || !cachedParams) return null
+  if (renderedFrameEnd <= renderedFrameStart) return null
+  let left = timeToCanvasX(selection.startTime)
+  let right = timeToCanvasX(selection.endTime)
+  let top = selection.fullHeight ? 0 : frequencyToCanvasY(selection.highHz)
+  let bottom = selection.fullHeight
+    ? canvas.height
+    : frequencyToCanvasY(selection.lowHz)
+  let withinX =
+    x >= left - SELECTION_HANDLE_PX && x <= right + SELECTION_HANDLE_PX
+  let withinY =
+    y >= top - SELECTION_HANDLE_PX && y <= bottom + SELECTION_HANDLE_PX
+  let edges: SelectionEdges = {
+    left: withinY && Math.abs(x - left) <= SELECTION_HANDLE_PX,
+    right: withinY && Math.abs(x - right) <= SELECTION_HANDLE_PX,
+    top:
+      !selection.fullHeight &&
+      withinX &&
+      Math.abs(y - top) <= SELECTION_HANDLE_PX,
+    bottom:
+      !selection.fullHeight &&
+      withinX &&
+      Math.abs(y - bottom) <= SELECTION_HANDLE_PX,
+  }
+  // A narrow selection is grabbed by one edge only
+  if (edges.left && edges.right) {
+    edges.left = x < (left + right) / 2
+    edges.right = !edges.left
+  }
+  if (edges.top && edges.bottom) {
+    edges.top = y < (top + bottom) / 2
+    edges.bottom = !edges.top
+  }
+  if (!edges.left && !edges.right && !edges.top && !edges.bottom) return null
+  return edges
+}
+
+let getSelectionCursor = (edges: SelectionEdges | null) => {
+  if (!edges) return 'crosshair'
+  let horizontal = edges.left || edges.right
+  let vertical = edges.top || edges.bottom
+  if (horizontal && vertical) {
+    return (edges.left && edges.top) || (edges.right && edges.bottom)
+      ? 'nwse-resize'
+      : 'nesw-resize'
+  }
+  return horizontal ? 'ew-resize' : 'ns-resize'
+}
+
+let updateSelectionDrag = (x: number, y: number) => {
+  if (!selectionDrag) return
+  if (selectionDrag.type === 'create') {
+    let { x: anchorX, y: anchorY, fullHeight } = selectionDrag
+    if (
+      !selection &&
+      Math.abs(x - anchorX) < SELECTION_MIN_DRAG_PX &&
+      Math.abs(y - anchorY) < SELECTION_MIN_DRAG_PX
+    ) {
+      return
+    }
+    let axis = renderedFrequencyAxis
+    selection = {
+      startTime: canvasXToTime(anchorX),
+      endTime: canvasXToTime(x),
+      lowHz: fullHeight ? 0 : canvasYToFrequency(Math.max(anchorY, y)),
+      highHz: fullHeight
+        ? axis.binCount * axis.binWidth
+        : canvasYToFrequency(Math.min(anchorY, y)),
+      fullHeight,
+    }
+  } else if (selection) {
+    let { edges } = selectionDrag
+    if (edges.left) selection.startTime = canvasXToTime(x)
+    if (edges.right) selection.endTime = canvasXToTime(x)
+    if (edges.top) selection.highHz = canvasYToFrequency(y)
+    if (edges.bottom) selection.lowHz = canvasYToFrequency(y)
+  }
+  if (selection) {
+    // Keep the edges ordered when dragged past each other
+    if (selection.endTime < selection.startTime) {
+      ;[selection.startTime, selection.endTime] = [
+        selection.endTime,
+        selection.startTime,
+      ]
+    }
+    if (selection.highHz < selection.lowHz) {
+      ;[selection.lowHz, selection.highHz] = [selection.highHz, selection.lowHz]
+    }
+  }
+  updateSelectionInfo()
+  drawSpectrogramOverlay(player ? player.getCurrentTime() : null)
+}
+
+canvas.onmousedown = (event: MouseEvent) => {
+  if (!cachedParams || liveSession) return
+  if (renderedFrameEnd <= renderedFrameStart) return
+  let { x, y } = getCanvasPosition(event)
+  let edges = getSelectionEdges(x, y)
+  if (edges) {
+    selectionDrag = { type: 'resize', edges }
+    return
+  }
+  // A new selection replaces the current one once the mouse moves
+  selectionDrag = { type: 'create', x, y, fullHeight: event.shiftKey }
+  selection = null
+}
+
+canvas.onmouseup = async (event: MouseEvent) => {
+  let drag = selectionDrag
+  selectionDrag = null
+  if (!drag || drag.type !== 'create' || selection) return
+  // Not dragged: clear the selection and seek to the time under the cursor
+  updateSelectionInfo()
+  drawSpectrogramOverlay(player ? player.getCurrentTime() : null)
+  if (!player) return
+  let { x } = getCanvasPosition(event)
+  await player.seek(canvasXToTime(x))
+  updatePlayback()
+}
+
+let drawSelection = (context: CanvasRenderingContext2D) => {
+  if (!selection) return
+  let left = timeToCanvasX(selection.startTime)
+  let right = timeToCanvasX(selection.endTime)
+  let top = selection.fullHeight ? 0 : frequencyToCanvasY(selection.highHz)
+  let bottom = selection.fullHeight
+    ? canvas.height
+    : frequencyToCanvasY(selection.lowHz)
+  context.fillStyle = 'rgba(0, 255, 255, 0.15)'
+  context.fillRect(left, top, right - left, bottom - top)
+  context.strokeStyle = '#0ff'
+  context.lineWidth = 1
+  context.strokeRect(left, top, right - left, bottom - top)
+
+  // Handles at the middle of the draggable edges
+  let size = SELECTION_HANDLE_PX
+  let centerX = (left + right) / 2
+  let centerY = (top + bottom) / 2
+  let handles = [
+    [left, centerY],
+    [right, centerY],
+  ]
+  if (!selection.fullHeight) {
+    handles.push([centerX, top], [centerX, bottom])
+  }
+  context.fillStyle = '#0ff'
+  for (let [x, y] of handles) {
+    context.fillRect(x - size / 2, y - size / 2, size, size)
+  }
+}
+
+let updateSelectionInfo = () => {
+  selectionControls.style.display = selection ? '' : 'none'
+  schedulePermalinkUpdate()
+  if (!selection) {
+    selectionInfoNode.textContent = ''
+    return
+  }
+  let { startTime, endTime, lowHz, highHz, fullHeight } = selection
+  let band = fullHeight
+    ? 'all frequencies'
+    : `${lowHz.toFixed(1)} - ${highHz.toFixed(1)} Hz`
+  selectionInfoNode.textContent = `Selection: ${formatTime(
+    startTime,
+  )} - ${formatTime(endTime)} (${(endTime - startTime).toFixed(3)}s) | ${band}`
+  loopBandBtn.disabled = fullHeight
+}
+
+// F1/F2 scatter of the selected time range, voiced frames only when the pitch overlay covers them
+let showVowelSpace = async () => {
+  if (!selection || !cachedAudioData || !cachedParams) return
+  let { startTime, endTime } = selection
+  let { sampleRate, windowSize, hopSize } = cachedParams
+  let audioData = cachedAudioData
+  let settings = {
+    sampleRate,
+    windowSize,
+    hopSize,
+    maxFormantHz: Number(maxFormantInput.value),
+  }
+  // Frames centred in the selection
+  let frameStart = Math.max(
+    0,
+    getFrameAtTime(startTime, sampleRate, windowSize, hopSize),
+  )
+  let frameEnd = Math.min(
+    frameCount,
+    getFrameAtTime(endTime, sampleRate, windowSize, hopSize) + 1,
+  )
+  vowelSpacePanel.hidden = false
+  vowelSpaceInfoNode.textContent = 'Tracking formants...'
+  let track: FormantTrack
+  try {
+    // The formant overlay may already cover the selection
+    track = isOverlayCurrent(
+      formantOverlay,
+      audioData,
+      settings,
+      frameStart,
+      frameEnd,
+    )
+      ? formantOverlay!.track
+      : await getFormantTrack({ ...settings, audioData, frameStart, frameEnd })
+  } catch (error) {
+    vowelSpaceInfoNode.textContent = `Formant tracking failed: ${
+      (error as Error).message
+    }`
+    return
+  }
+  let points = getVowelSpacePoints(track, startTime, endTime)
+  let pitchTrack = pitchCheckbox.checked ? pitchOverlay?.track : undefined
+  let voicedOnly =
+    !!pitchTrack &&
+    pitchTrack.frameStart <= track.frameStart &&
+    pitchTrack.frameEnd >= track.frameEnd
+  if (voicedOnly) {
+    points = points.filter(
+      point =>
+        getPitchAtTime(pitchTrack!, point.time, sampleRate, windowSize, hopSize)
+          ?.voiced,
+    )
+  }
+  drawVowelSpace(vowelSpaceCanvas, points)
+  vowelSpaceInfoNode.textContent = `${points.length} ${
+    voicedOnly ? 'voiced frames' : 'frames'
+  } from ${formatTime(startTime)} to ${formatTime(endTime)}`
+}
+
+vowelSpaceBtn.onclick = showVowelSpace
+closeVowelSpaceBtn.onclick = () => {
+  vowelSpacePanel.hidden = true
+}
+
+zoomToSelectionBtn.onclick = () => {
+  if (!selection || selection.endTime <= selection.startTime) return
+  let { startTime, endTime } = selection
+  setZoomSeconds(endTime - startTime)
+  setViewStartTime(startTime)
+  renderSpectrogramBtn.click()
+}
+
+let loopSelection = async (bandPass: boolean) => {
+  if (!player || !selection) return
+  let { startTime, endTime, lowHz, highHz } = selection
+  await player.play(startTime, {
+    start: startTime,
+    end: endTime,
+    loop: true,
+    lowHz: bandPass ? lowHz : undefined,
+    highHz: bandPass ? highHz : undefined,
+  })
+  updatePlaybackControls()
+  startPlaybackAnimation()
+}
+
+loopSelectionBtn.onclick = () => loopSelection(false)
+loopBandBtn.onclick = () => loopSelection(true)
+
+clearSelectionBtn.onclick = () => {
+  selection = null
+  updateSelectionInfo()
+  drawSpectrogramOverlay(player ? player.getCurrentTime() : null)
+}
+
+updateSelectionInfo()
+
+// Time and frequency range to export, undefined parts default to the whole file
+let getExportRange = (): {
+  startTime?: number
+  endTime?: number
+  lowHz?: number
+  highHz?: number
+} => {
+  let { sampleRate, hopSize } = cachedParams!
+  if (exportRangeSelect.value === 'selection' && selection) {
+    let { startTime, endTime, lowHz, highHz, fullHeight } = selection
+    return fullHeight
+      ? { startTime, endTime }
+      : { startTime, endTime, lowHz, highHz }
+  }
+  if (
+    exportRangeSelect.value !== 'full' &&
+    renderedFrameEnd > renderedFrameStart
+  ) {
+    return {
+      startTime: (renderedFrameStart * hopSize) / sampleRate,
+      endTime: (renderedFrameEnd * hopSize) / sampleRate,
+    }
+  }
+  return {}
+}
+
+// Title with the file name and the analysis settings shown in the stats
+let getExportTitle = () => {
+  let { sampleRate, windowSize, hopSize, windowFunction } = cachedParams!
+  return `${cachedAudioName} (${getSelectedProfileName()}, ${sampleRate} Hz, ${windowFunction} window ${windowSize}, hop ${hopSize})`
+}
+
+// File name of the audio without its extension
+let getExportBaseName = () => {
+  return cachedAudioName.replace(/\.[^.]*$/, '') || 'audio'
+}
+
+let downloadBlob = (blob: Blob, filename: string) => {
+  let url = URL.createObjectURL(blob)
+  let link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  // Revoke after the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+exportImageBtn.onclick = async () => {
+  if (!cachedAudioData || !cachedParams) {
+    setStatus('Please load an audio file first')
+    return
+  }
+  let format: SpectrogramExportFormat =
+    exportFormatSelect.value === 'svg' ? 'svg' : 'png'
+  let width = Number(exportWidthInput.value)
+  let height = Number(exportHeightInput.value)
+  if (!(width > 0) || !(height > 0)) {
+    setStatus('Please enter the export width and height in pixels')
+    return
+  }
+  exportImageBtn.disabled = true
+  try {
+    let blob = await exportSpectrogramImage({
+      ...getExportRange(),
+      audioData: cachedAudioData,
+      sampleRate: cachedParams.sampleRate,
+      windowSize: cachedParams.windowSize,
+      hopSize: cachedParams.hopSize,
+      fftSize: cachedParams.fftSize,
+      windowFunction: cachedParams.windowFunction,
+      maxFrequency: cachedParams.maxFrequency,
+      width,
+      height,
+      format,
+      title: getExportTitle(),
+      colorbar: exportColorbarCheckbox.checked,
+      colormap: getSelectedColormap(),
+      magnitudeScale: getSelectedMagnitudeScale(),
+      frequencyScale: getSelectedFrequencyScale(),
+      cache: magnitudeCache,
+      onProgress: progress => {
+        setStatus(`Exporting image ${progress.percent}%`)
+      },
+    })
+    downloadBlob(blob, `${getExportBaseName()}-spectrogram.${format}`)
+    setStatus('Image exported')
+  } catch (error) {
+    console.error(error)
+    setStatus(`Failed to export image: ${error}`)
+  } finally {
+    exportImageBtn.disabled = false
+  }
+}
+
+// Export the FFT values of the same range as the image, in the units shown
+exportDataBtn.onclick = async () => {
+  if (!cachedAudioData || !cachedParams) {
+    setStatus('Please load an audio file first')
+    return
+  }
+  let value = exportDataFormatSelect.value
+  let format: SpectrogramDataFormat =
+    value === 'json' || value === 'npy' ? value : 'csv'
+  exportDataBtn.disabled = true
+  try {
+    let blob = await exportSpectrogramData({
+      ...getExportRange(),
+      audioData: cachedAudioData,
+      sampleRate: cachedParams.sampleRate,
+      windowSize: cachedParams.windowSize,
+      hopSize: cachedParams.hopSize,
+      fftSize: cachedParams.fftSize,
+      windowFunction: cachedParams.windowFunction,
+      maxFrequency: cachedParams.maxFrequency,
+      magnitudeScale: getSelectedMagnitudeScale(),
+      format,
+      onProgress: progress => {
+        setStatus(`Exporting data ${progress.percent}%`)
+      },
+    })
+    downloadBlob(blob, `${getExportBaseName()}-spectrogram.${format}`)
+    setStatus('Data exported')
+  } catch (error) {
+    console.error(error)
+    setStatus(`Failed to export data: ${error}`)
+  } finally {
+    exportDataBtn.disabled = false
+  }
+}
+
+// Update hover indicator on overlay canvas (separate from waveform redraw)
+let updateWaveformHoverIndicator = () => {
+  drawFeatureLanes()
   if (!cachedWaveformData || !cachedParams || frameCount === 0) return
 
   let overlayContext = waveformOverlayCanvas.getContext('2d')!
@@ -870,6 +3779,17 @@ let updateWaveformHoverIndicator = () => {
   // Clear overlay canvas (use logical dimensions since context is scaled)
   overlayContext.clearRect(0, 0, canvasWidth, canvasHeight)
 
+  // Draw the playhead, the waveform always shows the whole audio
+  if (player && audioDuration > 0) {
+    let playheadX = (player.getCurrentTime() / audioDuration) * canvasWidth
+    overlayContext.strokeStyle = '#f00'
+    overlayContext.lineWidth = 1
+    overlayContext.beginPath()
+    overlayContext.moveTo(playheadX, 0)
+    overlayContext.lineTo(playheadX, canvasHeight)
+    overlayContext.stroke()
+  }
+
   if (hoverTimestamp === null || audioDuration <= 0) {
     // Already cleared, just return
     return
@@ -991,6 +3911,15 @@ waveformCanvas.onmouseleave = () => {
   cursorInfoNode.textContent = ''
 }
 
+// Opening a link (or editing its fragment) restores its view
+if (location.hash.length > 1) {
+  restoreViewState(decodeViewState(location.hash))
+}
+window.onhashchange = () => {
+  restoreViewState(decodeViewState(location.hash))
+  run()
+}
+
 run()
 
 function querySelector<E extends HTMLElement>(selector: string) {
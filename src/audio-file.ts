@@ -0,0 +1,482 @@
+import { ChannelSource } from './channels'
+
+export type AudioFileContainer = 'wav' | 'rf64' | 'aiff' | 'aifc'
+
+// A cue point (WAV) or marker (AIFF), position in sample frames from the start
+export type AudioCuePoint = {
+  id: number
+  position: number
+  label?: string
+  note?: string
+}
+
+export type AudioFileMetadata = {
+  container: AudioFileContainer
+  // Integer PCM or IEEE floating point samples
+  encoding: 'pcm' | 'float'
+  // Bits per stored sample, and the bits that carry the signal (WAVE_FORMAT_EXTENSIBLE)
+  bitsPerSample: number
+  validBitsPerSample: number
+  // Speaker positions of WAVE_FORMAT_EXTENSIBLE files
+  channelMask?: number
+  cuePoints: AudioCuePoint[]
+  // Text tags by chunk id, e.g. INAM (title) and IART (artist) of a LIST INFO chunk,
+  // or NAME, AUTH, (c) and ANNO of an AIFF file
+  info: Record<string, string>
+  // Top-level chunks in file order
+  chunks: { id: string; size: number }[]
+}
+
+// Decoded audio at its native sample rate and bit depth, usable wherever a ChannelSource is taken
+export type ParsedAudio = ChannelSource & {
+  sampleRate: number
+  // Samples of each channel, scaled to [-1, 1] for integer formats
+  channels: Float32Array[]
+  duration: number
+  metadata: AudioFileMetadata
+}
+
+// Layout of the sample data, found by the container parsers
+type SampleLayout = {
+  sampleRate: number
+  channelCount: number
+  encoding: 'pcm' | 'float'
+  bitsPerSample: number
+  littleEndian: boolean
+  // 8-bit WAV samples are unsigned, 8-bit AIFF samples are signed
+  unsigned8Bit: boolean
+  dataOffset: number
+  dataSize: number
+}
+
+const WAVE_FORMAT_PCM = 1
+const WAVE_FORMAT_IEEE_FLOAT = 3
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe
+// RF64 stores sizes above 4 GB in the ds64 chunk and marks the 32-bit fields with this
+const RF64_SIZE_IN_DS64 = 0xffffffff
+
+let textDecoder = new TextDecoder()
+
+function readFourCC(view: DataView, offset: number) {
+  let text = ''
+  for (let i = 0; i < 4; i++) {
+    text += String.fromCharCode(view.getUint8(offset + i))
+  }
+  return text
+}
+
+// Text up to the first NUL, without trailing whitespace
+function readText(bytes: Uint8Array, start: number, end: number) {
+  let text = textDecoder.decode(bytes.subarray(start, end))
+  let nul = text.indexOf('\0')
+  return (nul >= 0 ? text.slice(0, nul) : text).trimEnd()
+}
+
+function readUint64(view: DataView, offset: number, littleEndian: boolean) {
+  let low = view.getUint32(offset + (littleEndian ? 0 : 4), littleEndian)
+  let high = view.getUint32(offset + (littleEndian ? 4 : 0), littleEndian)
+  return high * 2 ** 32 + low
+}
+
+// 80-bit IEEE 754 extended precision, the sample rate field of AIFF
+function readFloat80(view: DataView, offset: number) {
+  let signAndExponent = view.getUint16(offset)
+  let mantissa = readUint64(view, offset + 2, false)
+  if (mantissa === 0) return 0
+  let sign = signAndExponent & 0x8000 ? -1 : 1
+  let exponent = (signAndExponent & 0x7fff) - 16383 - 63
+  return sign * mantissa * Math.pow(2, exponent)
+}
+
+// Read one sample as a float, in [-1, 1] for integer formats
+function createSampleReader(view: DataView, layout: SampleLayout) {
+  let { encoding, bitsPerSample, littleEndian } = layout
+  if (encoding === 'float') {
+    if (bitsPerSample === 32) {
+      return (offset: number) => view.getFloat32(offset, littleEndian)
+    }
+    if (bitsPerSample === 64) {
+      return (offset: number) => view.getFloat64(offset, littleEndian)
+    }
+  } else if (bitsPerSample === 8) {
+    return layout.unsigned8Bit
+      ? (offset: number) => (view.getUint8(offset) - 128) / 128
+      : (offset: number) => view.getInt8(offset) / 128
+  } else if (bitsPerSample === 16) {
+    return (offset: number) => view.getInt16(offset, littleEndian) / 32768
+  } else if (bitsPerSample === 24) {
+    let [low, high] = littleEndian ? [0, 2] : [2, 0]
+    return (offset: number) => {
+      let value =
+        view.getUint8(offset + low) |
+        (view.getUint8(offset + 1) << 8) |
+        (view.getInt8(offset + high) << 16)
+      return value / 8388608
+    }
+  } else if (bitsPerSample === 32) {
+    return (offset: number) => view.getInt32(offset, littleEndian) / 2147483648
+  }
+  throw new Error(
+    `Unsupported sample format: ${bitsPerSample}-bit ${
+      encoding === 'float' ? 'float' : 'integer'
+    }`,
+  )
+}
+
+// De-interleave the sample frames into one array per channel
+function decodeChannels(view: DataView, layout: SampleLayout) {
+  let { channelCount, bitsPerSample, dataOffset, dataSize } = layout
+  let readSample = createSampleReader(view, layout)
+  let bytesPerSample = bitsPerSample / 8
+  let frameBytes = bytesPerSample * channelCount
+  let length = Math.floor(dataSize / frameBytes)
+  let channels: Float32Array[] = []
+  for (let c = 0; c < channelCount; c++) {
+    let channel = new Float32Array(length)
+    let offset = dataOffset + c * bytesPerSample
+    for (let i = 0; i < length; i++) {
+      channel[i] = readSample(offset + i * frameBytes)
+    }
+    channels.push(channel)
+  }
+  return channels
+}
+
+function validateLayout(layout: SampleLayout) {
+  let { channelCount, sampleRate, bitsPerSample } = layout
+  if (channelCount < 1 || !(sampleRate > 0)) {
+    throw new Error(
+      `Invalid audio file: ${channelCount} channels at ${sampleRate} Hz`,
+    )
+  }
+  if (bitsPerSample % 8 !== 0 || bitsPerSample === 0) {
+    throw new Error(
+      `Unsupported sample format: ${bitsPerSample} bits per sample`,
+    )
+  }
+}
+
+function createParsedAudio(
+  view: DataView,
+  layout: SampleLayout,
+  metadata: AudioFileMetadata,
+): ParsedAudio {
+  validateLayout(layout)
+  let channels = decodeChannels(view, layout)
+  let length = channels[0].length
+  return {
+    sampleRate: layout.sampleRate,
+    channels,
+    numberOfChannels: channels.length,
+    length,
+    duration: length / layout.sampleRate,
+    getChannelData: (channel: number) => channels[channel],
+    metadata,
+  }
+}
+
+// Sub-chunks of a LIST chunk: INFO tags, or adtl labels and notes of cue points
+function readListChunk(
+  bytes: Uint8Array,
+  view: DataView,
+  start: number,
+  end: number,
+  metadata: AudioFileMetadata,
+) {
+  let listType = readFourCC(view, start)
+  let offset = start + 4
+  while (offset + 8 <= end) {
+    let id = readFourCC(view, offset)
+    let size = view.getUint32(offset + 4, true)
+    let body = offset + 8
+    let bodyEnd = Math.min(body + size, end)
+    if (listType === 'INFO') {
+      metadata.info[id] = readText(bytes, body, bodyEnd)
+    } else if (listType === 'adtl' && (id === 'labl' || id === 'note')) {
+      if (size < 4 || body + 4 > bodyEnd) {
+        throw new Error(`Invalid WAV file: ${id} chunk is too short`)
+      }
+      let cueId = view.getUint32(body, true)
+      let cuePoint = metadata.cuePoints.find(cue => cue.id === cueId)
+      let text = readText(bytes, body + 4, bodyEnd)
+      if (cuePoint) {
+        cuePoint[id === 'labl' ? 'label' : 'note'] = text
+      }
+    }
+    offset = body + size + (size % 2)
+  }
+}
+
+// RIFF/WAVE, or RF64/BW64 with 64-bit sizes
+export function parseWav(buffer: ArrayBuffer | Uint8Array): ParsedAudio {
+  let bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer)
+  let view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let riffId = bytes.length >= 12 ? readFourCC(view, 0) : ''
+  if (
+    (riffId !== 'RIFF' && riffId !== 'RF64' && riffId !== 'BW64') ||
+    readFourCC(view, 8) !== 'WAVE'
+  ) {
+    throw new Error('Not a WAV file: missing RIFF/WAVE header')
+  }
+
+  let metadata: AudioFileMetadata = {
+    container: riffId === 'RIFF' ? 'wav' : 'rf64',
+    encoding: 'pcm',
+    bitsPerSample: 0,
+    validBitsPerSample: 0,
+    cuePoints: [],
+    info: {},
+    chunks: [],
+  }
+  let layout: SampleLayout | null = null
+  let dataOffset = -1
+  let dataSize = 0
+  let ds64DataSize: number | undefined
+  // LIST chunks may come before the cue chunk their labels refer to
+  let listChunks: [number, number][] = []
+  let offset = 12
+  while (offset + 8 <= bytes.length) {
+    let id = readFourCC(view, offset)
+    let size = view.getUint32(offset + 4, true)
+    let body = offset + 8
+    if (
+      id === 'data' &&
+      size === RF64_SIZE_IN_DS64 &&
+      ds64DataSize !== undefined
+    ) {
+      size = ds64DataSize
+    }
+    metadata.chunks.push({ id, size })
+    let bodyEnd = Math.min(body + size, bytes.length)
+    if (id === 'ds64') {
+      if (size < 16 || body + 16 > bodyEnd) {
+        throw new Error('Invalid WAV file: ds64 chunk is too short')
+      }
+      ds64DataSize = readUint64(view, body + 8, true)
+    } else if (id === 'fmt ') {
+      if (size < 16 || body + 16 > bodyEnd) {
+        throw new Error('Invalid WAV file: fmt chunk is too short')
+      }
+      let formatTag = view.getUint16(body, true)
+      let bitsPerSample = view.getUint16(body + 14, true)
+      let validBitsPerSample = bitsPerSample
+      if (formatTag === WAVE_FORMAT_EXTENSIBLE) {
+        if (size < 40 || body + 40 > bodyEnd) {
+          throw new Error(
+            'Invalid WAV file: WAVE_FORMAT_EXTENSIBLE fmt chunk is too short',
+          )
+        }
+        validBitsPerSample = view.getUint16(body + 18, true) || bitsPerSample
+        metadata.channelMask = view.getUint32(body + 20, true)
+        // The sub-format GUID starts with the format tag it stands for
+        formatTag = view.getUint16(body + 24, true)
+      }
+      if (
+        formatTag !== WAVE_FORMAT_PCM &&
+        formatTag !== WAVE_FORMAT_IEEE_FLOAT
+      ) {
+        throw new Error(
+          `Unsupported WAV encoding: format tag 0x${formatTag.toString(
+            16,
+          )} (only PCM and IEEE float)`,
+        )
+      }
+      let encoding =
+        formatTag === WAVE_FORMAT_PCM ? ('pcm' as const) : ('float' as const)
+      metadata.encoding = encoding
+      metadata.bitsPerSample = bitsPerSample
+      metadata.validBitsPerSample = validBitsPerSample
+      layout = {
+        sampleRate: view.getUint32(body + 4, true),
+        channelCount: view.getUint16(body + 2, true),
+        encoding,
+        bitsPerSample,
+        littleEndian: true,
+        unsigned8Bit: true,
+        dataOffset: 0,
+        dataSize: 0,
+      }
+    } else if (id === 'data') {
+      dataOffset = body
+      // Recorders that stopped early may leave a size beyond the end of the file
+      dataSize = bodyEnd - body
+    } else if (id === 'cue ') {
+      if (size < 4 || body + 4 > bodyEnd) {
+        throw new Error('Invalid WAV file: cue chunk is too short')
+      }
+      let count = view.getUint32(body, true)
+      for (let i = 0; i < count && body + 4 + (i + 1) * 24 <= bodyEnd; i++) {
+        let cue = body + 4 + i * 24
+        metadata.cuePoints.push({
+          id: view.getUint32(cue, true),
+          position: view.getUint32(cue + 20, true),
+        })
+      }
+    } else if (id === 'LIST') {
+      if (size < 4 || body + 4 > bodyEnd) {
+        throw new Error('Invalid WAV file: LIST chunk is too short')
+      }
+      listChunks.push([body, bodyEnd])
+    }
+    // Chunks are padded to an even size
+    offset = body + size + (size % 2)
+  }
+  if (!layout) {
+    throw new Error('Invalid WAV file: missing fmt chunk')
+  }
+  if (dataOffset < 0) {
+    throw new Error('Invalid WAV file: missing data chunk')
+  }
+  for (let [start, end] of listChunks) {
+    readListChunk(bytes, view, start, end, metadata)
+  }
+  return createParsedAudio(view, { ...layout, dataOffset, dataSize }, metadata)
+}
+
+// AIFF, or AIFF-C with uncompressed integer or float samples
+export function parseAiff(buffer: ArrayBuffer | Uint8Array): ParsedAudio {
+  let bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer)
+  let view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let formId = bytes.length >= 12 ? readFourCC(view, 0) : ''
+  let formType = bytes.length >= 12 ? readFourCC(view, 8) : ''
+  if (formId !== 'FORM' || (formType !== 'AIFF' && formType !== 'AIFC')) {
+    throw new Error('Not an AIFF file: missing FORM/AIFF header')
+  }
+
+  let metadata: AudioFileMetadata = {
+    container: formType === 'AIFF' ? 'aiff' : 'aifc',
+    encoding: 'pcm',
+    bitsPerSample: 0,
+    validBitsPerSample: 0,
+    cuePoints: [],
+    info: {},
+    chunks: [],
+  }
+  let layout: SampleLayout | null = null
+  let frameCount = 0
+  let dataOffset = -1
+  let dataSize = 0
+  let offset = 12
+  while (offset + 8 <= bytes.length) {
+    let id = readFourCC(view, offset)
+    let size = view.getUint32(offset + 4)
+    let body = offset + 8
+    let bodyEnd = Math.min(body + size, bytes.length)
+    metadata.chunks.push({ id, size })
+    if (id === 'COMM') {
+      // AIFF-C adds the compression type after the sample rate
+      let commSize = formType === 'AIFC' ? 22 : 18
+      if (size < commSize || body + commSize > bodyEnd) {
+        throw new Error('Invalid AIFF file: COMM chunk is too short')
+      }
+      let channelCount = view.getInt16(body)
+      frameCount = view.getUint32(body + 2)
+      let sampleSize = view.getInt16(body + 6)
+      // Samples are stored in whole bytes, left-justified
+      let bitsPerSample = Math.ceil(sampleSize / 8) * 8
+      let encoding: 'pcm' | 'float' = 'pcm'
+      let littleEndian = false
+      if (formType === 'AIFC') {
+        let compression = readFourCC(view, body + 18)
+        if (compression === 'sowt') {
+          littleEndian = true
+        } else if (compression === 'fl32' || compression === 'FL32') {
+          encoding = 'float'
+          bitsPerSample = 32
+        } else if (compression === 'fl64' || compression === 'FL64') {
+          encoding = 'float'
+          bitsPerSample = 64
+        } else if (compression !== 'NONE' && compression !== 'twos') {
+          throw new Error(`Unsupported AIFF-C compression: ${compression}`)
+        }
+      }
+      metadata.encoding = encoding
+      metadata.bitsPerSample = bitsPerSample
+      metadata.validBitsPerSample =
+        encoding === 'float' ? bitsPerSample : sampleSize
+      layout = {
+        sampleRate: readFloat80(view, body + 8),
+        channelCount,
+        encoding,
+        bitsPerSample,
+        littleEndian,
+        unsigned8Bit: false,
+        dataOffset: 0,
+        dataSize: 0,
+      }
+    } else if (id === 'SSND') {
+      if (size < 8 || body + 8 > bodyEnd) {
+        throw new Error('Invalid AIFF file: SSND chunk is too short')
+      }
+      // Offset of the first sample frame after the offset and block size fields
+      dataOffset = body + 8 + view.getUint32(body)
+      dataSize = Math.max(0, bodyEnd - dataOffset)
+    } else if (id === 'MARK') {
+      if (size < 2 || body + 2 > bodyEnd) {
+        throw new Error('Invalid AIFF file: MARK chunk is too short')
+      }
+      let count = view.getUint16(body)
+      let marker = body + 2
+      for (let i = 0; i < count && marker + 7 <= bodyEnd; i++) {
+        let nameLength = view.getUint8(marker + 6)
+        metadata.cuePoints.push({
+          id: view.getInt16(marker),
+          position: view.getUint32(marker + 2),
+          label: readText(bytes, marker + 7, marker + 7 + nameLength),
+        })
+        // The name is a Pascal string padded to an even length with its count byte
+        marker += 7 + nameLength + ((nameLength + 1) % 2)
+      }
+    } else if (
+      id === 'NAME' ||
+      id === 'AUTH' ||
+      id === '(c) ' ||
+      id === 'ANNO'
+    ) {
+      // Several annotations are joined by lines
+      let text = readText(bytes, body, bodyEnd)
+      metadata.info[id] = metadata.info[id]
+        ? `${metadata.info[id]}\n${text}`
+        : text
+    }
+    offset = body + size + (size % 2)
+  }
+  if (!layout) {
+    throw new Error('Invalid AIFF file: missing COMM chunk')
+  }
+  if (dataOffset < 0) {
+    throw new Error('Invalid AIFF file: missing SSND chunk')
+  }
+  // The sound data chunk may be padded beyond the frames given in COMM
+  let frameBytes = (layout.bitsPerSample / 8) * layout.channelCount
+  dataSize = Math.min(dataSize, frameCount * frameBytes)
+  return createParsedAudio(view, { ...layout, dataOffset, dataSize }, metadata)
+}
+
+// Decode a WAV, RF64 or AIFF file by its header, keeping the native sample rate.
+// Throws for other containers (e.g. MP3), which need decodeAudio.
+export function parseAudioFile(buffer: ArrayBuffer | Uint8Array): ParsedAudio {
+  let bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer)
+  let view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let id = bytes.length >= 12 ? readFourCC(view, 0) : ''
+  if (id === 'RIFF' || id === 'RF64' || id === 'BW64') {
+    return parseWav(bytes)
+  }
+  if (id === 'FORM') {
+    return parseAiff(bytes)
+  }
+  throw new Error('Unsupported audio file: expected a WAV, RF64 or AIFF header')
+}
+
+// Whether parseAudioFile recognises the container, without decoding it
+export function isParsableAudioFile(buffer: ArrayBuffer | Uint8Array) {
+  let bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer)
+  if (bytes.length < 12) return false
+  let view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let id = readFourCC(view, 0)
+  let form = readFourCC(view, 8)
+  return (
+    ((id === 'RIFF' || id === 'RF64' || id === 'BW64') && form === 'WAVE') ||
+    (id === 'FORM' && (form === 'AIFF' || form === 'AIFC'))
+  )
+}
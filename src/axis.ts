@@ -0,0 +1,116 @@
+import {
+  FrequencyAxis,
+  frequencyToPosition,
+  getFrequencyAxisRange,
+  positionToFrequency,
+} from './frequency-scale'
+
+// A labelled tick, position is normalized along the axis (0 = start/lowest, 1 = end/highest)
+export type AxisTick = {
+  value: number
+  position: number
+  label: string
+}
+
+// Step of 1, 2 or 5 times a power of ten giving at most maxCount steps over the range
+export function getNiceStep(range: number, maxCount: number) {
+  let roughStep = range / Math.max(1, maxCount)
+  if (!(roughStep > 0)) return 1
+  let power = Math.pow(10, Math.floor(Math.log10(roughStep)))
+  for (let factor of [1, 2, 5]) {
+    if (factor * power >= roughStep) return factor * power
+  }
+  return 10 * power
+}
+
+// Multiples of a nice step within [min, max]
+export function getNiceTicks(min: number, max: number, maxCount: number) {
+  let step = getNiceStep(max - min, maxCount)
+  let ticks: number[] = []
+  for (let i = Math.ceil(min / step); i * step <= max + step * 1e-9; i++) {
+    // Multiply instead of accumulating, so 0.1 steps do not drift
+    ticks.push(i * step)
+  }
+  return ticks
+}
+
+// Digits after the decimal point needed to tell ticks of this step apart
+export function getStepDecimals(step: number) {
+  return Math.max(0, -Math.floor(Math.log10(step) + 1e-9))
+}
+
+// Ticks of a time axis from startTime to endTime (seconds)
+export function getTimeTicks(
+  startTime: number,
+  endTime: number,
+  maxCount: number,
+): AxisTick[] {
+  let range = endTime - startTime
+  if (!(range > 0)) return []
+  let decimals = getStepDecimals(getNiceStep(range, maxCount))
+  return getNiceTicks(startTime, endTime, maxCount).map(value => ({
+    value,
+    position: (value - startTime) / range,
+    label: value.toFixed(decimals),
+  }))
+}
+
+export function formatFrequency(hz: number) {
+  if (hz >= 1000) {
+    return `${+(hz / 1000).toFixed(2)}k`
+  }
+  return `${+hz.toFixed(1)}`
+}
+
+// Round to the given number of significant digits, for labels of non-linear axes
+function roundToSignificant(value: number, digits: number) {
+  if (!(value > 0)) return 0
+  let power = Math.pow(10, Math.floor(Math.log10(value)) - digits + 1)
+  return Math.round(value / power) * power
+}
+
+// 1, 2 and 5 times the powers of ten within [minHz, maxHz], or only the powers of ten when too many
+function getDecadeTicks(minHz: number, maxHz: number, maxCount: number) {
+  let values: number[] = []
+  for (let factors of [[1, 2, 5], [1]]) {
+    values = []
+    let power = Math.pow(10, Math.floor(Math.log10(minHz)))
+    for (; power <= maxHz; power *= 10) {
+      for (let factor of factors) {
+        let hz = factor * power
+        if (hz >= minHz && hz <= maxHz) values.push(hz)
+      }
+    }
+    if (values.length <= maxCount + 1) break
+  }
+  return values
+}
+
+// Ticks of a frequency axis, spaced evenly on its scale.
+// Linear axes get multiples of a nice step, log axes get decades,
+// and the other scales get round frequencies near even positions.
+export function getFrequencyTicks(
+  axis: FrequencyAxis,
+  maxCount: number,
+): AxisTick[] {
+  let { minHz, maxHz } = getFrequencyAxisRange(axis)
+  let values: number[]
+  if (axis.scale === 'linear') {
+    values = getNiceTicks(minHz, maxHz, maxCount)
+  } else if (axis.scale === 'log') {
+    values = getDecadeTicks(minHz, maxHz, maxCount)
+  } else {
+    values = []
+    for (let i = 0; i <= maxCount; i++) {
+      let hz = roundToSignificant(positionToFrequency(i / maxCount, axis), 2)
+      if (hz >= minHz && hz <= maxHz && !values.includes(hz)) {
+        values.push(hz)
+      }
+    }
+  }
+  return values.map(value => ({
+    value,
+    position: frequencyToPosition(value, axis),
+    label: formatFrequency(value),
+  }))
+}
@@ -0,0 +1,62 @@
+// An AudioBuffer, or decoded audio with the same channel accessors
+export type ChannelSource = {
+  numberOfChannels: number
+  length: number
+  getChannelData(channel: number): Float32Array
+}
+
+// A channel index, the average of all channels, or the mid/side signals of the first two channels
+export type ChannelSelection = 'mono' | 'mid' | 'side' | number
+
+// Mono downmix (average of all channels) into a new array
+function mixChannels(audioBuffer: ChannelSource) {
+  let channels = audioBuffer.numberOfChannels
+  let audioData = new Float32Array(audioBuffer.length)
+  for (let c = 0; c < channels; c++) {
+    let channelData = audioBuffer.getChannelData(c)
+    for (let i = 0; i < audioData.length; i++) {
+      audioData[i] += channelData[i]
+    }
+  }
+  for (let i = 0; i < audioData.length; i++) {
+    audioData[i] /= channels
+  }
+  return audioData
+}
+
+// Samples of one channel, or of a mix of channels, without modifying the buffer.
+// A single channel is the buffer's own array, treat it as read-only.
+// Mid is (L + R) / 2 and side is (L - R) / 2, halved so a full-scale input stays within full scale.
+export function getChannelAudioData(
+  audioBuffer: ChannelSource,
+  channel: ChannelSelection,
+): Float32Array {
+  let channels = audioBuffer.numberOfChannels
+  if (typeof channel === 'number') {
+    if (!Number.isInteger(channel) || channel < 0 || channel >= channels) {
+      throw new Error(
+        `Channel ${channel} is out of range, the audio has ${channels} channel(s)`,
+      )
+    }
+    return audioBuffer.getChannelData(channel)
+  }
+  if (channel === 'mono') {
+    return channels === 1
+      ? audioBuffer.getChannelData(0)
+      : mixChannels(audioBuffer)
+  }
+  if (channel !== 'mid' && channel !== 'side') {
+    throw new Error(`Unsupported channel selection: ${channel}`)
+  }
+  if (channels < 2) {
+    throw new Error(`${channel} needs at least 2 channels, the audio has 1`)
+  }
+  let left = audioBuffer.getChannelData(0)
+  let right = audioBuffer.getChannelData(1)
+  let sign = channel === 'mid' ? 1 : -1
+  let audioData = new Float32Array(audioBuffer.length)
+  for (let i = 0; i < audioData.length; i++) {
+    audioData[i] = (left[i] + sign * right[i]) / 2
+  }
+  return audioData
+}
@@ -0,0 +1,309 @@
+#!/usr/bin/env node
+import * as tf from '@tensorflow/tfjs'
+import {
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  statSync,
+  writeFileSync,
+} from 'fs'
+import { basename, extname, join } from 'path'
+import { parseArgs } from 'util'
+import {
+  AudioProfileMode,
+  COLORMAP_NAMES,
+  ColormapName,
+  DrawProgress,
+  encodeNpy,
+  encodePng,
+  encodeSpectrogramCsv,
+  formatEta,
+  getAudioProfile,
+  getChannelAudioData,
+  getSpectrogramMatrix,
+  MagnitudeScale,
+  parseAudioFile,
+  renderSpectrogramRgba,
+  WINDOW_FUNCTIONS,
+  WindowFunction,
+} from './core'
+
+let usage = `Usage: audio-spectrogram [options] <file or directory>...
+
+Render a PNG spectrogram of each WAV, RF64 or AIFF file (directories are searched for such files).
+
+Options:
+  -o, --out <dir>              Output directory (default: current directory)
+  -p, --profile <name>         high-precision, medium-precision or low-precision (default: medium-precision)
+      --window <samples>       Window size, overrides the profile
+      --hop <samples>          Hop size, overrides the profile
+      --fft <samples>          FFT size for zero-padding (default: the window size)
+      --max-frequency <Hz>     Highest frequency shown (default: the profile's limit)
+      --window-function <name> ${WINDOW_FUNCTIONS.join(', ')}
+      --colormap <name>        ${COLORMAP_NAMES.join(', ')}
+      --db                     Colour magnitudes in dBFS instead of log1p
+      --width <px>             Image width (default: 1920)
+      --height <px>            Image height (default: 250)
+      --data <format>          Also write the FFT values as csv or npy
+  -h, --help                   Show this help
+
+Audio is analysed at the file's own sample rate, channels are mixed down to mono.`
+
+const AUDIO_PROFILE_MODES: AudioProfileMode[] = [
+  'high-precision',
+  'medium-precision',
+  'low-precision',
+]
+
+type CliOptions = {
+  outDir: string
+  windowSize: number
+  hopSize: number
+  fftSize?: number
+  // In Hz so a different window or FFT size keeps the range
+  maxFrequencyHz: number
+  windowFunction: WindowFunction
+  colormap?: ColormapName
+  magnitudeScale?: MagnitudeScale
+  width: number
+  height: number
+  dataFormat?: 'csv' | 'npy'
+}
+
+function parseInteger(value: string | undefined, name: string) {
+  if (value === undefined) return undefined
+  let number = Number(value)
+  if (!Number.isInteger(number) || number <= 0) {
+    throw new Error(`--${name} must be a positive integer, got "${value}"`)
+  }
+  return number
+}
+
+function parseCliArgs(args: string[]) {
+  let { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o' },
+      profile: { type: 'string', short: 'p' },
+      window: { type: 'string' },
+      hop: { type: 'string' },
+      fft: { type: 'string' },
+      'max-frequency': { type: 'string' },
+      'window-function': { type: 'string' },
+      colormap: { type: 'string' },
+      db: { type: 'boolean' },
+      width: { type: 'string' },
+      height: { type: 'string' },
+      data: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+  if (values.help) return null
+
+  let mode = (values.profile ?? 'medium-precision') as AudioProfileMode
+  if (!AUDIO_PROFILE_MODES.includes(mode)) {
+    throw new Error(`Unknown profile: ${values.profile}`)
+  }
+  let profile = getAudioProfile(mode)
+  let windowFunction = (values['window-function'] ??
+    profile.windowFunction) as WindowFunction
+  if (!WINDOW_FUNCTIONS.includes(windowFunction)) {
+    throw new Error(`Unknown window function: ${windowFunction}`)
+  }
+  let colormap = values.colormap as ColormapName | undefined
+  if (colormap && !COLORMAP_NAMES.includes(colormap)) {
+    throw new Error(`Unknown colormap: ${colormap}`)
+  }
+  let dataFormat = values.data
+  if (
+    dataFormat !== undefined &&
+    dataFormat !== 'csv' &&
+    dataFormat !== 'npy'
+  ) {
+    throw new Error(`--data must be csv or npy, got "${dataFormat}"`)
+  }
+  let windowSize = parseInteger(values.window, 'window') ?? profile.windowSize
+  let options: CliOptions = {
+    outDir: values.out ?? '.',
+    windowSize,
+    hopSize: parseInteger(values.hop, 'hop') ?? profile.hopSize,
+    // The profile's FFT size only applies to the profile's window
+    fftSize:
+      parseInteger(values.fft, 'fft') ??
+      (values.window ? undefined : profile.fftSize),
+    maxFrequencyHz:
+      parseInteger(values['max-frequency'], 'max-frequency') ??
+      (profile.maxFrequency * profile.sampleRate) / profile.fftSize,
+    windowFunction,
+    colormap,
+    magnitudeScale: values.db ? { mode: 'db' } : undefined,
+    width: parseInteger(values.width, 'width') ?? 1920,
+    height: parseInteger(values.height, 'height') ?? 250,
+    dataFormat,
+  }
+  if (options.fftSize !== undefined && options.fftSize < windowSize) {
+    throw new Error(
+      `--fft (${options.fftSize}) must be at least the window size (${windowSize})`,
+    )
+  }
+  if (positionals.length === 0) {
+    throw new Error('No input files given')
+  }
+  return { options, inputs: positionals }
+}
+
+const AUDIO_FILE_EXTENSIONS = ['.wav', '.rf64', '.aif', '.aiff', '.aifc']
+
+// Input files, with the audio files of directories in name order
+function listInputFiles(inputs: string[]) {
+  let files: string[] = []
+  for (let input of inputs) {
+    if (statSync(input, { throwIfNoEntry: false })?.isDirectory()) {
+      let names = readdirSync(input)
+        .filter(name =>
+          AUDIO_FILE_EXTENSIONS.includes(extname(name).toLowerCase()),
+        )
+        .sort()
+      if (names.length === 0) {
+        console.error(`Warning: no audio files in ${input}`)
+      }
+      files.push(...names.map(name => join(input, name)))
+    } else {
+      // Missing files are reported when they are read
+      files.push(input)
+    }
+  }
+  return files
+}
+
+// Rewrite one status line on a terminal, otherwise only log the final state
+function createProgressLine(label: string) {
+  let interactive = !!process.stderr.isTTY
+  return {
+    update(progress: DrawProgress) {
+      if (!interactive) return
+      process.stderr.write(
+        `\r${label}: ${progress.percent}% (${formatEta(progress.etaMs)})\x1b[K`,
+      )
+    },
+    done(text: string) {
+      if (interactive) process.stderr.write('\r\x1b[K')
+      console.error(`${label}: ${text}`)
+    },
+  }
+}
+
+async function renderFile(file: string, options: CliOptions) {
+  let audio = parseAudioFile(readFileSync(file))
+  let audioData = getChannelAudioData(audio, 'mono')
+  let { windowSize, hopSize } = options
+  let fftSize = options.fftSize ?? windowSize
+  if (audioData.length < windowSize) {
+    throw new Error(
+      `audio is shorter than one window (${audioData.length} < ${windowSize} samples)`,
+    )
+  }
+  let binWidth = audio.sampleRate / fftSize
+  let maxFrequency = Math.min(
+    fftSize / 2,
+    Math.floor(options.maxFrequencyHz / binWidth),
+  )
+  if (maxFrequency < 1) {
+    throw new Error(`--max-frequency is below one FFT bin (${binWidth} Hz)`)
+  }
+  let analysis = {
+    audioData,
+    sampleRate: audio.sampleRate,
+    windowSize,
+    hopSize,
+    fftSize,
+    maxFrequency,
+    windowFunction: options.windowFunction,
+    magnitudeScale: options.magnitudeScale,
+  }
+
+  let name = basename(file, extname(file))
+  let imagePath = join(options.outDir, name + '.png')
+  let progressLine = createProgressLine(basename(file))
+  let image = await renderSpectrogramRgba({
+    ...analysis,
+    width: options.width,
+    height: options.height,
+    colormap: options.colormap,
+    onProgress: progressLine.update,
+  })
+  writeFileSync(imagePath, encodePng(image))
+  let outputs = [imagePath]
+
+  if (options.dataFormat) {
+    let data = await getSpectrogramMatrix({
+      ...analysis,
+      onProgress: progressLine.update,
+    })
+    let dataPath = join(options.outDir, `${name}.${options.dataFormat}`)
+    writeFileSync(
+      dataPath,
+      options.dataFormat === 'csv'
+        ? encodeSpectrogramCsv(data)
+        : encodeNpy(data.values, [data.times.length, data.frequencies.length]),
+    )
+    outputs.push(dataPath)
+  }
+  progressLine.done(
+    `${audio.duration.toFixed(2)}s, ${audio.metadata.bitsPerSample}-bit at ${
+      audio.sampleRate
+    } Hz -> ${outputs.join(', ')}`,
+  )
+}
+
+async function main() {
+  let parsed
+  try {
+    parsed = parseCliArgs(process.argv.slice(2))
+  } catch (error) {
+    // Invalid arguments, including unknown options rejected by parseArgs
+    console.error(`Error: ${(error as Error).message}\n\n${usage}`)
+    return 2
+  }
+  if (!parsed) {
+    console.log(usage)
+    return 0
+  }
+  let { options, inputs } = parsed
+  try {
+    mkdirSync(options.outDir, { recursive: true })
+  } catch (error) {
+    console.error(
+      `Error: cannot create ${options.outDir}: ${(error as Error).message}`,
+    )
+    return 1
+  }
+  await tf.setBackend('cpu')
+
+  let files = listInputFiles(inputs)
+  let failedCount = 0
+  for (let file of files) {
+    try {
+      await renderFile(file, options)
+    } catch (error) {
+      failedCount++
+      console.error(`Error: cannot render ${file}: ${(error as Error).message}`)
+    }
+  }
+  if (failedCount > 0) {
+    console.error(`${failedCount} of ${files.length} file(s) failed`)
+    return 1
+  }
+  return files.length > 0 ? 0 : 1
+}
+
+main()
+  .then(code => {
+    process.exitCode = code
+  })
+  .catch(error => {
+    // Unexpected failures outside a single file, e.g. of the TensorFlow backend
+    console.error(`Error: ${(error as Error).message}`)
+    process.exitCode = 1
+  })
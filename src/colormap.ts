@@ -0,0 +1,171 @@
+export type ColormapName =
+  | 'viridis'
+  | 'magma'
+  | 'inferno'
+  | 'jet'
+  | 'grayscale'
+  | 'inverted-grayscale'
+
+// Caller-supplied lookup table: 256 [r, g, b] entries (0-255), from low to high intensity
+export type ColormapLookupTable = ReadonlyArray<
+  readonly [number, number, number]
+>
+
+export type Colormap = ColormapName | ColormapLookupTable
+
+export const COLORMAP_NAMES: ColormapName[] = [
+  'viridis',
+  'magma',
+  'inferno',
+  'jet',
+  'grayscale',
+  'inverted-grayscale',
+]
+
+export const DEFAULT_COLORMAP: ColormapName = 'grayscale'
+
+// Evenly spaced key colours sampled from the matplotlib colormaps,
+// interpolated linearly to build the 256-entry tables
+let colormapStops: Record<ColormapName, string[]> = {
+  viridis: [
+    '#440154',
+    '#482878',
+    '#3e4989',
+    '#31688e',
+    '#26828e',
+    '#1f9e89',
+    '#35b779',
+    '#6ece58',
+    '#b5de2b',
+    '#fde725',
+  ],
+  magma: [
+    '#000004',
+    '#180f3d',
+    '#440f76',
+    '#721f81',
+    '#9e2f7f',
+    '#cd4071',
+    '#f1605d',
+    '#fd9668',
+    '#feca8d',
+    '#fcfdbf',
+  ],
+  inferno: [
+    '#000004',
+    '#1b0c41',
+    '#4a0c6b',
+    '#781c6d',
+    '#a52c60',
+    '#cf4446',
+    '#ed6925',
+    '#fb9b06',
+    '#f7d13d',
+    '#fcffa4',
+  ],
+  // Piecewise-linear jet definition, sampled at every 1/8
+  jet: [
+    '#000080',
+    '#0000ff',
+    '#0080ff',
+    '#00ffff',
+    '#80ff80',
+    '#ffff00',
+    '#ff8000',
+    '#ff0000',
+    '#800000',
+  ],
+  grayscale: ['#000000', '#ffffff'],
+  'inverted-grayscale': ['#ffffff', '#000000'],
+}
+
+let colormapTableCache = new Map<ColormapName, Uint8ClampedArray>()
+
+function parseHexColor(hex: string): [number, number, number] {
+  let value = parseInt(hex.slice(1), 16)
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+}
+
+function buildColormapTable(stops: string[]) {
+  let colors = stops.map(parseHexColor)
+  let table = new Uint8ClampedArray(256 * 3)
+  for (let i = 0; i < 256; i++) {
+    let position = (i / 255) * (colors.length - 1)
+    let index = Math.min(Math.floor(position), colors.length - 2)
+    let ratio = position - index
+    let from = colors[index]
+    let to = colors[index + 1]
+    for (let c = 0; c < 3; c++) {
+      table[i * 3 + c] = Math.round(from[c] + (to[c] - from[c]) * ratio)
+    }
+  }
+  return table
+}
+
+// Resolve a colormap into a flat [r0, g0, b0, r1, g1, b1, ...] table of 256 entries
+export function getColormapTable(colormap: Colormap): Uint8ClampedArray {
+  if (typeof colormap === 'string') {
+    let table = colormapTableCache.get(colormap)
+    if (table) return table
+    let stops = colormapStops[colormap]
+    if (!stops) {
+      throw new Error(`Unsupported colormap: ${colormap}`)
+    }
+    table = buildColormapTable(stops)
+    colormapTableCache.set(colormap, table)
+    return table
+  }
+  if (colormap.length !== 256) {
+    throw new Error(
+      `Colormap lookup table must have 256 entries, got ${colormap.length}`,
+    )
+  }
+  let table = new Uint8ClampedArray(256 * 3)
+  for (let i = 0; i < 256; i++) {
+    let [r, g, b] = colormap[i]
+    table[i * 3] = r
+    table[i * 3 + 1] = g
+    table[i * 3 + 2] = b
+  }
+  return table
+}
+
+// Write the colour for a normalized intensity (0-1) into an RGBA pixel buffer
+export function writeColormapPixel(
+  table: Uint8ClampedArray,
+  value: number,
+  data: Uint8ClampedArray,
+  index: number,
+) {
+  let level = Math.floor(value * 255)
+  if (!(level > 0)) level = 0
+  if (level > 255) level = 255
+  data[index] = table[level * 3]
+  data[index + 1] = table[level * 3 + 1]
+  data[index + 2] = table[level * 3 + 2]
+  data[index + 3] = 255
+}
+
+// Draw a colour bar legend, low intensity at the bottom (vertical) or left (horizontal)
+export function drawColorbar(
+  canvas: HTMLCanvasElement,
+  colormap: Colormap,
+  orientation: 'vertical' | 'horizontal' = 'vertical',
+) {
+  let context = canvas.getContext('2d')!
+  let width = canvas.width
+  let height = canvas.height
+  if (width <= 0 || height <= 0) return
+  let table = getColormapTable(colormap)
+  let imageData = context.createImageData(width, height)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let value =
+        orientation === 'vertical'
+          ? (height - 1 - y) / Math.max(1, height - 1)
+          : x / Math.max(1, width - 1)
+      writeColormapPixel(table, value, imageData.data, (y * width + x) * 4)
+    }
+  }
+  context.putImageData(imageData, 0, 0)
+}
@@ -1,17 +1,52 @@
 import * as tf from '@tensorflow/tfjs'
+import { ParsedAudio } from './audio-file'
+import { getChannelAudioData } from './channels'
+import { Colormap, DEFAULT_COLORMAP } from './colormap'
+import { FrequencyScale, getRowBinRanges } from './frequency-scale'
+import { MagnitudeCache } from './magnitude-cache'
+import { isMagnitudeScaleAdaptive, MagnitudeScale } from './magnitude-scale'
+import { paintSpectrogramColumns, paintSpectrogramImage } from './paint'
+import { createProgressReporter, DrawProgress, PauseState } from './progress'
+import {
+  computeSpectrogramImage,
+  createFrameMagnitudeTensor,
+  getBinWidth,
+  getFftSize,
+  SpectrogramImage,
+} from './spectrogram'
+import { createWindow, WindowFunction, WindowOptions } from './window-function'
+
+export * from './audio-file'
+export * from './axis'
+export * from './channels'
+export * from './colormap'
+export * from './data-export'
+export * from './features'
+export * from './formants'
+export * from './frequency-scale'
+export * from './export'
+export * from './headless'
+export * from './live'
+export * from './magnitude-cache'
+export * from './magnitude-scale'
+export * from './mel'
+export * from './onsets'
+export * from './paint'
+export * from './pitch'
+export * from './playback'
+export * from './png'
+export * from './profiles'
+export * from './progress'
+export * from './spectrogram'
+export * from './vad'
+export * from './view-state'
+export * from './window-function'
+export * from './worker-renderer'
 
 export type AudioProfileMode =
   | 'high-precision'
   | 'medium-precision'
   | 'low-precision'
-export type DrawProgress = {
-  percent: number
-  etaMs: number | null
-}
-
-export function getNow() {
-  return performance.now()
-}
 
 export async function loadFile(file: File) {
   let arrayBuffer = await file.arrayBuffer()
@@ -27,105 +62,141 @@ export async function loadUrl(url: string) {
   return arrayBuffer
 }
 
+// Decode any format the browser supports, resampled to sampleRate (see parseAudioFile for the native rate)
 export async function decodeAudio(
   arrayBuffer: ArrayBuffer,
   sampleRate?: number,
 ) {
   let audioContext = new AudioContext({ latencyHint: 'playback', sampleRate })
-  let audioBuffer = await audioContext.decodeAudioData(arrayBuffer)
+  try {
+    return await audioContext.decodeAudioData(arrayBuffer)
+  } finally {
+    // Browsers limit the number of open contexts
+    await audioContext.close()
+  }
+}
+
+// Web Audio buffer of audio decoded by parseAudioFile, at its native sample rate
+export function createAudioBuffer(audio: ParsedAudio) {
+  let audioBuffer = new AudioBuffer({
+    length: Math.max(1, audio.length),
+    numberOfChannels: audio.numberOfChannels,
+    sampleRate: audio.sampleRate,
+  })
+  audio.channels.forEach((channel, c) => {
+    audioBuffer.copyToChannel(channel as Float32Array<ArrayBuffer>, c)
+  })
   return audioBuffer
 }
 
+// Average of all channels, the buffer is left intact (see getChannelAudioData for other mixes)
 export function getMonoAudioData(audioBuffer: AudioBuffer) {
-  let audioData = audioBuffer.getChannelData(0)
-  let channels = audioBuffer.numberOfChannels
-  if (channels == 1) {
-    return audioData
-  }
-  for (let c = 1; c < channels; c++) {
-    let channelData = audioBuffer.getChannelData(c)
-    for (let i = 0; i < audioData.length; i++) {
-      audioData[i] += channelData[i]
-    }
-  }
-  for (let i = 0; i < audioData.length; i++) {
-    audioData[i] /= channels
-  }
-  return audioData
+  return getChannelAudioData(audioBuffer, 'mono')
 }
 
 export function getSpectrogramData(
   audioData: Float32Array,
   windowSize: number,
+  options?: WindowOptions & {
+    // FFT size for zero-padding, must be at least windowSize, defaults to windowSize
+    fftSize?: number
+    // Pool the FFT bins of each frame into bands on this scale (lowest band first)
+    frequencyScale?: FrequencyScale
+    // Required for non-linear frequency scales
+    sampleRate?: number
+    // Number of FFT bins to include, defaults to fftSize / 2
+    maxFrequency?: number
+    // Number of bands per frame, defaults to maxFrequency
+    bandCount?: number
+  },
 ) {
+  let fftSize = getFftSize(windowSize, options?.fftSize)
   let stride = windowSize / 2
   let frameCount = Math.floor((audioData.length - windowSize) / stride) + 1
-  let frequencyBinCount = windowSize / 2
+  let frequencyBinCount = fftSize / 2
 
   let spectrogramData: number[][] = []
 
-  tf.tidy(() => {
-    let hammingWindow = tf.signal.hammingWindow(windowSize)
-    for (let frame = 0; frame < frameCount; frame++) {
-      let start = frame * stride
-      let end = start + windowSize
-      let frameBuffer = audioData.slice(start, end)
+  if (frameCount > 0) {
+    tf.tidy(() => {
+      // Frame and transform all windows in one batch
+      let magnitude = createFrameMagnitudeTensor({
+        audioData,
+        window: createWindow(windowSize, options),
+        hopSize: stride,
+        fftSize,
+        binCount: frequencyBinCount,
+        frameStart: 0,
+        frameEnd: frameCount,
+      })
 
-      let windowedFrame = tf.mul(tf.tensor1d(frameBuffer), hammingWindow)
-
-      let complexFrame = tf.complex(windowedFrame, tf.zerosLike(windowedFrame))
-
-      let fft = tf.spectral.fft(complexFrame)
+      let logMagnitude = tf.log1p(magnitude)
 
-      let magnitude = tf.abs(fft).slice([0], [windowSize / 2])
+      spectrogramData = logMagnitude.arraySync() as number[][]
+    })
+  }
 
-      let logMagnitude = tf.log1p(magnitude)
+  if (!options?.frequencyScale) {
+    return spectrogramData
+  }
 
-      spectrogramData.push(logMagnitude.arraySync() as number[])
+  let binCount = Math.min(
+    options.maxFrequency ?? frequencyBinCount,
+    frequencyBinCount,
+  )
+  let bandCount = options.bandCount ?? binCount
+  let rowBinRanges = getRowBinRanges(bandCount, {
+    scale: options.frequencyScale,
+    binCount,
+    binWidth: getBinWidth(options.frequencyScale, options.sampleRate, fftSize),
+  })
+  return spectrogramData.map(magnitudes => {
+    let bands: number[] = []
+    // Rows are ordered from the highest band, so walk them backwards
+    for (let y = bandCount - 1; y >= 0; y--) {
+      let maxMag = 0
+      for (
+        let bin = rowBinRanges[y * 2];
+        bin < rowBinRanges[y * 2 + 1];
+        bin++
+      ) {
+        if (magnitudes[bin] > maxMag) {
+          maxMag = magnitudes[bin]
+        }
+      }
+      bands.push(maxMag)
     }
+    return bands
   })
-
-  return spectrogramData
-}
-
-export type PauseState = {
-  paused: boolean
 }
 
-export async function drawSpectrogram(inputs: {
+export type DrawSpectrogramOptions = WindowOptions & {
   signal: AbortSignal
   audioData: Float32Array
   windowSize: number
   hopSize: number
+  // FFT size for zero-padding, must be at least windowSize, defaults to windowSize
+  fftSize?: number
   maxFrequency: number
   canvas: HTMLCanvasElement
   onProgress?: (progress: DrawProgress) => void
   frameStart?: number
   frameEnd?: number
   pauseState?: PauseState
-}) {
-  let {
-    signal,
-    audioData,
-    windowSize,
-    hopSize,
-    maxFrequency,
-    canvas,
-    onProgress,
-    frameStart,
-    frameEnd,
-    pauseState,
-  } = inputs
-
-  let totalFrameCount =
-    Math.floor((audioData.length - windowSize) / hopSize) + 1
-  let frequencyBinCount = windowSize / 2
-
-  if (maxFrequency > frequencyBinCount) {
-    throw new Error(
-      `maxFrequency (${maxFrequency}) must be less than frequencyBinCount (${frequencyBinCount})`,
-    )
-  }
+  colormap?: Colormap
+  // Defaults to log1p scaling of the magnitudes
+  magnitudeScale?: MagnitudeScale
+  frequencyScale?: FrequencyScale
+  // Required for non-linear frequency scales
+  sampleRate?: number
+  // Reuse magnitudes computed by earlier renders, only missing frames are transformed
+  cache?: MagnitudeCache
+}
+
+export async function drawSpectrogram(
+  inputs: DrawSpectrogramOptions,
+): Promise<SpectrogramImage> {
+  let { signal, canvas, onProgress, colormap, magnitudeScale } = inputs
 
   // Use existing canvas size - don't resize
   let canvasWidth = canvas.width
@@ -135,233 +206,67 @@ export async function drawSpectrogram(inputs: {
     throw new Error('Canvas width and height must be greater than 0')
   }
 
-  // Determine frame range to render (default to all frames)
-  let startFrame = frameStart ?? 0
-  let endFrame = frameEnd ?? totalFrameCount
-  startFrame = Math.max(0, Math.min(startFrame, totalFrameCount - 1))
-  endFrame = Math.max(0, Math.min(endFrame, totalFrameCount))
-  let frameCount = endFrame - startFrame
-
-  if (frameCount <= 0) {
-    throw new Error(
-      'Invalid frame range: frameStart must be less than frameEnd',
-    )
-  }
-
   let context = canvas.getContext('2d')!
 
   let imageData = context.createImageData(canvasWidth, canvasHeight)
 
-  let hammingWindow = tf.signal.hammingWindow(windowSize)
-  let timer: ReturnType<typeof setInterval> | null = setInterval(draw)
-  let lastPercent = -1
-  let startTime = getNow()
-  let frameMagnitudes: tf.Tensor[] = []
-
-  // Helper function to wait for resume if paused
-  let waitForResume = async () => {
-    if (!pauseState) return
-    while (pauseState.paused && !signal.aborted) {
-      await new Promise(resolve => setTimeout(resolve, 50))
-    }
-  }
+  // Colours of adaptive scales (peak reference, auto-level) depend on the whole image,
+  // so columns are previewed against full scale and repainted once all are computed
+  let adaptive = !!magnitudeScale && isMagnitudeScaleAdaptive(magnitudeScale)
+  let previewScale = adaptive
+    ? { ...magnitudeScale!, reference: 'full-scale' as const, autoLevel: false }
+    : magnitudeScale
 
-  // Cleanup function to dispose all tensors
-  let cleanup = () => {
-    if (timer) {
-      clearInterval(timer)
-      timer = null
-    }
-    // Dispose hamming window
-    if (hammingWindow) {
-      hammingWindow.dispose()
-      hammingWindow = null as any
-    }
-    // Dispose any remaining frame magnitude tensors
-    for (let tensor of frameMagnitudes) {
-      if (tensor && !tensor.isDisposed) {
-        tensor.dispose()
-      }
-    }
-    frameMagnitudes = []
-  }
+  let timer: ReturnType<typeof setInterval> | null = setInterval(draw)
+  let reportProgress = createProgressReporter(onProgress)
 
   function draw() {
     context.putImageData(imageData, 0, 0)
   }
 
+  let image: SpectrogramImage
   try {
-    // Render each pixel column
-    for (let x = 0; x < canvasWidth && !signal.aborted; x++) {
-      // Check for pause and wait if paused
-      await waitForResume()
-      if (signal.aborted) break
-      // Map canvas x position to frame index range
-      // x=0 maps to startFrame, x=canvasWidth-1 maps to endFrame-1
-      let frameIndexStart = startFrame + (x / canvasWidth) * frameCount
-      let frameIndexEnd = startFrame + ((x + 1) / canvasWidth) * frameCount
-
-      // Determine which frames contribute to this pixel (max pooling)
-      let frameStartIdx = Math.floor(frameIndexStart)
-      let frameEndIdx = Math.ceil(frameIndexEnd)
-
-      // Clamp frame range to valid values
-      frameStartIdx = Math.max(
-        startFrame,
-        Math.min(frameStartIdx, startFrame + frameCount - 1),
-      )
-      frameEndIdx = Math.max(
-        startFrame,
-        Math.min(frameEndIdx, startFrame + frameCount),
-      )
-
-      // Process all frames that map to this pixel (max pooling horizontally)
-      // Use TensorFlow.js to compute max across frames to avoid data transfer overhead
-      // Clear previous frame magnitudes
-      for (let tensor of frameMagnitudes) {
-        if (tensor && !tensor.isDisposed) {
-          tensor.dispose()
-        }
-      }
-      frameMagnitudes = []
-
-      for (
-        let frame = frameStartIdx;
-        frame < frameEndIdx && !signal.aborted;
-        frame++
-      ) {
-        let start = frame * hopSize
-        let end = start + windowSize
-        if (end > audioData.length) {
-          end = audioData.length
-          start = end - windowSize
-        }
-        if (start < 0) {
-          start = 0
-          end = Math.min(windowSize, audioData.length)
-        }
-        let frameBuffer = audioData.slice(start, end)
-
-        let windowedFrame = tf.mul(tf.tensor1d(frameBuffer), hammingWindow)
-
-        let logMagnitude = tf.tidy(() => {
-          let complexFrame = tf.complex(
-            windowedFrame,
-            tf.zerosLike(windowedFrame),
-          )
-
-          let fft = tf.spectral.fft(complexFrame)
-
-          let magnitude = tf.abs(fft.slice([0], [windowSize / 2]))
-
-          let logMagnitude = tf.div(tf.log1p(magnitude), log_255)
-
-          return logMagnitude
-        })
-
-        // Dispose windowedFrame after tidy (it's no longer needed)
-        windowedFrame.dispose()
-
-        // Keep in TensorFlow.js - slice to maxFrequency
-        let sliced = logMagnitude.slice([0], [maxFrequency])
-        logMagnitude.dispose()
-        frameMagnitudes.push(sliced)
-      }
-
-      // Compute max across all frames using TensorFlow.js (faster, stays on GPU if available)
-      let maxValuesTensor: tf.Tensor
-      if (frameMagnitudes.length > 0) {
-        if (frameMagnitudes.length === 1) {
-          maxValuesTensor = frameMagnitudes[0]
-        } else {
-          // Stack frames and take max along the batch dimension
-          let stacked = tf.stack(frameMagnitudes)
-          maxValuesTensor = tf.max(stacked, 0)
-          stacked.dispose()
-          // Dispose individual frame tensors
-          for (let tensor of frameMagnitudes) {
-            tensor.dispose()
-          }
-        }
-        // Get data only once after all TensorFlow.js operations
-        let maxValues = (await maxValuesTensor.data()) as Float32Array
-        maxValuesTensor.dispose()
-
-        // Write the maximum values to the pixel column, with vertical max pooling
-        for (let y = 0; y < canvasHeight; y++) {
-          // Map canvas y position to frequency bin range
-          // y=0 is top (highest frequency), y=canvasHeight-1 is bottom (lowest frequency)
-          // Frequency bins are indexed from 0 (lowest) to maxFrequency-1 (highest)
-          // So we need to invert: canvas y maps to frequency bin (maxFrequency - 1 - ...)
-          let freqIndexStart =
-            ((canvasHeight - 1 - y) / canvasHeight) * maxFrequency
-          let freqIndexEnd = ((canvasHeight - y) / canvasHeight) * maxFrequency
-
-          // Determine which frequency bins contribute to this pixel (max pooling vertically)
-          let freqStart = Math.floor(freqIndexStart)
-          let freqEnd = Math.ceil(freqIndexEnd)
-
-          // Clamp frequency range to valid values
-          freqStart = Math.max(0, Math.min(freqStart, maxFrequency - 1))
-          freqEnd = Math.max(0, Math.min(freqEnd, maxFrequency))
-
-          // Find maximum value across frequency bins for this pixel
-          let maxMag = 0
-          for (let freq = freqStart; freq < freqEnd; freq++) {
-            if (maxValues[freq] > maxMag) {
-              maxMag = maxValues[freq]
-            }
-          }
-
-          let color = Math.floor(maxMag * 255)
-          let index = (y * canvasWidth + x) * 4
-          imageData.data[index] = color
-          imageData.data[index + 1] = color
-          imageData.data[index + 2] = color
-          imageData.data[index + 3] = 255
-        }
-      } else {
-        // No frames to process - fill with black
-        for (let y = 0; y < canvasHeight; y++) {
-          let index = (y * canvasWidth + x) * 4
-          imageData.data[index] = 0
-          imageData.data[index + 1] = 0
-          imageData.data[index + 2] = 0
-          imageData.data[index + 3] = 255
-        }
-      }
-      if (onProgress) {
-        let percent = Math.floor(((x + 1) / canvasWidth) * 100)
-        if (percent !== lastPercent) {
-          lastPercent = percent
-          let progress = (x + 1) / canvasWidth
-          let elapsedMs = getNow() - startTime
-          let speed = progress / elapsedMs
-          let etaMs = (1 - progress) / speed
-          onProgress({ percent, etaMs })
-        }
-      }
-    }
+    image = await computeSpectrogramImage({
+      ...inputs,
+      width: canvasWidth,
+      height: canvasHeight,
+      onColumns: (image, columnStart, columnEnd) => {
+        paintSpectrogramColumns(
+          imageData.data,
+          image,
+          colormap ?? DEFAULT_COLORMAP,
+          previewScale,
+          columnStart,
+          columnEnd,
+        )
+        reportProgress(columnEnd / canvasWidth)
+      },
+    })
   } finally {
     // Always cleanup, even if aborted
-    // Clean up any remaining frame magnitude tensors from last iteration
-    for (let tensor of frameMagnitudes) {
-      if (tensor && !tensor.isDisposed) {
-        tensor.dispose()
-      }
+    if (timer) {
+      clearInterval(timer)
+      timer = null
     }
-    frameMagnitudes = []
-    cleanup()
   }
 
   if (onProgress && !signal.aborted) {
     onProgress({ percent: 100, etaMs: 0 })
   }
 
+  if (adaptive && !signal.aborted) {
+    paintSpectrogramImage(
+      imageData.data,
+      image,
+      colormap ?? DEFAULT_COLORMAP,
+      magnitudeScale,
+    )
+  }
+
   draw()
-}
 
-const log_255 = Math.log1p(255)
+  return image
+}
 
 export function calculateDefaultZoom(
   frameCount: number,
@@ -374,13 +279,25 @@ export function calculateDefaultZoom(
   return viewportWidth / frameCount
 }
 
-export function getAudioProfile(mode: AudioProfileMode) {
+export type AudioProfile = {
+  sampleRate: number
+  windowSize: number
+  hopSize: number
+  // FFT size, larger than windowSize for zero-padding
+  fftSize: number
+  windowFunction: WindowFunction
+  maxFrequency: number // bins, will be converted to Hz
+}
+
+export function getAudioProfile(mode: AudioProfileMode): AudioProfile {
   let k = 1000
   if (mode === 'high-precision') {
     return {
       sampleRate: 44.1 * k,
       windowSize: 8192,
       hopSize: 512,
+      fftSize: 8192,
+      windowFunction: 'hamming',
       maxFrequency: 1000, // bins, will be converted to Hz
     }
   }
@@ -389,6 +306,8 @@ export function getAudioProfile(mode: AudioProfileMode) {
       sampleRate: 32 * k,
       windowSize: 4096,
       hopSize: 512,
+      fftSize: 4096,
+      windowFunction: 'hamming',
       maxFrequency: 1000, // bins, will be converted to Hz
     }
   }
@@ -397,6 +316,8 @@ export function getAudioProfile(mode: AudioProfileMode) {
       sampleRate: 16 * k,
       windowSize: 2048,
       hopSize: 256,
+      fftSize: 2048,
+      windowFunction: 'hamming',
       maxFrequency: 1024, // bins, will be converted to Hz
     }
   }
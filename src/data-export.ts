@@ -0,0 +1,274 @@
+import {
+  getDbLevels,
+  getFullScaleMagnitude,
+  magnitudeToDb,
+  MagnitudeScale,
+} from './magnitude-scale'
+import { DrawProgress } from './progress'
+import {
+  forEachFrameMagnitudeBlock,
+  getFftSize,
+  getFrameCount,
+  getRenderFrameRange,
+} from './spectrogram'
+import {
+  createWindow,
+  DEFAULT_WINDOW_FUNCTION,
+  WindowOptions,
+} from './window-function'
+
+export type SpectrogramDataFormat = 'csv' | 'json' | 'npy'
+
+export type SpectrogramDataOptions = WindowOptions & {
+  audioData: Float32Array
+  sampleRate: number
+  windowSize: number
+  hopSize: number
+  // FFT size for zero-padding, must be at least windowSize, defaults to windowSize
+  fftSize?: number
+  // Number of FFT bins included when highHz is not given
+  maxFrequency: number
+  // Time range in seconds, defaults to the whole audio
+  startTime?: number
+  endTime?: number
+  // Frequency range in Hz, rounded outwards to whole FFT bins
+  lowHz?: number
+  highHz?: number
+  // Values as shown with this scale (dB or log1p), defaults to linear FFT magnitudes
+  magnitudeScale?: MagnitudeScale
+  signal?: AbortSignal
+  onProgress?: (progress: DrawProgress) => void
+}
+
+export type SpectrogramDataUnit = 'magnitude' | 'dB' | 'dBFS' | 'log1p'
+
+// FFT values of a range of frames and bins, with their time and frequency coordinates
+export type SpectrogramData = {
+  // Row-major: one row of frequencies.length values per frame
+  values: Float32Array
+  // Start time (seconds) of each frame
+  times: number[]
+  // Centre frequency (Hz) of each FFT bin
+  frequencies: number[]
+  unit: SpectrogramDataUnit
+  // Analysis settings, so the values can be reproduced
+  parameters: {
+    sampleRate: number
+    windowSize: number
+    hopSize: number
+    fftSize: number
+    windowFunction: string
+    kaiserBeta?: number
+    gaussianSigma?: number
+    frameStart: number
+    frameEnd: number
+    binStart: number
+    binEnd: number
+    // Magnitude of a full-scale sine wave, the 0 dBFS reference
+    fullScaleMagnitude: number
+    // Magnitude of 0 dB when the unit is dB
+    referenceMagnitude?: number
+    // Gain (dB) applied before the dB or log1p scaling
+    gain?: number
+  }
+}
+
+// Compute the FFT values of a time and frequency range, one value per frame and bin (no pooling)
+export async function getSpectrogramMatrix(
+  options: SpectrogramDataOptions,
+): Promise<SpectrogramData> {
+  let { audioData, sampleRate, windowSize, hopSize, magnitudeScale } = options
+  let fftSize = getFftSize(windowSize, options.fftSize)
+  let binWidth = sampleRate / fftSize
+
+  let totalFrameCount = getFrameCount(audioData.length, windowSize, hopSize)
+  let [frameStart, frameEnd] = getRenderFrameRange(
+    totalFrameCount,
+    options.startTime === undefined
+      ? undefined
+      : Math.floor((options.startTime * sampleRate) / hopSize),
+    options.endTime === undefined
+      ? undefined
+      : Math.ceil((options.endTime * sampleRate) / hopSize),
+  )
+  if (frameEnd <= frameStart) {
+    throw new Error('Invalid time range: startTime must be less than endTime')
+  }
+
+  let binEnd = Math.min(
+    fftSize / 2,
+    options.highHz === undefined
+      ? options.maxFrequency
+      : Math.ceil(options.highHz / binWidth),
+  )
+  let binStart = Math.max(0, Math.floor((options.lowHz ?? 0) / binWidth))
+  if (binEnd <= binStart) {
+    throw new Error(
+      'Invalid frequency range: lowHz must be less than highHz and maxFrequency',
+    )
+  }
+
+  let frameCount = frameEnd - frameStart
+  let binCount = binEnd - binStart
+  let values = new Float32Array(frameCount * binCount)
+  await forEachFrameMagnitudeBlock(
+    {
+      ...options,
+      fftSize,
+      binCount: binEnd,
+      frameStart,
+      frameEnd,
+      label: 'Spectrogram data export',
+    },
+    (magnitudes, blockStart, blockEnd) => {
+      for (let frame = blockStart; frame < blockEnd; frame++) {
+        let offset = (frame - blockStart) * binEnd
+        values.set(
+          magnitudes.subarray(offset + binStart, offset + binEnd),
+          (frame - frameStart) * binCount,
+        )
+      }
+    },
+  )
+
+  let fullScaleMagnitude = getFullScaleMagnitude(
+    createWindow(windowSize, options),
+  )
+  let data: SpectrogramData = {
+    values,
+    times: [],
+    frequencies: [],
+    unit: 'magnitude',
+    parameters: {
+      sampleRate,
+      windowSize,
+      hopSize,
+      fftSize,
+      windowFunction: options.windowFunction ?? DEFAULT_WINDOW_FUNCTION,
+      kaiserBeta: options.kaiserBeta,
+      gaussianSigma: options.gaussianSigma,
+      frameStart,
+      frameEnd,
+      binStart,
+      binEnd,
+      fullScaleMagnitude,
+    },
+  }
+  for (let frame = frameStart; frame < frameEnd; frame++) {
+    data.times.push((frame * hopSize) / sampleRate)
+  }
+  for (let bin = binStart; bin < binEnd; bin++) {
+    data.frequencies.push(bin * binWidth)
+  }
+
+  if (magnitudeScale) {
+    let gain = magnitudeScale.gain ?? 0
+    data.parameters.gain = gain
+    if (magnitudeScale.mode === 'db') {
+      let { referenceMagnitude } = getDbLevels(magnitudeScale, {
+        values,
+        fullScaleMagnitude,
+      })
+      for (let i = 0; i < values.length; i++) {
+        values[i] = magnitudeToDb(values[i], referenceMagnitude) + gain
+      }
+      data.unit = magnitudeScale.reference === 'peak' ? 'dB' : 'dBFS'
+      data.parameters.referenceMagnitude = referenceMagnitude
+    } else if (magnitudeScale.mode === 'log1p') {
+      let linearGain = Math.pow(10, gain / 20)
+      for (let i = 0; i < values.length; i++) {
+        values[i] = Math.log1p(values[i] * linearGain)
+      }
+      data.unit = 'log1p'
+    } else {
+      throw new Error(`Unsupported magnitude scale: ${magnitudeScale.mode}`)
+    }
+  }
+  return data
+}
+
+function formatValue(value: number) {
+  // float32 values have about 7 significant digits
+  return String(+value.toPrecision(7))
+}
+
+// CSV with a header row of frequencies (Hz) and a first column of frame times (seconds)
+export function encodeSpectrogramCsv(data: SpectrogramData) {
+  let binCount = data.frequencies.length
+  let lines = [
+    ['time_s\\frequency_hz', ...data.frequencies.map(formatValue)].join(','),
+  ]
+  for (let row = 0; row < data.times.length; row++) {
+    let cells = [formatValue(data.times[row])]
+    for (let bin = 0; bin < binCount; bin++) {
+      cells.push(formatValue(data.values[row * binCount + bin]))
+    }
+    lines.push(cells.join(','))
+  }
+  return lines.join('\n') + '\n'
+}
+
+// JSON with the axes and analysis settings, values as one array per frame
+export function encodeSpectrogramJson(data: SpectrogramData) {
+  let binCount = data.frequencies.length
+  let values: number[][] = []
+  for (let row = 0; row < data.times.length; row++) {
+    values.push(
+      Array.from(data.values.subarray(row * binCount, (row + 1) * binCount)),
+    )
+  }
+  return JSON.stringify({
+    unit: data.unit,
+    parameters: data.parameters,
+    times: data.times,
+    frequencies: data.frequencies,
+    values,
+  })
+}
+
+// NumPy .npy (format version 1.0) of a row-major float32 matrix, loaded with numpy.load
+export function encodeNpy(values: Float32Array, shape: number[]) {
+  let shapeText =
+    shape.length === 1 ? `(${shape[0]},)` : `(${shape.join(', ')})`
+  let header = `{'descr': '<f4', 'fortran_order': False, 'shape': ${shapeText}, }`
+  // Magic (6) + version (2) + header length (2) + header, padded to a multiple of 64 with a newline
+  let preambleLength = 10
+  let paddedLength =
+    Math.ceil((preambleLength + header.length + 1) / 64) * 64 - preambleLength
+  header = header.padEnd(paddedLength - 1, ' ') + '\n'
+
+  let bytes = new Uint8Array(preambleLength + header.length + values.length * 4)
+  let view = new DataView(bytes.buffer)
+  bytes.set([0x93, 0x4e, 0x55, 0x4d, 0x50, 0x59, 1, 0])
+  view.setUint16(8, header.length, true)
+  for (let i = 0; i < header.length; i++) {
+    bytes[preambleLength + i] = header.charCodeAt(i)
+  }
+  let dataOffset = preambleLength + header.length
+  for (let i = 0; i < values.length; i++) {
+    view.setFloat32(dataOffset + i * 4, values[i], true)
+  }
+  return bytes
+}
+
+// Compute and encode the FFT values of a range, see getSpectrogramMatrix.
+// .npy holds the values only (frames x bins), the JSON export has the matching axes.
+export async function exportSpectrogramData(
+  options: SpectrogramDataOptions & { format: SpectrogramDataFormat },
+): Promise<Blob> {
+  let { format } = options
+  if (format !== 'csv' && format !== 'json' && format !== 'npy') {
+    throw new Error(`Unsupported data format: ${format}`)
+  }
+  let data = await getSpectrogramMatrix(options)
+  if (format === 'csv') {
+    return new Blob([encodeSpectrogramCsv(data)], { type: 'text/csv' })
+  }
+  if (format === 'json') {
+    return new Blob([encodeSpectrogramJson(data)], {
+      type: 'application/json',
+    })
+  }
+  let npy = encodeNpy(data.values, [data.times.length, data.frequencies.length])
+  return new Blob([npy], { type: 'application/octet-stream' })
+}
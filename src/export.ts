@@ -0,0 +1,447 @@
+import {
+  AxisTick,
+  getFrequencyTicks,
+  getNiceStep,
+  getNiceTicks,
+  getTimeTicks,
+} from './axis'
+import { Colormap, DEFAULT_COLORMAP, drawColorbar } from './colormap'
+import { FrequencyAxis, FrequencyScale } from './frequency-scale'
+import { MagnitudeCache } from './magnitude-cache'
+import {
+  DEFAULT_MAGNITUDE_SCALE,
+  getDbLevels,
+  MagnitudeScale,
+} from './magnitude-scale'
+import { paintSpectrogramImage } from './paint'
+import { createProgressReporter, DrawProgress } from './progress'
+import {
+  computeSpectrogramImage,
+  getFftSize,
+  getFrameCount,
+  getRenderFrameRange,
+  SpectrogramImage,
+} from './spectrogram'
+import { WindowOptions } from './window-function'
+
+export type SpectrogramExportFormat = 'png' | 'svg'
+
+export type SpectrogramExportOptions = WindowOptions & {
+  audioData: Float32Array
+  sampleRate: number
+  windowSize: number
+  hopSize: number
+  // FFT size for zero-padding, must be at least windowSize, defaults to windowSize
+  fftSize?: number
+  // Number of FFT bins shown when highHz is not given
+  maxFrequency: number
+  // Time range in seconds, defaults to the whole audio
+  startTime?: number
+  endTime?: number
+  // Frequency range in Hz, highHz is rounded up to a whole FFT bin
+  lowHz?: number
+  highHz?: number
+  // Size of the whole image in pixels, including the axes, title and colour bar
+  width: number
+  height: number
+  // Defaults to 'png'
+  format?: SpectrogramExportFormat
+  title?: string
+  // Show a colour bar with the magnitude levels, defaults to true
+  colorbar?: boolean
+  colormap?: Colormap
+  magnitudeScale?: MagnitudeScale
+  frequencyScale?: FrequencyScale
+  signal?: AbortSignal
+  onProgress?: (progress: DrawProgress) => void
+  cache?: MagnitudeCache
+}
+
+// Shapes of the axes and labels, drawn the same way onto a canvas or into an SVG
+type ExportShape =
+  | { type: 'line'; x1: number; y1: number; x2: number; y2: number }
+  | {
+      type: 'text'
+      x: number
+      y: number
+      text: string
+      align: 'start' | 'middle' | 'end'
+      baseline: 'top' | 'middle' | 'bottom'
+      font: string
+      // Rotate 90 degrees counter-clockwise around (x, y)
+      vertical?: boolean
+    }
+
+type Rect = { x: number; y: number; width: number; height: number }
+
+const LABEL_FONT = '12px sans-serif'
+const TITLE_FONT = 'bold 14px sans-serif'
+const TICK_LENGTH = 5
+const COLORBAR_WIDTH = 14
+// Pixels per tick label, to pick how many ticks fit along an axis
+const TIME_TICK_SPACING = 80
+const FREQUENCY_TICK_SPACING = 40
+
+// Spacing around the plot for the tick labels, axis titles, title and colour bar
+function getMargins(title: string | undefined, colorbar: boolean) {
+  return {
+    top: title ? 32 : 12,
+    right: colorbar ? 90 : 16,
+    bottom: 44,
+    left: 68,
+  }
+}
+
+function getColorbarTicks(
+  magnitudeScale: MagnitudeScale,
+  image: SpectrogramImage,
+): { title: string; ticks: AxisTick[] } {
+  if (magnitudeScale.mode === 'db') {
+    let { minDb, maxDb } = getDbLevels(magnitudeScale, image)
+    let decimals = getNiceStep(maxDb - minDb, 6) < 1 ? 1 : 0
+    return {
+      title: magnitudeScale.reference === 'peak' ? 'dB' : 'dBFS',
+      ticks: getNiceTicks(minDb, maxDb, 6).map(value => ({
+        value,
+        position: (value - minDb) / (maxDb - minDb),
+        label: value.toFixed(decimals),
+      })),
+    }
+  }
+  // log1p maps ln(1 + magnitude) from 0 to ln(256) onto the colormap
+  let max = Math.log1p(255)
+  return {
+    title: 'ln(1+|X|)',
+    ticks: getNiceTicks(0, max, 6).map(value => ({
+      value,
+      position: value / max,
+      label: String(value),
+    })),
+  }
+}
+
+// Axes, tick labels and titles around the plot area
+function getExportShapes(inputs: {
+  width: number
+  plot: Rect
+  title: string | undefined
+  startTime: number
+  endTime: number
+  axis: FrequencyAxis
+  colorbar: Rect | null
+  colorbarTicks: { title: string; ticks: AxisTick[] } | null
+}) {
+  let { width, plot, title, startTime, endTime, axis, colorbar } = inputs
+  let shapes: ExportShape[] = []
+  let plotBottom = plot.y + plot.height
+  let plotRight = plot.x + plot.width
+
+  let text = (
+    x: number,
+    y: number,
+    text: string,
+    align: 'start' | 'middle' | 'end',
+    baseline: 'top' | 'middle' | 'bottom',
+    font = LABEL_FONT,
+    vertical = false,
+  ) => {
+    shapes.push({ type: 'text', x, y, text, align, baseline, font, vertical })
+  }
+  let line = (x1: number, y1: number, x2: number, y2: number) => {
+    shapes.push({ type: 'line', x1, y1, x2, y2 })
+  }
+
+  if (title) {
+    text(width / 2, 8, title, 'middle', 'top', TITLE_FONT)
+  }
+
+  // Frame around the plot
+  line(plot.x, plot.y, plotRight, plot.y)
+  line(plotRight, plot.y, plotRight, plotBottom)
+  line(plotRight, plotBottom, plot.x, plotBottom)
+  line(plot.x, plotBottom, plot.x, plot.y)
+
+  let timeTicks = getTimeTicks(
+    startTime,
+    endTime,
+    Math.max(2, Math.floor(plot.width / TIME_TICK_SPACING)),
+  )
+  for (let tick of timeTicks) {
+    let x = plot.x + tick.position * plot.width
+    line(x, plotBottom, x, plotBottom + TICK_LENGTH)
+    text(x, plotBottom + TICK_LENGTH + 2, tick.label, 'middle', 'top')
+  }
+  text(plot.x + plot.width / 2, plotBottom + 28, 'Time (s)', 'middle', 'top')
+
+  let frequencyTicks = getFrequencyTicks(
+    axis,
+    Math.max(2, Math.floor(plot.height / FREQUENCY_TICK_SPACING)),
+  )
+  for (let tick of frequencyTicks) {
+    let y = plotBottom - tick.position * plot.height
+    line(plot.x - TICK_LENGTH, y, plot.x, y)
+    text(plot.x - TICK_LENGTH - 2, y, tick.label, 'end', 'middle')
+  }
+  text(
+    4,
+    plot.y + plot.height / 2,
+    'Frequency (Hz)',
+    'middle',
+    'top',
+    LABEL_FONT,
+    true,
+  )
+
+  if (colorbar && inputs.colorbarTicks) {
+    let barRight = colorbar.x + colorbar.width
+    let barBottom = colorbar.y + colorbar.height
+    line(colorbar.x, colorbar.y, barRight, colorbar.y)
+    line(barRight, colorbar.y, barRight, barBottom)
+    line(barRight, barBottom, colorbar.x, barBottom)
+    line(colorbar.x, barBottom, colorbar.x, colorbar.y)
+    for (let tick of inputs.colorbarTicks.ticks) {
+      let y = barBottom - tick.position * colorbar.height
+      line(barRight, y, barRight + TICK_LENGTH, y)
+      text(barRight + TICK_LENGTH + 2, y, tick.label, 'start', 'middle')
+    }
+    text(
+      colorbar.x + colorbar.width / 2,
+      colorbar.y - 4,
+      inputs.colorbarTicks.title,
+      'middle',
+      'bottom',
+    )
+  }
+  return shapes
+}
+
+function drawShapes(context: CanvasRenderingContext2D, shapes: ExportShape[]) {
+  context.strokeStyle = '#000'
+  context.fillStyle = '#000'
+  context.lineWidth = 1
+  for (let shape of shapes) {
+    if (shape.type === 'line') {
+      context.beginPath()
+      // Half-pixel offsets keep 1px lines sharp
+      context.moveTo(Math.round(shape.x1) + 0.5, Math.round(shape.y1) + 0.5)
+      context.lineTo(Math.round(shape.x2) + 0.5, Math.round(shape.y2) + 0.5)
+      context.stroke()
+      continue
+    }
+    context.save()
+    context.font = shape.font
+    context.textAlign = shape.align === 'middle' ? 'center' : shape.align
+    context.textBaseline = shape.baseline
+    context.translate(shape.x, shape.y)
+    if (shape.vertical) {
+      context.rotate(-Math.PI / 2)
+    }
+    context.fillText(shape.text, 0, 0)
+    context.restore()
+  }
+}
+
+function escapeXml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function shapeToSvg(shape: ExportShape) {
+  if (shape.type === 'line') {
+    let { x1, y1, x2, y2 } = shape
+    return `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="#000" />`
+  }
+  let baseline = {
+    top: 'hanging',
+    middle: 'central',
+    bottom: 'text-after-edge',
+  }[shape.baseline]
+  let transform = shape.vertical
+    ? ` transform="rotate(-90 ${shape.x} ${shape.y})"`
+    : ''
+  return `<text x="${shape.x}" y="${shape.y}" text-anchor="${
+    shape.align
+  }" dominant-baseline="${baseline}" style="font: ${
+    shape.font
+  }"${transform}>${escapeXml(shape.text)}</text>`
+}
+
+function createCanvas(width: number, height: number) {
+  let canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  return canvas
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement) {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob)
+      } else {
+        reject(new Error('Failed to encode the image as PNG'))
+      }
+    }, 'image/png')
+  })
+}
+
+// Render a spectrogram offscreen with time and frequency axes, a title and a colour bar,
+// as a PNG or an SVG (vector axes and text around the embedded spectrogram pixels)
+export async function exportSpectrogramImage(
+  options: SpectrogramExportOptions,
+): Promise<Blob> {
+  let { audioData, sampleRate, windowSize, hopSize, title } = options
+  let width = Math.floor(options.width)
+  let height = Math.floor(options.height)
+  let format = options.format ?? 'png'
+  if (format !== 'png' && format !== 'svg') {
+    throw new Error(`Unsupported export format: ${format}`)
+  }
+  let showColorbar = options.colorbar ?? true
+  let colormap = options.colormap ?? DEFAULT_COLORMAP
+  let magnitudeScale = options.magnitudeScale ?? DEFAULT_MAGNITUDE_SCALE
+  let scale = options.frequencyScale ?? 'linear'
+  let fftSize = getFftSize(windowSize, options.fftSize)
+  let binWidth = sampleRate / fftSize
+
+  let margins = getMargins(title, showColorbar)
+  let plot: Rect = {
+    x: margins.left,
+    y: margins.top,
+    width: width - margins.left - margins.right,
+    height: height - margins.top - margins.bottom,
+  }
+  if (plot.width <= 0 || plot.height <= 0) {
+    throw new Error(
+      `Export size ${width}x${height} is too small for the axes, at least ${
+        margins.left + margins.right + 1
+      }x${margins.top + margins.bottom + 1} is needed`,
+    )
+  }
+
+  let totalFrameCount = getFrameCount(audioData.length, windowSize, hopSize)
+  let [frameStart, frameEnd] = getRenderFrameRange(
+    totalFrameCount,
+    options.startTime === undefined
+      ? undefined
+      : Math.floor((options.startTime * sampleRate) / hopSize),
+    options.endTime === undefined
+      ? undefined
+      : Math.ceil((options.endTime * sampleRate) / hopSize),
+  )
+  if (frameEnd <= frameStart) {
+    throw new Error('Invalid time range: startTime must be less than endTime')
+  }
+
+  let maxFrequency =
+    options.highHz === undefined
+      ? options.maxFrequency
+      : Math.min(fftSize / 2, Math.ceil(options.highHz / binWidth))
+  let lowHz = options.lowHz ?? 0
+  if (lowHz >= maxFrequency * binWidth) {
+    throw new Error(
+      `Invalid frequency range: lowHz (${lowHz}) must be less than highHz (${
+        maxFrequency * binWidth
+      })`,
+    )
+  }
+  let axis: FrequencyAxis = { scale, binCount: maxFrequency, binWidth }
+  if (lowHz > 0) {
+    axis.minHz = lowHz
+  }
+
+  let reportProgress = createProgressReporter(options.onProgress)
+  let image = await computeSpectrogramImage({
+    ...options,
+    maxFrequency,
+    lowHz,
+    width: plot.width,
+    height: plot.height,
+    frameStart,
+    frameEnd,
+    frequencyScale: scale,
+    onColumns: (_image, _columnStart, columnEnd) => {
+      reportProgress(columnEnd / plot.width)
+    },
+  })
+  if (options.signal?.aborted) {
+    throw new Error('Spectrogram export was aborted')
+  }
+
+  let plotCanvas = createCanvas(plot.width, plot.height)
+  let plotContext = plotCanvas.getContext('2d')!
+  let imageData = plotContext.createImageData(plot.width, plot.height)
+  paintSpectrogramImage(imageData.data, image, colormap, magnitudeScale)
+  plotContext.putImageData(imageData, 0, 0)
+
+  let colorbar: Rect | null = null
+  let colorbarCanvas: HTMLCanvasElement | null = null
+  if (showColorbar) {
+    colorbar = {
+      x: plot.x + plot.width + 16,
+      y: plot.y + 16,
+      width: COLORBAR_WIDTH,
+      height: Math.max(1, plot.height - 16),
+    }
+    colorbarCanvas = createCanvas(colorbar.width, colorbar.height)
+    drawColorbar(colorbarCanvas, colormap, 'vertical')
+  }
+
+  let shapes = getExportShapes({
+    width,
+    plot,
+    title,
+    startTime: (frameStart * hopSize) / sampleRate,
+    endTime: (frameEnd * hopSize) / sampleRate,
+    axis,
+    colorbar,
+    colorbarTicks: showColorbar
+      ? getColorbarTicks(magnitudeScale, image)
+      : null,
+  })
+
+  options.onProgress?.({ percent: 100, etaMs: 0 })
+
+  if (format === 'svg') {
+    let images = [
+      `<image x="${plot.x}" y="${plot.y}" width="${plot.width}" height="${
+        plot.height
+      }" preserveAspectRatio="none" href="${plotCanvas.toDataURL(
+        'image/png',
+      )}" />`,
+    ]
+    if (colorbar && colorbarCanvas) {
+      images.push(
+        `<image x="${colorbar.x}" y="${colorbar.y}" width="${
+          colorbar.width
+        }" height="${
+          colorbar.height
+        }" preserveAspectRatio="none" href="${colorbarCanvas.toDataURL(
+          'image/png',
+        )}" />`,
+      )
+    }
+    let svg = [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+      `<rect width="${width}" height="${height}" fill="#fff" />`,
+      ...images,
+      ...shapes.map(shapeToSvg),
+      '</svg>',
+    ].join('\n')
+    return new Blob([svg], { type: 'image/svg+xml' })
+  }
+
+  let canvas = createCanvas(width, height)
+  let context = canvas.getContext('2d')!
+  context.fillStyle = '#fff'
+  context.fillRect(0, 0, width, height)
+  context.drawImage(plotCanvas, plot.x, plot.y)
+  if (colorbar && colorbarCanvas) {
+    context.drawImage(colorbarCanvas, colorbar.x, colorbar.y)
+  }
+  drawShapes(context, shapes)
+  return canvasToBlob(canvas)
+}
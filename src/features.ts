@@ -0,0 +1,231 @@
+import { getFullScaleMagnitude } from './magnitude-scale'
+import {
+  forEachFrameMagnitudeBlock,
+  getFftSize,
+  getFrameAtTime,
+  getFrameCenterTimes,
+  getFrameCount,
+  getRenderFrameRange,
+  SpectrumAnalysisOptions,
+} from './spectrogram'
+import { createWindow } from './window-function'
+
+export type SpectralFeatureName =
+  | 'centroid'
+  | 'rolloff'
+  | 'flatness'
+  | 'bandwidth'
+  | 'flux'
+  | 'rms'
+  | 'zcr'
+
+export const SPECTRAL_FEATURES: SpectralFeatureName[] = [
+  'centroid',
+  'rolloff',
+  'flatness',
+  'bandwidth',
+  'flux',
+  'rms',
+  'zcr',
+]
+
+// Unit of each feature, empty for ratios and levels relative to full scale
+export const SPECTRAL_FEATURE_UNITS: Record<SpectralFeatureName, string> = {
+  centroid: 'Hz',
+  rolloff: 'Hz',
+  flatness: '',
+  bandwidth: 'Hz',
+  flux: '',
+  rms: '',
+  zcr: '',
+}
+
+export type SpectralFeatureOptions = SpectrumAnalysisOptions & {
+  // Features to compute, defaults to all; rms and zcr alone need no FFT
+  features?: SpectralFeatureName[]
+  // Fraction of the spectral magnitude below the rolloff frequency, defaults to 0.85
+  rolloffPercent?: number
+  frameStart?: number
+  frameEnd?: number
+}
+
+// One value per frame of [frameStart, frameEnd), aligned with the spectrogram frames (hopSize apart)
+export type SpectralFeatures = {
+  frameStart: number
+  frameEnd: number
+  // Centre time (seconds) of each frame, as from getFrameCenterTimes
+  times: Float32Array
+  features: Partial<Record<SpectralFeatureName, Float32Array>>
+}
+
+// Keeps the flatness defined for silent bins
+const FLATNESS_EPSILON = 1e-10
+
+const SPECTRUM_FEATURES: SpectralFeatureName[] = [
+  'centroid',
+  'rolloff',
+  'flatness',
+  'bandwidth',
+  'flux',
+]
+
+// Compute spectral features of each frame, framed like drawSpectrogram:
+// - centroid: magnitude-weighted mean frequency (Hz)
+// - bandwidth: magnitude-weighted standard deviation around the centroid (Hz)
+// - rolloff: frequency below which rolloffPercent of the magnitude lies (Hz)
+// - flatness: geometric over arithmetic mean of the power spectrum, 0 (tonal) to 1 (white noise)
+// - flux: L2 norm of the magnitude increases since the previous frame, relative to full scale
+// - rms: RMS level of the (unwindowed) frame samples, 1 for a full-scale square wave
+// - zcr: fraction of adjacent samples of the frame with a sign change
+// Silent frames have a centroid, bandwidth and rolloff of 0.
+export async function getSpectralFeatures(
+  options: SpectralFeatureOptions,
+): Promise<SpectralFeatures> {
+  let { audioData, sampleRate, windowSize, hopSize } = options
+  let fftSize = getFftSize(windowSize, options.fftSize)
+  let names = options.features ?? SPECTRAL_FEATURES
+  let rolloffPercent = options.rolloffPercent ?? 0.85
+  if (!(rolloffPercent > 0 && rolloffPercent <= 1)) {
+    throw new Error(
+      `rolloffPercent must be above 0 and at most 1, got ${rolloffPercent}`,
+    )
+  }
+
+  let totalFrameCount = getFrameCount(audioData.length, windowSize, hopSize)
+  let [frameStart, frameEnd] = getRenderFrameRange(
+    totalFrameCount,
+    options.frameStart,
+    options.frameEnd,
+  )
+  let frameCount = Math.max(0, frameEnd - frameStart)
+  let result: SpectralFeatures = {
+    frameStart,
+    frameEnd: frameStart + frameCount,
+    times: getFrameCenterTimes(
+      frameStart,
+      frameStart + frameCount,
+      sampleRate,
+      windowSize,
+      hopSize,
+    ),
+    features: {},
+  }
+  for (let name of names) {
+    result.features[name] = new Float32Array(frameCount)
+  }
+  let { centroid, rolloff, flatness, bandwidth, flux, rms, zcr } =
+    result.features
+  for (let i = 0; i < frameCount; i++) {
+    let start = (frameStart + i) * hopSize
+    if (!rms && !zcr) continue
+    let end = Math.min(start + windowSize, audioData.length)
+    let sumOfSquares = 0
+    let crossings = 0
+    for (let j = start; j < end; j++) {
+      sumOfSquares += audioData[j] * audioData[j]
+      if (j > start && audioData[j] >= 0 !== audioData[j - 1] >= 0) {
+        crossings++
+      }
+    }
+    if (rms) rms[i] = Math.sqrt(sumOfSquares / windowSize)
+    if (zcr) zcr[i] = crossings / (windowSize - 1)
+  }
+  if (!names.some(name => SPECTRUM_FEATURES.includes(name))) return result
+
+  let binCount = fftSize / 2
+  let binWidth = sampleRate / fftSize
+  let fullScaleMagnitude = getFullScaleMagnitude(
+    createWindow(windowSize, options),
+  )
+  // The flux of the first frame compares with the frame before it, if any
+  let firstFrame = flux ? Math.max(0, frameStart - 1) : frameStart
+  let previous: Float32Array | null = null
+  await forEachFrameMagnitudeBlock(
+    {
+      ...options,
+      fftSize,
+      binCount,
+      frameStart: firstFrame,
+      frameEnd: frameStart + frameCount,
+      label: 'Spectral feature extraction',
+    },
+    (magnitudes, blockStart, blockEnd) => {
+      for (let frame = blockStart; frame < blockEnd; frame++) {
+        let spectrum = magnitudes.subarray(
+          (frame - blockStart) * binCount,
+          (frame - blockStart + 1) * binCount,
+        )
+        let i = frame - frameStart
+        if (i < 0) {
+          previous = spectrum
+          continue
+        }
+        let sum = 0
+        let weightedSum = 0
+        let logPowerSum = 0
+        let powerSum = 0
+        for (let bin = 0; bin < binCount; bin++) {
+          let magnitude = spectrum[bin]
+          sum += magnitude
+          weightedSum += magnitude * bin * binWidth
+          let power = magnitude * magnitude + FLATNESS_EPSILON
+          logPowerSum += Math.log(power)
+          powerSum += power
+        }
+        let mean = sum > 0 ? weightedSum / sum : 0
+        if (centroid) centroid[i] = mean
+        if (bandwidth && sum > 0) {
+          let variance = 0
+          for (let bin = 0; bin < binCount; bin++) {
+            let distance = bin * binWidth - mean
+            variance += spectrum[bin] * distance * distance
+          }
+          bandwidth[i] = Math.sqrt(variance / sum)
+        }
+        if (rolloff && sum > 0) {
+          let threshold = rolloffPercent * sum
+          let cumulative = 0
+          let bin = 0
+          while (bin < binCount - 1) {
+            cumulative += spectrum[bin]
+            if (cumulative >= threshold) break
+            bin++
+          }
+          rolloff[i] = bin * binWidth
+        }
+        if (flatness) {
+          flatness[i] = Math.exp(logPowerSum / binCount) / (powerSum / binCount)
+        }
+        if (flux && previous) {
+          let increase = 0
+          for (let bin = 0; bin < binCount; bin++) {
+            let difference = spectrum[bin] - previous[bin]
+            if (difference > 0) increase += difference * difference
+          }
+          flux[i] = Math.sqrt(increase) / fullScaleMagnitude
+        }
+        previous = spectrum
+      }
+    },
+  )
+  return result
+}
+
+// Feature values of the frame centred nearest to a time, null outside the frames
+export function getSpectralFeaturesAtTime(
+  result: SpectralFeatures,
+  time: number,
+  sampleRate: number,
+  windowSize: number,
+  hopSize: number,
+) {
+  let index =
+    getFrameAtTime(time, sampleRate, windowSize, hopSize) - result.frameStart
+  if (index < 0 || index >= result.times.length) return null
+  let values: Partial<Record<SpectralFeatureName, number>> = {}
+  for (let name of SPECTRAL_FEATURES) {
+    let series = result.features[name]
+    if (series) values[name] = series[index]
+  }
+  return values
+}
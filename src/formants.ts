@@ -0,0 +1,413 @@
+import { getNiceStep, getStepDecimals } from './axis'
+import {
+  forEachFrameBlock,
+  FrameAnalysisOptions,
+  getFrameAtTime,
+  getFrameCenterTimes,
+  getFrameCount,
+  getRenderFrameRange,
+} from './spectrogram'
+
+// Each frame is analysed around its centre
+export type FormantTrackOptions = FrameAnalysisOptions & {
+  // Number of formants kept per frame (F1, F2, ...), defaults to 4
+  formantCount?: number
+  // Highest formant searched, the audio is decimated to twice this rate (5000 Hz suits male, 5500 Hz female voices)
+  maxFormantHz?: number
+  // Length of the LPC analysis window in milliseconds, shorter than the spectrogram window
+  windowMs?: number
+  // Order of the LPC polynomial, defaults to two poles per formant and one pair more,
+  // more when the audio cannot be decimated to exactly twice maxFormantHz
+  lpcOrder?: number
+  frameStart?: number
+  frameEnd?: number
+}
+
+// Formants of frames [frameStart, frameEnd), one row of formantCount values per frame
+export type FormantTrack = {
+  frameStart: number
+  frameEnd: number
+  formantCount: number
+  // Centre time (seconds) of each frame, as from getFrameCenterTimes
+  times: Float32Array
+  // Row-major frames x formantCount centre frequencies in Hz, NaN where a frame has fewer resonances
+  frequencies: Float32Array
+  // -3 dB bandwidths in Hz, in the same layout
+  bandwidths: Float32Array
+}
+
+export type Formant = {
+  frequency: number
+  bandwidth: number
+}
+
+export type VowelSpacePoint = {
+  time: number
+  f1: number
+  f2: number
+}
+
+export const DEFAULT_FORMANT_COUNT = 4
+export const DEFAULT_MAX_FORMANT_HZ = 5500
+export const DEFAULT_FORMANT_WINDOW_MS = 25
+
+// Frames quieter than this RMS (-80 dBFS) have no formants
+const SILENCE_RMS = 1e-4
+// Resonances this close to 0 Hz or the top of the range are filter edges, not formants
+const FORMANT_EDGE_HZ = 50
+// Wider poles shape the spectral tilt rather than a resonance
+const MAX_FORMANT_BANDWIDTH_HZ = 1000
+// Lowest frequency boosted by the pre-emphasis, flattening the spectral tilt of the glottal source
+const PRE_EMPHASIS_HZ = 50
+
+// Windowed-sinc low-pass filter for decimating by factor
+function createDecimationFilter(factor: number) {
+  let halfLength = 8 * factor
+  let cutoff = 0.5 / factor
+  let taps = new Float64Array(2 * halfLength + 1)
+  let sum = 0
+  for (let i = 0; i < taps.length; i++) {
+    let t = i - halfLength
+    let sinc = t === 0 ? 1 : Math.sin(2 * Math.PI * cutoff * t) / (Math.PI * t)
+    let hamming = 0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (taps.length - 1))
+    taps[i] = (t === 0 ? 2 * cutoff : sinc) * hamming
+    sum += taps[i]
+  }
+  for (let i = 0; i < taps.length; i++) {
+    taps[i] /= sum
+  }
+  return taps
+}
+
+// Predictor coefficients a[1..order] of the autocorrelation r with Levinson-Durbin,
+// a[0] = 1 so that A(z) = 1 + a1 z^-1 + ... is the inverse filter
+function getLpcCoefficients(r: Float64Array, order: number) {
+  let a = new Float64Array(order + 1)
+  let previous = new Float64Array(order + 1)
+  a[0] = 1
+  let error = r[0]
+  for (let i = 1; i <= order; i++) {
+    let sum = r[i]
+    for (let j = 1; j < i; j++) {
+      sum += a[j] * r[i - j]
+    }
+    let reflection = -sum / error
+    previous.set(a)
+    for (let j = 1; j < i; j++) {
+      a[j] = previous[j] + reflection * previous[i - j]
+    }
+    a[i] = reflection
+    error *= 1 - reflection * reflection
+    if (!(error > 0)) break
+  }
+  return a
+}
+
+// Complex roots of the monic polynomial z^n + c[1] z^(n-1) + ... + c[n] with Durand-Kerner iteration
+function findPolynomialRoots(c: Float64Array) {
+  let degree = c.length - 1
+  let re = new Float64Array(degree)
+  let im = new Float64Array(degree)
+  // Distinct starting points on a circle, not symmetric to the real axis
+  for (let i = 0; i < degree; i++) {
+    let angle = (2 * Math.PI * i) / degree + 0.4
+    re[i] = 0.9 * Math.cos(angle)
+    im[i] = 0.9 * Math.sin(angle)
+  }
+  for (let iteration = 0; iteration < 500; iteration++) {
+    let maxChange = 0
+    for (let i = 0; i < degree; i++) {
+      let zr = re[i]
+      let zi = im[i]
+      // Value of the polynomial at z, by Horner's rule
+      let pr = 1
+      let pi = 0
+      for (let k = 1; k <= degree; k++) {
+        let nextReal = pr * zr - pi * zi + c[k]
+        pi = pr * zi + pi * zr
+        pr = nextReal
+      }
+      // Product of the distances to the other roots
+      let dr = 1
+      let di = 0
+      for (let j = 0; j < degree; j++) {
+        if (j === i) continue
+        let xr = zr - re[j]
+        let xi = zi - im[j]
+        let nextReal = dr * xr - di * xi
+        di = dr * xi + di * xr
+        dr = nextReal
+      }
+      let denominator = dr * dr + di * di
+      if (denominator === 0) {
+        re[i] += 1e-6
+        continue
+      }
+      let deltaReal = (pr * dr + pi * di) / denominator
+      let deltaImag = (pi * dr - pr * di) / denominator
+      re[i] = zr - deltaReal
+      im[i] = zi - deltaImag
+      maxChange = Math.max(maxChange, Math.hypot(deltaReal, deltaImag))
+    }
+    if (maxChange < 1e-10) break
+  }
+  return { re, im }
+}
+
+// Estimate formants (F1, F2, ...) and their bandwidths for each frame with LPC:
+// the audio around the centre of each frame is low-passed and decimated to twice maxFormantHz,
+// pre-emphasized and Hamming windowed, and the poles of the all-pole model give the resonances.
+export async function getFormantTrack(
+  options: FormantTrackOptions,
+): Promise<FormantTrack> {
+  let { audioData, sampleRate, windowSize, hopSize, signal } = options
+  let formantCount = options.formantCount ?? DEFAULT_FORMANT_COUNT
+  let maxFormantHz = options.maxFormantHz ?? DEFAULT_MAX_FORMANT_HZ
+  let windowMs = options.windowMs ?? DEFAULT_FORMANT_WINDOW_MS
+  if (!Number.isInteger(formantCount) || formantCount < 1) {
+    throw new Error(
+      `formantCount must be a positive integer, got ${formantCount}`,
+    )
+  }
+  if (!(maxFormantHz > FORMANT_EDGE_HZ * 2)) {
+    throw new Error(`maxFormantHz must be above ${FORMANT_EDGE_HZ * 2} Hz`)
+  }
+
+  let factor = Math.max(1, Math.floor(sampleRate / (2 * maxFormantHz)))
+  let analysisRate = sampleRate / factor
+  // Resonances above maxFormantHz need poles too
+  let order =
+    options.lpcOrder ??
+    2 * Math.round(((formantCount + 1) * analysisRate) / (2 * maxFormantHz))
+  if (!Number.isInteger(order) || order < 2 * formantCount) {
+    throw new Error(
+      `lpcOrder (${order}) must be an integer of at least twice the formant count`,
+    )
+  }
+  let filter = factor > 1 ? createDecimationFilter(factor) : null
+  let halfFilter = filter ? (filter.length - 1) / 2 : 0
+  let length = Math.round((windowMs / 1000) * analysisRate)
+  if (length <= order) {
+    throw new Error(
+      `The LPC window (${windowMs} ms) must be longer than the order (${order}) in samples`,
+    )
+  }
+  let preEmphasis = Math.exp((-2 * Math.PI * PRE_EMPHASIS_HZ) / analysisRate)
+  let window = new Float64Array(length)
+  for (let i = 0; i < length; i++) {
+    window[i] = 0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (length - 1))
+  }
+  let topHz = Math.min(maxFormantHz, analysisRate / 2) - FORMANT_EDGE_HZ
+
+  let totalFrameCount = getFrameCount(audioData.length, windowSize, hopSize)
+  let [frameStart, frameEnd] = getRenderFrameRange(
+    totalFrameCount,
+    options.frameStart,
+    options.frameEnd,
+  )
+  let frameCount = Math.max(0, frameEnd - frameStart)
+  let track: FormantTrack = {
+    frameStart,
+    frameEnd: frameStart + frameCount,
+    formantCount,
+    times: getFrameCenterTimes(
+      frameStart,
+      frameStart + frameCount,
+      sampleRate,
+      windowSize,
+      hopSize,
+    ),
+    frequencies: new Float32Array(frameCount * formantCount).fill(NaN),
+    bandwidths: new Float32Array(frameCount * formantCount).fill(NaN),
+  }
+
+  let segment = new Float64Array(length)
+  let r = new Float64Array(order + 1)
+  await forEachFrameBlock(
+    {
+      signal,
+      // One LPC window per frame, blocks are as long as for an FFT of the frame
+      fftSize: windowSize,
+      frameStart,
+      frameEnd: frameStart + frameCount,
+      label: 'Formant tracking',
+      onProgress: options.onProgress,
+    },
+    (blockStart, blockEnd) => {
+      for (let frame = blockStart; frame < blockEnd; frame++) {
+        let index = frame - frameStart
+        // Decimated samples centred on the frame, zero outside the audio
+        let first =
+          frame * hopSize + Math.floor(windowSize / 2) - (length / 2) * factor
+        let energy = 0
+        for (let k = 0; k < length; k++) {
+          let center = Math.round(first + k * factor)
+          let value = 0
+          if (filter) {
+            for (let t = -halfFilter; t <= halfFilter; t++) {
+              let sampleIndex = center - t
+              if (sampleIndex >= 0 && sampleIndex < audioData.length) {
+                value += filter[t + halfFilter] * audioData[sampleIndex]
+              }
+            }
+          } else if (center >= 0 && center < audioData.length) {
+            value = audioData[center]
+          }
+          segment[k] = value
+          energy += value * value
+        }
+        if (Math.sqrt(energy / length) < SILENCE_RMS) continue
+        for (let k = length - 1; k > 0; k--) {
+          segment[k] = (segment[k] - preEmphasis * segment[k - 1]) * window[k]
+        }
+        segment[0] *= window[0]
+
+        for (let lag = 0; lag <= order; lag++) {
+          let sum = 0
+          for (let k = lag; k < length; k++) {
+            sum += segment[k] * segment[k - lag]
+          }
+          r[lag] = sum
+        }
+        if (!(r[0] > 0)) continue
+        let { re, im } = findPolynomialRoots(getLpcCoefficients(r, order))
+
+        let formants: Formant[] = []
+        for (let i = 0; i < re.length; i++) {
+          // One of each conjugate pair
+          if (!(im[i] > 0)) continue
+          let frequency =
+            (Math.atan2(im[i], re[i]) * analysisRate) / (2 * Math.PI)
+          let bandwidth =
+            (-Math.log(Math.hypot(re[i], im[i])) * analysisRate) / Math.PI
+          if (
+            frequency > FORMANT_EDGE_HZ &&
+            frequency < topHz &&
+            bandwidth < MAX_FORMANT_BANDWIDTH_HZ
+          ) {
+            formants.push({ frequency, bandwidth })
+          }
+        }
+        formants.sort((a, b) => a.frequency - b.frequency)
+        let offset = index * formantCount
+        for (let i = 0; i < formantCount && i < formants.length; i++) {
+          track.frequencies[offset + i] = formants[i].frequency
+          track.bandwidths[offset + i] = formants[i].bandwidth
+        }
+      }
+    },
+  )
+  return track
+}
+
+// Formants of the frame centred nearest to a time, null outside the track
+export function getFormantsAtTime(
+  track: FormantTrack,
+  time: number,
+  sampleRate: number,
+  windowSize: number,
+  hopSize: number,
+): Formant[] | null {
+  let index =
+    getFrameAtTime(time, sampleRate, windowSize, hopSize) - track.frameStart
+  if (index < 0 || index >= track.times.length) return null
+  let formants: Formant[] = []
+  for (let i = 0; i < track.formantCount; i++) {
+    formants.push({
+      frequency: track.frequencies[index * track.formantCount + i],
+      bandwidth: track.bandwidths[index * track.formantCount + i],
+    })
+  }
+  return formants
+}
+
+// F1 and F2 of the frames in a time range (seconds) where both are found
+export function getVowelSpacePoints(
+  track: FormantTrack,
+  startTime = -Infinity,
+  endTime = Infinity,
+): VowelSpacePoint[] {
+  let points: VowelSpacePoint[] = []
+  if (track.formantCount < 2) return points
+  for (let i = 0; i < track.times.length; i++) {
+    let time = track.times[i]
+    if (time < startTime || time > endTime) continue
+    let f1 = track.frequencies[i * track.formantCount]
+    let f2 = track.frequencies[i * track.formantCount + 1]
+    if (Number.isFinite(f1) && Number.isFinite(f2)) {
+      points.push({ time, f1, f2 })
+    }
+  }
+  return points
+}
+
+// Plot F1 against F2 like a vowel chart: F2 decreasing to the right, F1 increasing downwards,
+// so front vowels are on the left and open vowels at the bottom
+export function drawVowelSpace(
+  canvas: HTMLCanvasElement,
+  points: VowelSpacePoint[],
+  options: { maxF1?: number; maxF2?: number } = {},
+) {
+  let context = canvas.getContext('2d')!
+  let { width, height } = canvas
+  let margin = { left: 12, right: 56, top: 32, bottom: 12 }
+  let plotWidth = width - margin.left - margin.right
+  let plotHeight = height - margin.top - margin.bottom
+  // Typical adult vowels fit, the range grows for higher points
+  let maxF1 =
+    options.maxF1 ??
+    points.reduce((max, point) => Math.max(max, point.f1), 1000)
+  let maxF2 =
+    options.maxF2 ??
+    points.reduce((max, point) => Math.max(max, point.f2), 3000)
+  let f2ToX = (f2: number) => margin.left + (1 - f2 / maxF2) * plotWidth
+  let f1ToY = (f1: number) => margin.top + (f1 / maxF1) * plotHeight
+
+  context.clearRect(0, 0, width, height)
+  context.fillStyle = '#fff'
+  context.fillRect(0, 0, width, height)
+  context.strokeStyle = '#ccc'
+  context.fillStyle = '#000'
+  context.lineWidth = 1
+  context.font = '11px sans-serif'
+
+  // F2 ticks along the top, F1 ticks down the right side
+  let f2Step = getNiceStep(maxF2, Math.max(2, Math.floor(plotWidth / 60)))
+  context.textAlign = 'center'
+  context.textBaseline = 'bottom'
+  for (let f2 = 0; f2 <= maxF2; f2 += f2Step) {
+    let x = Math.round(f2ToX(f2)) + 0.5
+    context.beginPath()
+    context.moveTo(x, margin.top)
+    context.lineTo(x, margin.top + plotHeight)
+    context.stroke()
+    context.fillText(f2.toFixed(getStepDecimals(f2Step)), x, margin.top - 4)
+  }
+  let f1Step = getNiceStep(maxF1, Math.max(2, Math.floor(plotHeight / 30)))
+  context.textAlign = 'left'
+  context.textBaseline = 'middle'
+  for (let f1 = 0; f1 <= maxF1; f1 += f1Step) {
+    let y = Math.round(f1ToY(f1)) + 0.5
+    context.beginPath()
+    context.moveTo(margin.left, y)
+    context.lineTo(margin.left + plotWidth, y)
+    context.stroke()
+    context.fillText(
+      f1.toFixed(getStepDecimals(f1Step)),
+      margin.left + plotWidth + 4,
+      y,
+    )
+  }
+  context.textAlign = 'right'
+  context.textBaseline = 'top'
+  context.fillText('F2 (Hz)', margin.left + plotWidth, 2)
+  context.textAlign = 'left'
+  context.fillText('F1 (Hz)', margin.left + plotWidth + 4, height - 14)
+
+  context.fillStyle = 'rgba(200, 0, 120, 0.5)'
+  for (let point of points) {
+    context.beginPath()
+    context.arc(f2ToX(point.f2), f1ToY(point.f1), 2.5, 0, 2 * Math.PI)
+    context.fill()
+  }
+}
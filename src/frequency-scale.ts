@@ -0,0 +1,133 @@
+export type FrequencyScale = 'linear' | 'log' | 'mel' | 'bark'
+
+export const FREQUENCY_SCALES: FrequencyScale[] = [
+  'linear',
+  'log',
+  'mel',
+  'bark',
+]
+
+// Describe how FFT bins are laid out on a vertical axis
+export type FrequencyAxis = {
+  scale: FrequencyScale
+  // Number of FFT bins shown (0 to binCount-1)
+  binCount: number
+  // Hz per FFT bin (sampleRate / fftSize)
+  binWidth: number
+  // Lowest frequency shown (Hz), defaults to 0
+  minHz?: number
+}
+
+// O'Shaughnessy mel formula, as used by HTK
+export function hzToMel(hz: number) {
+  return 2595 * Math.log10(1 + hz / 700)
+}
+
+export function melToHz(mel: number) {
+  return 700 * (Math.pow(10, mel / 2595) - 1)
+}
+
+// Traunmüller (1990) critical band rate
+export function hzToBark(hz: number) {
+  return (26.81 * hz) / (1960 + hz) - 0.53
+}
+
+export function barkToHz(bark: number) {
+  return (1960 * (bark + 0.53)) / (26.28 - bark)
+}
+
+function toScale(hz: number, scale: FrequencyScale) {
+  switch (scale) {
+    case 'linear':
+      return hz
+    case 'log':
+      return Math.log(hz)
+    case 'mel':
+      return hzToMel(hz)
+    case 'bark':
+      return hzToBark(hz)
+    default:
+      throw new Error(`Unsupported frequency scale: ${scale}`)
+  }
+}
+
+function fromScale(value: number, scale: FrequencyScale) {
+  switch (scale) {
+    case 'linear':
+      return value
+    case 'log':
+      return Math.exp(value)
+    case 'mel':
+      return melToHz(value)
+    case 'bark':
+      return barkToHz(value)
+    default:
+      throw new Error(`Unsupported frequency scale: ${scale}`)
+  }
+}
+
+// Lowest and highest frequency (Hz) shown on the axis.
+// The log scale starts at the first non-DC bin or above, since log(0) is undefined.
+export function getFrequencyAxisRange(axis: FrequencyAxis) {
+  let minHz = axis.minHz ?? 0
+  if (axis.scale === 'log') {
+    minHz = Math.max(minHz, axis.binWidth)
+  }
+  let maxHz = axis.binCount * axis.binWidth
+  return { minHz, maxHz }
+}
+
+// Map a normalized axis position (0 = lowest, 1 = highest) to Hz
+export function positionToFrequency(position: number, axis: FrequencyAxis) {
+  let { minHz, maxHz } = getFrequencyAxisRange(axis)
+  if (axis.scale === 'linear') {
+    return minHz + position * (maxHz - minHz)
+  }
+  let min = toScale(minHz, axis.scale)
+  let max = toScale(maxHz, axis.scale)
+  return fromScale(min + position * (max - min), axis.scale)
+}
+
+// Map Hz to a normalized axis position (0 = lowest, 1 = highest)
+export function frequencyToPosition(hz: number, axis: FrequencyAxis) {
+  let { minHz, maxHz } = getFrequencyAxisRange(axis)
+  if (axis.scale === 'linear') {
+    return (hz - minHz) / (maxHz - minHz)
+  }
+  let min = toScale(minHz, axis.scale)
+  let max = toScale(maxHz, axis.scale)
+  return (toScale(Math.max(hz, minHz), axis.scale) - min) / (max - min)
+}
+
+// Get the FFT bin range [start, end) covered by a canvas row.
+// y=0 is the top row (highest frequency), y=height-1 is the bottom row (lowest frequency).
+export function getRowBinRange(
+  y: number,
+  height: number,
+  axis: FrequencyAxis,
+): [number, number] {
+  let { binCount, binWidth } = axis
+  let lowPosition = (height - 1 - y) / height
+  let highPosition = (height - y) / height
+  let binIndexStart = positionToFrequency(lowPosition, axis) / binWidth
+  let binIndexEnd = positionToFrequency(highPosition, axis) / binWidth
+
+  let binStart = Math.floor(binIndexStart)
+  let binEnd = Math.ceil(binIndexEnd)
+
+  // Clamp bin range to valid values, covering at least one bin
+  binStart = Math.max(0, Math.min(binStart, binCount - 1))
+  binEnd = Math.max(binStart + 1, Math.min(binEnd, binCount))
+  return [binStart, binEnd]
+}
+
+// Pre-compute the bin range of every row, as [start0, end0, start1, end1, ...]
+export function getRowBinRanges(height: number, axis: FrequencyAxis) {
+  let ranges = new Int32Array(height * 2)
+  for (let y = 0; y < height; y++) {
+    let [binStart, binEnd] = getRowBinRange(y, height, axis)
+    ranges[y * 2] = binStart
+    ranges[y * 2 + 1] = binEnd
+  }
+  return ranges
+}
@@ -0,0 +1,94 @@
+import { Colormap, DEFAULT_COLORMAP } from './colormap'
+import { FrequencyScale } from './frequency-scale'
+import { MagnitudeCache } from './magnitude-cache'
+import { MagnitudeScale } from './magnitude-scale'
+import { paintSpectrogramImage } from './paint'
+import { RgbaImage } from './png'
+import { createProgressReporter, DrawProgress } from './progress'
+import { computeSpectrogramImage, SpectrogramImage } from './spectrogram'
+import { WindowOptions } from './window-function'
+
+export type RenderSpectrogramOptions = WindowOptions & {
+  signal?: AbortSignal
+  audioData: Float32Array
+  windowSize: number
+  hopSize: number
+  // FFT size for zero-padding, must be at least windowSize, defaults to windowSize
+  fftSize?: number
+  maxFrequency: number
+  // Lowest frequency (Hz) shown at the bottom row, needs sampleRate, defaults to 0
+  lowHz?: number
+  width: number
+  height: number
+  frameStart?: number
+  frameEnd?: number
+  colormap?: Colormap
+  // Defaults to log1p scaling of the magnitudes
+  magnitudeScale?: MagnitudeScale
+  frequencyScale?: FrequencyScale
+  // Required for non-linear frequency scales
+  sampleRate?: number
+  cache?: MagnitudeCache
+  onProgress?: (progress: DrawProgress) => void
+}
+
+// Colour the magnitudes of a spectrogram image into new RGBA pixels
+export function spectrogramImageToRgba(
+  image: SpectrogramImage,
+  colormap: Colormap = DEFAULT_COLORMAP,
+  magnitudeScale?: MagnitudeScale,
+): RgbaImage {
+  let data = new Uint8ClampedArray(image.width * image.height * 4)
+  paintSpectrogramImage(data, image, colormap, magnitudeScale)
+  return { width: image.width, height: image.height, data }
+}
+
+// Render a spectrogram into RGBA pixels without a DOM, e.g. in Node with the tfjs CPU backend.
+// Takes the options of drawSpectrogram with a width and height instead of a canvas.
+// The magnitudes are returned too, so the pixels can be re-coloured with spectrogramImageToRgba.
+export async function renderSpectrogramRgba(
+  options: RenderSpectrogramOptions,
+): Promise<RgbaImage & { image: SpectrogramImage }> {
+  let reportProgress = createProgressReporter(options.onProgress)
+  let image = await computeSpectrogramImage({
+    ...options,
+    onColumns: (image, columnStart, columnEnd) => {
+      reportProgress(columnEnd / image.width)
+    },
+  })
+  if (options.signal?.aborted) {
+    throw new Error('Spectrogram rendering was aborted')
+  }
+  options.onProgress?.({ percent: 100, etaMs: 0 })
+  return {
+    ...spectrogramImageToRgba(image, options.colormap, options.magnitudeScale),
+    image,
+  }
+}
+
+// The pixels of drawWaveform: min/max and RMS of each column in green on black
+export function renderWaveformRgba(
+  waveformData: { min: number; max: number; rms: number }[],
+  width: number,
+  height: number,
+): RgbaImage {
+  if (width <= 0 || height <= 0) {
+    throw new Error('Waveform width and height must be greater than 0')
+  }
+  let data = new Uint8ClampedArray(width * height * 4)
+  for (let i = 3; i < data.length; i += 4) {
+    data[i] = 255
+  }
+  let centerY = height / 2
+  for (let x = 0; x < waveformData.length && x < width; x++) {
+    let { min, max, rms } = waveformData[x]
+    let top = Math.min(centerY - rms * centerY, centerY - max * centerY)
+    let bottom = Math.max(centerY + rms * centerY, centerY - min * centerY)
+    let yStart = Math.max(0, Math.floor(top))
+    let yEnd = Math.min(height, Math.ceil(bottom))
+    for (let y = yStart; y < yEnd; y++) {
+      data[(y * width + x) * 4 + 1] = 255
+    }
+  }
+  return { width, height, data }
+}
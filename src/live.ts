@@ -0,0 +1,283 @@
+import { Colormap, DEFAULT_COLORMAP } from './colormap'
+import { FrequencyScale, getRowBinRanges } from './frequency-scale'
+import { getFullScaleMagnitude, MagnitudeScale } from './magnitude-scale'
+import { paintSpectrogramImage } from './paint'
+import {
+  createFrameMagnitudeTensor,
+  getBinWidth,
+  getFftSize,
+  getFrameCount,
+  SpectrogramImage,
+} from './spectrogram'
+import { createWindow, WindowOptions } from './window-function'
+
+export type LiveSpectrogramOptions = WindowOptions & {
+  // Microphone stream or any node of a Web Audio graph, multi-channel input is mixed to mono
+  source: MediaStream | AudioNode
+  // Scrolls left by one pixel column per hop, new frames appear at the right edge
+  canvas: HTMLCanvasElement
+  windowSize: number
+  hopSize: number
+  // FFT size for zero-padding, must be at least windowSize, defaults to windowSize
+  fftSize?: number
+  // Number of FFT bins shown
+  maxFrequency: number
+  // Sample rate of the AudioContext created for a MediaStream, defaults to the device rate.
+  // An AudioNode is analysed at the rate of its own context.
+  sampleRate?: number
+  colormap?: Colormap
+  // Adaptive settings (peak reference, auto-level) are shown against full scale,
+  // the whole stream is never known
+  magnitudeScale?: MagnitudeScale
+  frequencyScale?: FrequencyScale
+  // Record the samples from the start
+  record?: boolean
+  // Called when a batch of frames fails, defaults to console.error
+  onError?: (error: unknown) => void
+}
+
+export type LiveSpectrogram = {
+  audioContext: BaseAudioContext
+  sampleRate: number
+  isRecording: () => boolean
+  // Start a new recording, discarding the previous one
+  startRecording: () => void
+  // Stop recording and return the recorded mono samples
+  stopRecording: () => Float32Array
+  // Disconnect from the source, the recording is kept until stopRecording
+  stop: () => Promise<void>
+}
+
+const CAPTURE_PROCESSOR_NAME = 'audio-spectrogram-capture'
+
+// Posts a copy of every render quantum to the main thread
+const CAPTURE_PROCESSOR_SOURCE = `
+class CaptureProcessor extends AudioWorkletProcessor {
+  process(inputs) {
+    let channel = inputs[0][0]
+    if (channel) {
+      this.port.postMessage(channel.slice())
+    }
+    return true
+  }
+}
+registerProcessor('${CAPTURE_PROCESSOR_NAME}', CaptureProcessor)
+`
+
+// The processor module is registered once per context
+let capturingContexts = new WeakSet<BaseAudioContext>()
+
+async function addCaptureProcessor(context: BaseAudioContext) {
+  if (capturingContexts.has(context)) return
+  let url = URL.createObjectURL(
+    new Blob([CAPTURE_PROCESSOR_SOURCE], { type: 'application/javascript' }),
+  )
+  try {
+    await context.audioWorklet.addModule(url)
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+  capturingContexts.add(context)
+}
+
+function concatSamples(chunks: Float32Array[]) {
+  let length = 0
+  for (let chunk of chunks) {
+    length += chunk.length
+  }
+  let samples = new Float32Array(length)
+  let offset = 0
+  for (let chunk of chunks) {
+    samples.set(chunk, offset)
+    offset += chunk.length
+  }
+  return samples
+}
+
+// Draw a continuously scrolling spectrogram of a live source.
+// Samples are captured with an AudioWorklet, and the frames received since the last batch
+// are transformed together, so a slow device draws fewer but wider updates.
+export async function startLiveSpectrogram(
+  options: LiveSpectrogramOptions,
+): Promise<LiveSpectrogram> {
+  let { source, canvas, windowSize, hopSize, maxFrequency } = options
+  let fftSize = getFftSize(windowSize, options.fftSize)
+  if (maxFrequency > fftSize / 2) {
+    throw new Error(
+      `maxFrequency (${maxFrequency}) must be less than frequencyBinCount (${
+        fftSize / 2
+      })`,
+    )
+  }
+  let width = canvas.width
+  let height = canvas.height
+  if (width <= 0 || height <= 0) {
+    throw new Error('Canvas width and height must be greater than 0')
+  }
+
+  let ownsContext = source instanceof MediaStream
+  let audioContext: BaseAudioContext
+  let sourceNode: AudioNode
+  if (source instanceof MediaStream) {
+    let context = new AudioContext({ sampleRate: options.sampleRate })
+    audioContext = context
+    sourceNode = context.createMediaStreamSource(source)
+  } else {
+    audioContext = source.context
+    sourceNode = source
+  }
+  let sampleRate = audioContext.sampleRate
+
+  await addCaptureProcessor(audioContext)
+  let captureNode = new AudioWorkletNode(audioContext, CAPTURE_PROCESSOR_NAME, {
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    channelInterpretation: 'speakers',
+  })
+  // The capture node is only pulled when connected to the destination, so connect it muted
+  let muteNode = audioContext.createGain()
+  muteNode.gain.value = 0
+  sourceNode.connect(captureNode)
+  captureNode.connect(muteNode)
+  muteNode.connect(audioContext.destination)
+  if (
+    audioContext instanceof AudioContext &&
+    audioContext.state !== 'running'
+  ) {
+    await audioContext.resume()
+  }
+
+  let context = canvas.getContext('2d')!
+  context.clearRect(0, 0, width, height)
+
+  let analysisWindow = createWindow(windowSize, options)
+  let fullScaleMagnitude = getFullScaleMagnitude(analysisWindow)
+  let colormap = options.colormap ?? DEFAULT_COLORMAP
+  let magnitudeScale = options.magnitudeScale && {
+    ...options.magnitudeScale,
+    reference: 'full-scale' as const,
+    autoLevel: false,
+  }
+  let scale = options.frequencyScale ?? 'linear'
+  let rowBinRanges = getRowBinRanges(height, {
+    scale,
+    binCount: maxFrequency,
+    binWidth: getBinWidth(scale, sampleRate, fftSize),
+  })
+  let onError = options.onError ?? console.error
+
+  let stopped = false
+  let recording = !!options.record
+  let recordedChunks: Float32Array[] = []
+  // Samples received but not analysed yet
+  let incomingChunks: Float32Array[] = []
+  // Samples from the start of the next frame
+  let samples = new Float32Array(0)
+  let isProcessing = false
+
+  // Shift the canvas left and paint the new frames at the right edge, one column per frame
+  let drawFrames = (magnitudes: Float32Array, frameCount: number) => {
+    let shownFrames = Math.min(frameCount, width)
+    let firstFrame = frameCount - shownFrames
+    let columns: SpectrogramImage = {
+      width: shownFrames,
+      height,
+      values: new Float32Array(shownFrames * height),
+      fullScaleMagnitude,
+    }
+    for (let x = 0; x < shownFrames; x++) {
+      let frameOffset = (firstFrame + x) * maxFrequency
+      for (let y = 0; y < height; y++) {
+        let maxMag = 0
+        for (
+          let bin = rowBinRanges[y * 2];
+          bin < rowBinRanges[y * 2 + 1];
+          bin++
+        ) {
+          if (magnitudes[frameOffset + bin] > maxMag) {
+            maxMag = magnitudes[frameOffset + bin]
+          }
+        }
+        columns.values[y * shownFrames + x] = maxMag
+      }
+    }
+    let imageData = context.createImageData(shownFrames, height)
+    paintSpectrogramImage(imageData.data, columns, colormap, magnitudeScale)
+    // 'copy' replaces the canvas, so no stale pixels show through transparent ones
+    context.globalCompositeOperation = 'copy'
+    context.drawImage(canvas, -shownFrames, 0)
+    context.globalCompositeOperation = 'source-over'
+    context.putImageData(imageData, width - shownFrames, 0)
+  }
+
+  let processSamples = async () => {
+    isProcessing = true
+    try {
+      while (incomingChunks.length > 0 && !stopped) {
+        samples = concatSamples([samples, ...incomingChunks.splice(0)])
+        if (samples.length < windowSize) continue
+        let frameCount = getFrameCount(samples.length, windowSize, hopSize)
+        let tensor = createFrameMagnitudeTensor({
+          audioData: samples,
+          window: analysisWindow,
+          hopSize,
+          fftSize,
+          binCount: maxFrequency,
+          frameStart: 0,
+          frameEnd: frameCount,
+        })
+        let magnitudes: Float32Array
+        try {
+          magnitudes = (await tensor.data()) as Float32Array
+        } finally {
+          tensor.dispose()
+        }
+        if (stopped) break
+        drawFrames(magnitudes, frameCount)
+        samples = samples.slice(frameCount * hopSize)
+      }
+    } catch (error) {
+      onError(error)
+    } finally {
+      isProcessing = false
+    }
+  }
+
+  captureNode.port.onmessage = (event: MessageEvent<Float32Array>) => {
+    let chunk = event.data
+    if (recording) {
+      recordedChunks.push(chunk)
+    }
+    incomingChunks.push(chunk)
+    if (!isProcessing) {
+      processSamples()
+    }
+  }
+
+  return {
+    audioContext,
+    sampleRate,
+    isRecording: () => recording,
+    startRecording: () => {
+      recordedChunks = []
+      recording = true
+    },
+    stopRecording: () => {
+      recording = false
+      let recorded = concatSamples(recordedChunks)
+      recordedChunks = []
+      return recorded
+    },
+    stop: async () => {
+      if (stopped) return
+      stopped = true
+      captureNode.port.onmessage = null
+      sourceNode.disconnect(captureNode)
+      captureNode.disconnect()
+      muteNode.disconnect()
+      if (ownsContext) {
+        await (audioContext as AudioContext).close()
+      }
+    },
+  }
+}
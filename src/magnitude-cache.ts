@@ -0,0 +1,159 @@
+import { WindowOptions } from './window-function'
+
+// Analysis settings the cached magnitudes depend on
+export type MagnitudeCacheKey = WindowOptions & {
+  audioData: Float32Array
+  windowSize: number
+  hopSize: number
+  fftSize: number
+  // Number of FFT bins stored per frame
+  binCount: number
+}
+
+export type MagnitudeCacheOptions = {
+  // Memory budget in bytes, least recently used tiles are evicted beyond it
+  maxBytes?: number
+  // Number of frames per tile
+  tileFrames?: number
+  // Store magnitudes as 8-bit dB levels instead of 32-bit floats (4x less memory)
+  quantize?: boolean
+  // Lowest level kept when quantizing, in dB relative to full scale
+  quantizeFloorDb?: number
+}
+
+export const DEFAULT_CACHE_MAX_BYTES = 256 * 1024 * 1024
+export const DEFAULT_CACHE_TILE_FRAMES = 256
+export const DEFAULT_QUANTIZE_FLOOR_DB = -120
+// Headroom above full scale when quantizing, for clipped or summed signals
+const QUANTIZE_CEILING_DB = 12
+
+type CacheEntry = {
+  data: Float32Array | Uint8Array
+  fullScaleMagnitude: number
+}
+
+export type MagnitudeCache = ReturnType<typeof createMagnitudeCache>
+
+// Cache of FFT magnitude columns, split into tiles of frames and keyed by the analysis settings.
+// Tiles are kept in least recently used order within the memory budget.
+export function createMagnitudeCache(options: MagnitudeCacheOptions = {}) {
+  let maxBytes = options.maxBytes ?? DEFAULT_CACHE_MAX_BYTES
+  let tileFrames = options.tileFrames ?? DEFAULT_CACHE_TILE_FRAMES
+  let quantize = options.quantize ?? false
+  let floorDb = options.quantizeFloorDb ?? DEFAULT_QUANTIZE_FLOOR_DB
+  let rangeDb = QUANTIZE_CEILING_DB - floorDb
+
+  // Map keeps insertion order, re-inserting an entry marks it as most recently used
+  let entries = new Map<string, CacheEntry>()
+  let usedBytes = 0
+  // Tiles are only valid for one audio buffer
+  let cachedAudioData: Float32Array | null = null
+
+  function getEntryKey(key: MagnitudeCacheKey, tileIndex: number) {
+    if (key.audioData !== cachedAudioData) {
+      clear()
+      cachedAudioData = key.audioData
+    }
+    return [
+      key.windowSize,
+      key.hopSize,
+      key.fftSize,
+      key.binCount,
+      key.windowFunction ?? '',
+      key.kaiserBeta ?? '',
+      key.gaussianSigma ?? '',
+      tileIndex,
+    ].join(':')
+  }
+
+  function encode(magnitudes: Float32Array, fullScaleMagnitude: number) {
+    if (!quantize) return magnitudes
+    let levels = new Uint8Array(magnitudes.length)
+    for (let i = 0; i < magnitudes.length; i++) {
+      let magnitude = magnitudes[i]
+      if (!(magnitude > 0)) continue
+      let db = 20 * Math.log10(magnitude / fullScaleMagnitude)
+      // Level 0 is reserved for silence
+      let level = Math.round(((db - floorDb) / rangeDb) * 254) + 1
+      levels[i] = Math.max(0, Math.min(255, level))
+    }
+    return levels
+  }
+
+  function decode(entry: CacheEntry) {
+    if (entry.data instanceof Float32Array) return entry.data
+    let levels = entry.data
+    let magnitudes = new Float32Array(levels.length)
+    for (let i = 0; i < levels.length; i++) {
+      if (levels[i] === 0) continue
+      let db = floorDb + ((levels[i] - 1) / 254) * rangeDb
+      magnitudes[i] = entry.fullScaleMagnitude * Math.pow(10, db / 20)
+    }
+    return magnitudes
+  }
+
+  function clear() {
+    entries.clear()
+    usedBytes = 0
+    cachedAudioData = null
+  }
+
+  // Get the magnitudes of a tile (row-major frames x binCount), or null when not cached
+  function getTile(key: MagnitudeCacheKey, tileIndex: number) {
+    let entryKey = getEntryKey(key, tileIndex)
+    let entry = entries.get(entryKey)
+    if (!entry) return null
+    entries.delete(entryKey)
+    entries.set(entryKey, entry)
+    return decode(entry)
+  }
+
+  function setTile(
+    key: MagnitudeCacheKey,
+    tileIndex: number,
+    magnitudes: Float32Array,
+    fullScaleMagnitude: number,
+  ) {
+    let entryKey = getEntryKey(key, tileIndex)
+    let previous = entries.get(entryKey)
+    if (previous) {
+      entries.delete(entryKey)
+      usedBytes -= previous.data.byteLength
+    }
+    let entry: CacheEntry = {
+      data: encode(magnitudes, fullScaleMagnitude),
+      fullScaleMagnitude,
+    }
+    entries.set(entryKey, entry)
+    usedBytes += entry.data.byteLength
+    // Evict least recently used tiles, but always keep the newest one
+    for (let [oldKey, oldEntry] of entries) {
+      if (usedBytes <= maxBytes || entries.size <= 1) break
+      entries.delete(oldKey)
+      usedBytes -= oldEntry.data.byteLength
+    }
+  }
+
+  // Whether all frames [frameStart, frameEnd) are cached, so no FFT is needed
+  function hasFrames(
+    key: MagnitudeCacheKey,
+    frameStart: number,
+    frameEnd: number,
+  ) {
+    let firstTile = Math.floor(frameStart / tileFrames)
+    let lastTile = Math.ceil(frameEnd / tileFrames)
+    for (let tileIndex = firstTile; tileIndex < lastTile; tileIndex++) {
+      if (!entries.has(getEntryKey(key, tileIndex))) return false
+    }
+    return true
+  }
+
+  return {
+    tileFrames,
+    getTile,
+    setTile,
+    hasFrames,
+    clear,
+    getStats: () => ({ tileCount: entries.size, usedBytes, maxBytes }),
+  }
+}
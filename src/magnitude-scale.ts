@@ -0,0 +1,146 @@
+export type MagnitudeScaleMode = 'log1p' | 'db'
+
+// 'full-scale': 0 dB is a full-scale sine wave (dBFS)
+// 'peak': 0 dB is the loudest magnitude of the file (or of the rendered view when not given)
+export type DbReference = 'full-scale' | 'peak'
+
+export type MagnitudeScale = {
+  mode: MagnitudeScaleMode
+  reference?: DbReference
+  // Peak magnitude of the whole file, used by the 'peak' reference
+  peakMagnitude?: number
+  // Level mapped to the top of the colormap, defaults to 0 dB
+  maxDb?: number
+  // Level mapped to the bottom of the colormap (the floor), defaults to maxDb - dynamicRange
+  minDb?: number
+  dynamicRange?: number
+  // Gain in dB applied to the magnitudes before mapping
+  gain?: number
+  // Pick minDb and maxDb from percentiles of the rendered magnitudes
+  autoLevel?: boolean
+  lowPercentile?: number
+  highPercentile?: number
+}
+
+export const DEFAULT_MAGNITUDE_SCALE: MagnitudeScale = { mode: 'log1p' }
+export const DEFAULT_DYNAMIC_RANGE_DB = 80
+export const DEFAULT_LOW_PERCENTILE = 5
+export const DEFAULT_HIGH_PERCENTILE = 99.5
+
+// Magnitudes of a spectrogram, with the magnitude of a full-scale sine for the same window
+export type MagnitudeSource = {
+  values: Float32Array
+  fullScaleMagnitude: number
+}
+
+const log_255 = Math.log1p(255)
+
+// Lowest dB value considered, avoids -Infinity for silent bins
+const MIN_DB = -200
+
+// FFT magnitude of a full-scale (amplitude 1) sine wave: the coherent gain of the window
+export function getFullScaleMagnitude(window: Float32Array) {
+  let sum = 0
+  for (let i = 0; i < window.length; i++) {
+    sum += window[i]
+  }
+  return sum / 2
+}
+
+export function magnitudeToDb(magnitude: number, referenceMagnitude: number) {
+  if (!(magnitude > 0)) return MIN_DB
+  return Math.max(MIN_DB, 20 * Math.log10(magnitude / referenceMagnitude))
+}
+
+// Get the p-th percentile (0-100) of the values, sampling large arrays
+export function getPercentile(values: ArrayLike<number>, percentile: number) {
+  let step = Math.max(1, Math.floor(values.length / 100_000))
+  let samples: number[] = []
+  for (let i = 0; i < values.length; i += step) {
+    samples.push(values[i])
+  }
+  if (samples.length === 0) return 0
+  samples.sort((a, b) => a - b)
+  let rank =
+    (Math.max(0, Math.min(100, percentile)) / 100) * (samples.length - 1)
+  let lower = Math.floor(rank)
+  let upper = Math.min(lower + 1, samples.length - 1)
+  return samples[lower] + (samples[upper] - samples[lower]) * (rank - lower)
+}
+
+function getPeakMagnitude(values: Float32Array) {
+  let peak = 0
+  for (let i = 0; i < values.length; i++) {
+    if (values[i] > peak) peak = values[i]
+  }
+  return peak
+}
+
+// Resolve the dB reference magnitude and the dB range mapped onto the colormap
+export function getDbLevels(scale: MagnitudeScale, source: MagnitudeSource) {
+  let referenceMagnitude =
+    scale.reference === 'peak'
+      ? scale.peakMagnitude ?? getPeakMagnitude(source.values)
+      : source.fullScaleMagnitude
+  if (!(referenceMagnitude > 0)) {
+    referenceMagnitude = source.fullScaleMagnitude || 1
+  }
+  let gain = scale.gain ?? 0
+
+  if (scale.autoLevel) {
+    let levels = new Float32Array(source.values.length)
+    for (let i = 0; i < levels.length; i++) {
+      levels[i] = magnitudeToDb(source.values[i], referenceMagnitude) + gain
+    }
+    let minDb = getPercentile(
+      levels,
+      scale.lowPercentile ?? DEFAULT_LOW_PERCENTILE,
+    )
+    let maxDb = getPercentile(
+      levels,
+      scale.highPercentile ?? DEFAULT_HIGH_PERCENTILE,
+    )
+    if (maxDb <= minDb) {
+      maxDb = minDb + 1
+    }
+    return { referenceMagnitude, minDb, maxDb }
+  }
+
+  let maxDb = scale.maxDb ?? 0
+  let minDb =
+    scale.minDb ?? maxDb - (scale.dynamicRange ?? DEFAULT_DYNAMIC_RANGE_DB)
+  if (maxDb <= minDb) {
+    throw new Error(`maxDb (${maxDb}) must be greater than minDb (${minDb})`)
+  }
+  return { referenceMagnitude, minDb, maxDb }
+}
+
+// Whether the colours depend on statistics of the whole image,
+// so they can only be final after every column is computed
+export function isMagnitudeScaleAdaptive(scale: MagnitudeScale) {
+  return (
+    scale.mode === 'db' &&
+    (!!scale.autoLevel ||
+      (scale.reference === 'peak' && scale.peakMagnitude === undefined))
+  )
+}
+
+// Create a function mapping a linear magnitude to a normalized intensity (0-1)
+export function createMagnitudeNormalizer(
+  scale: MagnitudeScale = DEFAULT_MAGNITUDE_SCALE,
+  source: MagnitudeSource,
+): (magnitude: number) => number {
+  let gain = scale.gain ?? 0
+  if (scale.mode === 'log1p') {
+    // Legacy scaling: log1p of the magnitude, with 255 mapped to full intensity
+    let linearGain = Math.pow(10, gain / 20)
+    return magnitude => Math.log1p(magnitude * linearGain) / log_255
+  }
+  if (scale.mode === 'db') {
+    let { referenceMagnitude, minDb, maxDb } = getDbLevels(scale, source)
+    let range = maxDb - minDb
+    return magnitude =>
+      (magnitudeToDb(magnitude, referenceMagnitude) + gain - minDb) / range
+  }
+  throw new Error(`Unsupported magnitude scale: ${scale.mode}`)
+}
@@ -0,0 +1,347 @@
+import * as tf from '@tensorflow/tfjs'
+import { hzToMel, melToHz } from './frequency-scale'
+import { getFullScaleMagnitude } from './magnitude-scale'
+import {
+  createFrameMagnitudeTensor,
+  forEachFrameBlock,
+  getFftSize,
+  getFrameCenterTimes,
+  getFrameCount,
+  getRenderFrameRange,
+  SpectrumAnalysisOptions,
+} from './spectrogram'
+import { createWindow } from './window-function'
+
+export type MelFilterbankOptions = {
+  sampleRate: number
+  fftSize: number
+  // Number of triangular filters, defaults to 40
+  melCount?: number
+  // Frequency range covered by the filters in Hz, defaults to 0 up to the Nyquist frequency
+  minHz?: number
+  maxHz?: number
+}
+
+// Triangular filters spaced evenly on the HTK mel scale, each peaking at 1 on its centre frequency
+export type MelFilterbank = {
+  melCount: number
+  // FFT bins 0 to fftSize / 2 (DC to Nyquist)
+  binCount: number
+  // Row-major melCount x binCount weights, lowest filter first
+  weights: Float32Array
+  // Centre frequency (Hz) of each filter
+  centerFrequencies: Float32Array
+}
+
+export type MelSpectrogramOptions = SpectrumAnalysisOptions &
+  Omit<MelFilterbankOptions, 'fftSize'> & {
+    frameStart?: number
+    frameEnd?: number
+  }
+
+// Mel bands of frames [frameStart, frameEnd), aligned with the spectrogram frames (hopSize apart)
+export type MelSpectrogram = {
+  frameStart: number
+  frameEnd: number
+  melCount: number
+  // Centre time (seconds) of each frame, as from getFrameCenterTimes
+  times: Float32Array
+  // Centre frequency (Hz) of each band
+  centerFrequencies: Float32Array
+  // Row-major: melCount values per frame, lowest band first
+  values: Float32Array
+  // Filterbank energies are relative to the power of a full-scale sine, log-mel values are in dB of that
+  unit: 'power' | 'dB'
+}
+
+export type MfccOptions = MelSpectrogramOptions & {
+  // Number of cepstral coefficients including c0, defaults to 13
+  coefficientCount?: number
+  // Sinusoidal liftering parameter L (e.g. 22 as in HTK), 0 to leave the coefficients unweighted
+  lifter?: number
+  // 1 adds deltas, 2 deltas and delta-deltas, defaults to 0
+  deltaOrder?: 0 | 1 | 2
+  // Frames on each side of the delta regression, defaults to 2
+  deltaWidth?: number
+}
+
+export type Mfcc = {
+  frameStart: number
+  frameEnd: number
+  coefficientCount: number
+  times: Float32Array
+  // Row-major: coefficientCount values per frame, c0 first
+  coefficients: Float32Array
+  // Same layout as coefficients, with deltaOrder 1 or 2
+  deltas?: Float32Array
+  // Same layout as coefficients, with deltaOrder 2
+  deltaDeltas?: Float32Array
+}
+
+export const DEFAULT_MEL_COUNT = 40
+export const DEFAULT_MFCC_COUNT = 13
+
+// Energies below this (-100 dB relative to a full-scale sine) are clamped before the log
+const LOG_FLOOR = 1e-10
+
+export function createMelFilterbank(
+  options: MelFilterbankOptions,
+): MelFilterbank {
+  let { sampleRate, fftSize } = options
+  let melCount = options.melCount ?? DEFAULT_MEL_COUNT
+  let minHz = options.minHz ?? 0
+  let maxHz = options.maxHz ?? sampleRate / 2
+  if (!Number.isInteger(melCount) || melCount < 1) {
+    throw new Error(`melCount must be a positive integer, got ${melCount}`)
+  }
+  if (!(minHz >= 0 && maxHz > minHz && maxHz <= sampleRate / 2)) {
+    throw new Error(
+      `Invalid mel range: ${minHz} - ${maxHz} Hz, it must lie within 0 - ${
+        sampleRate / 2
+      } Hz`,
+    )
+  }
+  let binCount = fftSize / 2 + 1
+  let binWidth = sampleRate / fftSize
+  // Edges of the filters: each filter rises from edge i to i + 1 and falls to i + 2
+  let minMel = hzToMel(minHz)
+  let melStep = (hzToMel(maxHz) - minMel) / (melCount + 1)
+  let edges = new Float64Array(melCount + 2)
+  for (let i = 0; i < edges.length; i++) {
+    edges[i] = melToHz(minMel + i * melStep)
+  }
+  let weights = new Float32Array(melCount * binCount)
+  let centerFrequencies = new Float32Array(melCount)
+  for (let m = 0; m < melCount; m++) {
+    let [low, center, high] = [edges[m], edges[m + 1], edges[m + 2]]
+    centerFrequencies[m] = center
+    for (let bin = 0; bin < binCount; bin++) {
+      let hz = bin * binWidth
+      let weight =
+        hz <= center
+          ? (hz - low) / (center - low)
+          : (high - hz) / (high - center)
+      if (weight > 0) weights[m * binCount + bin] = weight
+    }
+  }
+  return { melCount, binCount, weights, centerFrequencies }
+}
+
+// Orthonormal DCT-II matrix (as scipy's norm="ortho"), melCount x coefficientCount, with liftering
+function createDctMatrix(
+  melCount: number,
+  coefficientCount: number,
+  lifter: number,
+) {
+  let matrix = new Float32Array(melCount * coefficientCount)
+  for (let k = 0; k < coefficientCount; k++) {
+    let scale = Math.sqrt((k === 0 ? 1 : 2) / melCount)
+    // Same weights as librosa: 1 + L/2 sin(pi (k + 1) / L)
+    if (lifter > 0) {
+      scale *= 1 + (lifter / 2) * Math.sin((Math.PI * (k + 1)) / lifter)
+    }
+    for (let m = 0; m < melCount; m++) {
+      matrix[m * coefficientCount + k] =
+        scale * Math.cos((Math.PI * k * (2 * m + 1)) / (2 * melCount))
+    }
+  }
+  return matrix
+}
+
+// Frames of the options and the per-frame rows of a tensor transform, computed blockwise.
+// The transform gets the filterbank energies of a block ([frames, melCount]) and returns [frames, columns].
+async function computeMelRows(
+  options: MelSpectrogramOptions,
+  columns: number,
+  transform: (energies: tf.Tensor2D) => tf.Tensor2D,
+  label: string,
+) {
+  let { audioData, sampleRate, windowSize, hopSize, signal } = options
+  let fftSize = getFftSize(windowSize, options.fftSize)
+  let filterbank = createMelFilterbank({ ...options, fftSize })
+  let totalFrameCount = getFrameCount(audioData.length, windowSize, hopSize)
+  let [frameStart, frameEnd] = getRenderFrameRange(
+    totalFrameCount,
+    options.frameStart,
+    options.frameEnd,
+  )
+  let frameCount = Math.max(0, frameEnd - frameStart)
+  let times = getFrameCenterTimes(
+    frameStart,
+    frameStart + frameCount,
+    sampleRate,
+    windowSize,
+    hopSize,
+  )
+  let values = new Float32Array(frameCount * columns)
+
+  let window = createWindow(windowSize, options)
+  let fullScaleMagnitude = getFullScaleMagnitude(window)
+  let weights = tf.tensor2d(filterbank.weights, [
+    filterbank.melCount,
+    filterbank.binCount,
+  ])
+  try {
+    await forEachFrameBlock(
+      {
+        signal,
+        fftSize,
+        frameStart,
+        frameEnd: frameStart + frameCount,
+        label,
+        onProgress: options.onProgress,
+      },
+      async (blockStart, blockEnd) => {
+        let tensor = tf.tidy(() => {
+          let magnitudes = createFrameMagnitudeTensor({
+            audioData,
+            window,
+            hopSize,
+            fftSize,
+            binCount: filterbank.binCount,
+            frameStart: blockStart,
+            frameEnd: blockEnd,
+          })
+          let power = tf.square(tf.div(magnitudes, fullScaleMagnitude))
+          let energies = tf.matMul(power, weights, false, true) as tf.Tensor2D
+          return transform(energies)
+        })
+        try {
+          values.set(
+            (await tensor.data()) as Float32Array,
+            (blockStart - frameStart) * columns,
+          )
+        } finally {
+          tensor.dispose()
+        }
+      },
+    )
+  } finally {
+    weights.dispose()
+  }
+  return {
+    frameStart,
+    frameEnd: frameStart + frameCount,
+    times,
+    values,
+    centerFrequencies: filterbank.centerFrequencies,
+  }
+}
+
+function toDb(energies: tf.Tensor2D) {
+  return tf.mul(
+    tf.log(tf.maximum(energies, LOG_FLOOR)),
+    10 / Math.LN10,
+  ) as tf.Tensor2D
+}
+
+// Mel filterbank energies of each frame: the power spectrum of the spectrogram frames
+// (relative to a full-scale sine) weighted by the triangular filters
+export async function getMelEnergies(
+  options: MelSpectrogramOptions,
+): Promise<MelSpectrogram> {
+  let melCount = options.melCount ?? DEFAULT_MEL_COUNT
+  let rows = await computeMelRows(
+    options,
+    melCount,
+    energies => energies,
+    'Mel filterbank computation',
+  )
+  return { ...rows, melCount, unit: 'power' }
+}
+
+// Log-mel spectrogram: the mel filterbank energies in dB, floored at -100 dB
+export async function getLogMelSpectrogram(
+  options: MelSpectrogramOptions,
+): Promise<MelSpectrogram> {
+  let melCount = options.melCount ?? DEFAULT_MEL_COUNT
+  let rows = await computeMelRows(
+    options,
+    melCount,
+    toDb,
+    'Log-mel computation',
+  )
+  return { ...rows, melCount, unit: 'dB' }
+}
+
+// Regression deltas of row-major frames x columns values (as HTK and librosa's "nearest" mode),
+// with the first and last frames repeated at the edges
+export function getDeltas(
+  values: Float32Array,
+  columns: number,
+  width = 2,
+): Float32Array {
+  if (!Number.isInteger(width) || width < 1) {
+    throw new Error(`Delta width must be a positive integer, got ${width}`)
+  }
+  let frameCount = values.length / columns
+  let deltas = new Float32Array(values.length)
+  let denominator = 0
+  for (let n = 1; n <= width; n++) denominator += 2 * n * n
+  for (let t = 0; t < frameCount; t++) {
+    for (let c = 0; c < columns; c++) {
+      let sum = 0
+      for (let n = 1; n <= width; n++) {
+        let after = Math.min(frameCount - 1, t + n)
+        let before = Math.max(0, t - n)
+        sum += n * (values[after * columns + c] - values[before * columns + c])
+      }
+      deltas[t * columns + c] = sum / denominator
+    }
+  }
+  return deltas
+}
+
+// Mel-frequency cepstral coefficients: the orthonormal DCT-II of the log-mel spectrogram (dB),
+// optionally liftered, with deltas over the computed frames
+export async function getMfcc(options: MfccOptions): Promise<Mfcc> {
+  let melCount = options.melCount ?? DEFAULT_MEL_COUNT
+  let coefficientCount = options.coefficientCount ?? DEFAULT_MFCC_COUNT
+  let lifter = options.lifter ?? 0
+  let deltaOrder = options.deltaOrder ?? 0
+  if (
+    !Number.isInteger(coefficientCount) ||
+    coefficientCount < 1 ||
+    coefficientCount > melCount
+  ) {
+    throw new Error(
+      `coefficientCount must be an integer from 1 to melCount (${melCount}), got ${coefficientCount}`,
+    )
+  }
+  if (!(lifter >= 0)) {
+    throw new Error(`lifter must not be negative, got ${lifter}`)
+  }
+  let dct = tf.tensor2d(createDctMatrix(melCount, coefficientCount, lifter), [
+    melCount,
+    coefficientCount,
+  ])
+  let rows: Awaited<ReturnType<typeof computeMelRows>>
+  try {
+    rows = await computeMelRows(
+      options,
+      coefficientCount,
+      energies => tf.matMul(toDb(energies), dct),
+      'MFCC computation',
+    )
+  } finally {
+    dct.dispose()
+  }
+  let mfcc: Mfcc = {
+    frameStart: rows.frameStart,
+    frameEnd: rows.frameEnd,
+    coefficientCount,
+    times: rows.times,
+    coefficients: rows.values,
+  }
+  if (deltaOrder >= 1) {
+    mfcc.deltas = getDeltas(rows.values, coefficientCount, options.deltaWidth)
+  }
+  if (deltaOrder >= 2) {
+    mfcc.deltaDeltas = getDeltas(
+      mfcc.deltas!,
+      coefficientCount,
+      options.deltaWidth,
+    )
+  }
+  return mfcc
+}
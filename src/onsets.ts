@@ -0,0 +1,304 @@
+import { getFullScaleMagnitude } from './magnitude-scale'
+import {
+  forEachFrameMagnitudeBlock,
+  getFftSize,
+  getFrameCenterTimes,
+  getFrameCount,
+  SpectrumAnalysisOptions,
+} from './spectrogram'
+import { createWindow } from './window-function'
+
+export type OnsetOptions = SpectrumAnalysisOptions & {
+  // Share of the energy rise in the onset strength, the rest is spectral flux, from 0 to 1
+  energyWeight?: number
+  // Strength above the local mean (strengths are scaled to a peak of 1) that makes a peak an onset
+  threshold?: number
+  // Half width of the local mean, in seconds
+  averageSeconds?: number
+  // Shortest time between two onsets, in seconds
+  minIntervalSeconds?: number
+}
+
+// Onset strength of every frame of the audio and the onsets picked from it
+export type OnsetDetection = {
+  // Frames per second (sampleRate / hopSize)
+  frameRate: number
+  // Centre time (seconds) of each frame, where a change within the frame is placed
+  times: Float32Array
+  // Onset strength of each frame from 0 to 1
+  strengths: Float32Array
+  // Frame index of each onset, in time order
+  onsetFrames: Uint32Array
+  // Time (seconds) of each onset
+  onsets: Float32Array
+}
+
+export type TempoOptions = {
+  // Range of the tempo search, in beats per minute
+  minBpm?: number
+  maxBpm?: number
+  // Centre of the log-normal tempo prior, half-time and double-time lags are weighed against it
+  preferredBpm?: number
+}
+
+export type BeatOptions = TempoOptions & {
+  // Tempo to track, estimated with estimateTempo by default
+  bpm?: number
+  // How strongly beats keep to the tempo against the onset strengths (as Ellis, 2007)
+  tightness?: number
+}
+
+export type BeatTrack = {
+  bpm: number
+  // Time (seconds) of each beat
+  beats: Float32Array
+}
+
+export const DEFAULT_ONSET_THRESHOLD = 0.07
+export const DEFAULT_MIN_BPM = 40
+export const DEFAULT_MAX_BPM = 240
+
+// Compression of the magnitudes (relative to full scale) before the flux, log(1 + C x)
+const FLUX_COMPRESSION = 1000
+
+// Energies below this (-100 dB relative to a full-scale sine) count as silence
+const ENERGY_FLOOR = 1e-10
+
+// Half width of the local maximum of peak picking, in seconds
+const PEAK_HALF_WIDTH_SECONDS = 0.03
+
+// Spread of the tempo prior, in octaves
+const TEMPO_PRIOR_OCTAVES = 1
+
+function normalizePeak(values: Float32Array) {
+  let max = values.reduce((a, b) => Math.max(a, b), 0)
+  if (max > 0) {
+    for (let i = 0; i < values.length; i++) values[i] /= max
+  }
+}
+
+// Detect note onsets over the whole audio. The onset strength of a frame is a weighted sum of
+// the log-compressed spectral flux (rises of each bin since the previous frame) and the rise of
+// the frame energy in dB, each scaled to a peak of 1. Onsets are the frames whose strength is the
+// local maximum within 30 ms and exceeds the mean of the surrounding averageSeconds by threshold.
+export async function detectOnsets(
+  options: OnsetOptions,
+): Promise<OnsetDetection> {
+  let { audioData, sampleRate, windowSize, hopSize } = options
+  let fftSize = getFftSize(windowSize, options.fftSize)
+  let energyWeight = options.energyWeight ?? 0.3
+  let threshold = options.threshold ?? DEFAULT_ONSET_THRESHOLD
+  let averageSeconds = options.averageSeconds ?? 0.1
+  let minIntervalSeconds = options.minIntervalSeconds ?? 0.05
+  if (!(energyWeight >= 0 && energyWeight <= 1)) {
+    throw new Error(`energyWeight must be from 0 to 1, got ${energyWeight}`)
+  }
+
+  let times = getFrameCenterTimes(
+    0,
+    getFrameCount(audioData.length, windowSize, hopSize),
+    sampleRate,
+    windowSize,
+    hopSize,
+  )
+  let frameCount = times.length
+  let frameRate = sampleRate / hopSize
+  let flux = new Float32Array(frameCount)
+  let energyRise = new Float32Array(frameCount)
+
+  let binCount = fftSize / 2
+  let fullScaleMagnitude = getFullScaleMagnitude(
+    createWindow(windowSize, options),
+  )
+  let previous = new Float32Array(binCount)
+  let compressed = new Float32Array(binCount)
+  let previousDb = 0
+  await forEachFrameMagnitudeBlock(
+    {
+      ...options,
+      fftSize,
+      binCount,
+      frameStart: 0,
+      frameEnd: frameCount,
+      label: 'Onset detection',
+    },
+    (magnitudes, blockStart, blockEnd) => {
+      for (let frame = blockStart; frame < blockEnd; frame++) {
+        let offset = (frame - blockStart) * binCount
+        let rise = 0
+        let energy = 0
+        for (let bin = 0; bin < binCount; bin++) {
+          let magnitude = magnitudes[offset + bin] / fullScaleMagnitude
+          energy += magnitude * magnitude
+          compressed[bin] = Math.log1p(FLUX_COMPRESSION * magnitude)
+          rise += Math.max(0, compressed[bin] - previous[bin])
+        }
+        let db = 10 * Math.log10(Math.max(energy, ENERGY_FLOOR))
+        // The first frame has no predecessor to rise from
+        if (frame > 0) {
+          flux[frame] = rise / binCount
+          energyRise[frame] = Math.max(0, db - previousDb)
+        }
+        previousDb = db
+        previous.set(compressed)
+      }
+    },
+  )
+
+  normalizePeak(flux)
+  normalizePeak(energyRise)
+  let strengths = new Float32Array(frameCount)
+  for (let i = 0; i < frameCount; i++) {
+    strengths[i] = (1 - energyWeight) * flux[i] + energyWeight * energyRise[i]
+  }
+  normalizePeak(strengths)
+
+  let peakHalfWidth = Math.max(
+    1,
+    Math.round(PEAK_HALF_WIDTH_SECONDS * frameRate),
+  )
+  let averageHalfWidth = Math.max(1, Math.round(averageSeconds * frameRate))
+  let minInterval = minIntervalSeconds * frameRate
+  let onsetFrames: number[] = []
+  for (let i = 0; i < frameCount; i++) {
+    let strength = strengths[i]
+    if (strength <= 0) continue
+    let isPeak = true
+    for (
+      let j = Math.max(0, i - peakHalfWidth);
+      j <= Math.min(frameCount - 1, i + peakHalfWidth);
+      j++
+    ) {
+      // The first of equal strengths wins
+      if (strengths[j] > strength || (strengths[j] === strength && j < i)) {
+        isPeak = false
+        break
+      }
+    }
+    if (!isPeak) continue
+    let start = Math.max(0, i - averageHalfWidth)
+    let end = Math.min(frameCount, i + averageHalfWidth + 1)
+    let sum = 0
+    for (let j = start; j < end; j++) sum += strengths[j]
+    if (strength < sum / (end - start) + threshold) continue
+    let last = onsetFrames[onsetFrames.length - 1]
+    if (last !== undefined && i - last < minInterval) continue
+    onsetFrames.push(i)
+  }
+
+  return {
+    frameRate,
+    times,
+    strengths,
+    onsetFrames: Uint32Array.from(onsetFrames),
+    onsets: Float32Array.from(onsetFrames, frame => times[frame]),
+  }
+}
+
+// Estimate the tempo (BPM) from the autocorrelation of the onset strengths,
+// weighted by a log-normal prior around preferredBpm. NaN when no lag in range correlates.
+export function estimateTempo(
+  detection: OnsetDetection,
+  options: TempoOptions = {},
+): number {
+  let { frameRate, strengths } = detection
+  let minBpm = options.minBpm ?? DEFAULT_MIN_BPM
+  let maxBpm = options.maxBpm ?? DEFAULT_MAX_BPM
+  let preferredBpm = options.preferredBpm ?? 120
+  if (!(minBpm > 0) || !(maxBpm > minBpm)) {
+    throw new Error(
+      `Invalid tempo range: ${minBpm} - ${maxBpm} BPM, minBpm must be positive and below maxBpm`,
+    )
+  }
+  let minLag = Math.max(1, Math.floor((60 * frameRate) / maxBpm))
+  let maxLag = Math.min(
+    strengths.length - 1,
+    Math.ceil((60 * frameRate) / minBpm),
+  )
+  if (maxLag <= minLag) return NaN
+
+  let mean = strengths.reduce((a, b) => a + b, 0) / strengths.length
+  let scores = new Float64Array(maxLag + 2)
+  for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+    if (lag < 1 || lag >= strengths.length) continue
+    let sum = 0
+    for (let i = lag; i < strengths.length; i++) {
+      sum += (strengths[i] - mean) * (strengths[i - lag] - mean)
+    }
+    let octaves = Math.log2((60 * frameRate) / lag / preferredBpm)
+    let prior = Math.exp(-0.5 * (octaves / TEMPO_PRIOR_OCTAVES) ** 2)
+    scores[lag] = Math.max(0, sum / (strengths.length - lag)) * prior
+  }
+  let bestLag = minLag
+  for (let lag = minLag + 1; lag <= maxLag; lag++) {
+    if (scores[lag] > scores[bestLag]) bestLag = lag
+  }
+  if (!(scores[bestLag] > 0)) return NaN
+  // Parabolic interpolation between the lags around the peak
+  let period = bestLag
+  let before = scores[bestLag - 1]
+  let after = scores[bestLag + 1]
+  let curvature = before - 2 * scores[bestLag] + after
+  if (curvature < 0) {
+    period += (before - after) / (2 * curvature)
+  }
+  return (60 * frameRate) / period
+}
+
+// Track beats with dynamic programming (Ellis, 2007): each beat adds the onset strength of its frame
+// and is penalised by the squared log ratio of its distance to the previous beat and the beat period
+export function trackBeats(
+  detection: OnsetDetection,
+  options: BeatOptions = {},
+): BeatTrack {
+  let { frameRate, strengths, times } = detection
+  let bpm = options.bpm ?? estimateTempo(detection, options)
+  let tightness = options.tightness ?? 100
+  let frameCount = strengths.length
+  if (!(bpm > 0) || frameCount === 0) {
+    return { bpm, beats: new Float32Array() }
+  }
+  let period = (60 * frameRate) / bpm
+
+  // Strengths in units of their standard deviation, so the tightness does not depend on their scale
+  let mean = strengths.reduce((a, b) => a + b, 0) / frameCount
+  let variance =
+    strengths.reduce((sum, value) => sum + (value - mean) ** 2, 0) / frameCount
+  let deviation = Math.sqrt(variance) || 1
+  let scores = new Float64Array(frameCount)
+  let previousBeats = new Int32Array(frameCount).fill(-1)
+  let minGap = Math.max(1, Math.round(period / 2))
+  let maxGap = Math.max(minGap, Math.round(period * 2))
+  for (let i = 0; i < frameCount; i++) {
+    let best = 0
+    for (let gap = minGap; gap <= maxGap && gap <= i; gap++) {
+      let score = scores[i - gap] - tightness * Math.log(gap / period) ** 2
+      if (previousBeats[i] === -1 || score > best) {
+        best = score
+        previousBeats[i] = i - gap
+      }
+    }
+    scores[i] = strengths[i] / deviation + Math.max(0, best)
+    // A chain that lost score is not worth continuing, start a new one here
+    if (best <= 0) previousBeats[i] = -1
+  }
+
+  // The last beat is the best scoring frame within the last period
+  let last = frameCount - 1
+  for (
+    let i = Math.max(0, frameCount - Math.ceil(period));
+    i < frameCount;
+    i++
+  ) {
+    if (scores[i] > scores[last]) last = i
+  }
+  let beatFrames: number[] = []
+  for (let frame = last; frame >= 0; frame = previousBeats[frame]) {
+    beatFrames.push(frame)
+  }
+  beatFrames.reverse()
+  return {
+    bpm,
+    beats: Float32Array.from(beatFrames, frame => times[frame]),
+  }
+}
@@ -0,0 +1,127 @@
+import {
+  Colormap,
+  DEFAULT_COLORMAP,
+  getColormapTable,
+  writeColormapPixel,
+} from './colormap'
+import { createMagnitudeNormalizer, MagnitudeScale } from './magnitude-scale'
+import { SpectrogramImage } from './spectrogram'
+
+// Paint the columns [columnStart, columnEnd) of a spectrogram image into RGBA pixel data of the same size
+export function paintSpectrogramColumns(
+  data: Uint8ClampedArray,
+  image: SpectrogramImage,
+  colormap: Colormap,
+  magnitudeScale: MagnitudeScale | undefined,
+  columnStart: number,
+  columnEnd: number,
+) {
+  let table = getColormapTable(colormap)
+  let normalize = createMagnitudeNormalizer(magnitudeScale, image)
+  let { width, height, values } = image
+  for (let y = 0; y < height; y++) {
+    for (let x = columnStart; x < columnEnd; x++) {
+      let pixel = y * width + x
+      writeColormapPixel(table, normalize(values[pixel]), data, pixel * 4)
+    }
+  }
+}
+
+export function paintSpectrogramImage(
+  data: Uint8ClampedArray,
+  image: SpectrogramImage,
+  colormap: Colormap,
+  magnitudeScale: MagnitudeScale | undefined,
+) {
+  paintSpectrogramColumns(data, image, colormap, magnitudeScale, 0, image.width)
+}
+
+export function drawSpectrogramImage(
+  canvas: HTMLCanvasElement,
+  image: SpectrogramImage,
+  colormap: Colormap = DEFAULT_COLORMAP,
+  magnitudeScale?: MagnitudeScale,
+) {
+  let context = canvas.getContext('2d')!
+  let imageData = context.createImageData(image.width, image.height)
+  paintSpectrogramImage(imageData.data, image, colormap, magnitudeScale)
+  context.putImageData(imageData, 0, 0)
+}
+
+// A frames x rows matrix such as a log-mel spectrogram or MFCCs, row-major with rowCount values
+// per frame, lowest row first
+export type MatrixImage = {
+  values: Float32Array
+  rowCount: number
+}
+
+export type MatrixScale = {
+  // Values mapped onto the ends of the colormap, default to the smallest and largest value
+  min?: number
+  max?: number
+  // Scale each row to its own range, e.g. cepstral coefficients of very different magnitudes
+  normalizeRows?: boolean
+}
+
+// Range of the values of each row (or of all rows), as [min0, max0, min1, max1, ...]
+function getMatrixRowRanges(matrix: MatrixImage, scale: MatrixScale) {
+  let { values, rowCount } = matrix
+  let ranges = new Float32Array(rowCount * 2)
+  let min = Infinity
+  let max = -Infinity
+  for (let row = 0; row < rowCount; row++) {
+    let rowMin = Infinity
+    let rowMax = -Infinity
+    for (let i = row; i < values.length; i += rowCount) {
+      if (values[i] < rowMin) rowMin = values[i]
+      if (values[i] > rowMax) rowMax = values[i]
+    }
+    ranges[row * 2] = rowMin
+    ranges[row * 2 + 1] = rowMax
+    min = Math.min(min, rowMin)
+    max = Math.max(max, rowMax)
+  }
+  if (!scale.normalizeRows) {
+    for (let row = 0; row < rowCount; row++) {
+      ranges[row * 2] = scale.min ?? min
+      ranges[row * 2 + 1] = scale.max ?? max
+    }
+  }
+  return ranges
+}
+
+// Draw a matrix stretched over the canvas, the first row at the bottom.
+// Each column shows the frame under its centre, so no values are pooled.
+export function drawMatrixImage(
+  canvas: HTMLCanvasElement,
+  matrix: MatrixImage,
+  colormap: Colormap = DEFAULT_COLORMAP,
+  scale: MatrixScale = {},
+) {
+  let { width, height } = canvas
+  let { values, rowCount } = matrix
+  let frameCount = Math.floor(values.length / rowCount)
+  let context = canvas.getContext('2d')!
+  let imageData = context.createImageData(width, height)
+  if (frameCount > 0) {
+    let table = getColormapTable(colormap)
+    let ranges = getMatrixRowRanges(matrix, scale)
+    for (let y = 0; y < height; y++) {
+      let row = rowCount - 1 - Math.floor(((y + 0.5) * rowCount) / height)
+      let min = ranges[row * 2]
+      let range = ranges[row * 2 + 1] - min
+      for (let x = 0; x < width; x++) {
+        let frame = Math.floor(((x + 0.5) * frameCount) / width)
+        let value = values[frame * rowCount + row]
+        let pixel = y * width + x
+        writeColormapPixel(
+          table,
+          range > 0 ? (value - min) / range : 0,
+          imageData.data,
+          pixel * 4,
+        )
+      }
+    }
+  }
+  context.putImageData(imageData, 0, 0)
+}
@@ -0,0 +1,240 @@
+import * as tf from '@tensorflow/tfjs'
+import {
+  forEachFrameBlock,
+  FrameAnalysisOptions,
+  getFrameAtTime,
+  getFrameCenterTimes,
+  getFrameCount,
+  getRenderFrameRange,
+} from './spectrogram'
+
+// The window of the frames is the YIN integration window
+export type PitchTrackOptions = FrameAnalysisOptions & {
+  // Range of the F0 search in Hz
+  minF0?: number
+  maxF0?: number
+  // YIN aperiodicity below which a frame is voiced, from 0 to 1
+  threshold?: number
+  frameStart?: number
+  frameEnd?: number
+}
+
+// F0 of frames [frameStart, frameEnd), one entry per spectrogram frame
+export type PitchTrack = {
+  frameStart: number
+  frameEnd: number
+  // Centre time (seconds) of each frame, as from getFrameCenterTimes
+  times: Float32Array
+  // F0 in Hz, NaN for unvoiced frames
+  frequencies: Float32Array
+  // Voicing confidence from 0 to 1: one minus the aperiodicity of the best period
+  confidences: Float32Array
+  // 1 for voiced frames, 0 for unvoiced ones
+  voiced: Uint8Array
+}
+
+export const DEFAULT_MIN_F0 = 50
+export const DEFAULT_MAX_F0 = 1000
+export const DEFAULT_PITCH_THRESHOLD = 0.15
+
+// Frames quieter than this RMS (-80 dBFS) are unvoiced, YIN is undefined on silence
+const SILENCE_RMS = 1e-4
+
+// Correlate the first windowSize samples of each buffer with the whole buffer, for lags 0 to maxLag,
+// as FFT(head)* x FFT(buffer) in one batch
+function createCrossCorrelationTensor(
+  buffers: Float32Array,
+  frameCount: number,
+  fftSize: number,
+  windowSize: number,
+  maxLag: number,
+) {
+  return tf.tidy(() => {
+    let frames = tf.tensor2d(buffers, [frameCount, fftSize])
+    let mask = tf.concat([
+      tf.ones([windowSize]),
+      tf.zeros([fftSize - windowSize]),
+    ])
+    let head = tf.spectral.rfft(tf.mul(frames, mask))
+    let spectrum = tf.spectral.rfft(frames)
+    let headReal = tf.real(head)
+    let headImag = tf.imag(head)
+    let real = tf.real(spectrum)
+    let imag = tf.imag(spectrum)
+    let product = tf.complex(
+      tf.add(tf.mul(headReal, real), tf.mul(headImag, imag)),
+      tf.sub(tf.mul(headReal, imag), tf.mul(headImag, real)),
+    )
+    let correlation = tf.spectral.irfft(product) as tf.Tensor2D
+    return correlation.slice([0, 0], [frameCount, maxLag + 1])
+  })
+}
+
+// Estimate the F0 of each frame with YIN (de Cheveigné and Kawahara, 2002): the cumulative mean
+// normalized difference function, the first dip below the threshold, refined by parabolic interpolation.
+// Each frame compares windowSize samples with the ones a lag later, centred on the spectrogram frame,
+// so the contour lines up with the harmonics drawn in the same column.
+export async function getPitchTrack(
+  options: PitchTrackOptions,
+): Promise<PitchTrack> {
+  let { audioData, sampleRate, windowSize, hopSize, signal } = options
+  let minF0 = options.minF0 ?? DEFAULT_MIN_F0
+  let maxF0 = options.maxF0 ?? DEFAULT_MAX_F0
+  let threshold = options.threshold ?? DEFAULT_PITCH_THRESHOLD
+  if (!(minF0 > 0) || !(maxF0 > minF0)) {
+    throw new Error(
+      `Invalid F0 range: ${minF0} - ${maxF0} Hz, minF0 must be positive and below maxF0`,
+    )
+  }
+  if (maxF0 > sampleRate / 4) {
+    throw new Error(
+      `maxF0 (${maxF0} Hz) must be at most a quarter of the sample rate (${sampleRate} Hz)`,
+    )
+  }
+  let minLag = Math.max(2, Math.floor(sampleRate / maxF0))
+  let maxLag = Math.ceil(sampleRate / minF0)
+
+  let totalFrameCount = getFrameCount(audioData.length, windowSize, hopSize)
+  let [frameStart, frameEnd] = getRenderFrameRange(
+    totalFrameCount,
+    options.frameStart,
+    options.frameEnd,
+  )
+  let frameCount = Math.max(0, frameEnd - frameStart)
+  let track: PitchTrack = {
+    frameStart,
+    frameEnd: frameStart + frameCount,
+    times: getFrameCenterTimes(
+      frameStart,
+      frameStart + frameCount,
+      sampleRate,
+      windowSize,
+      hopSize,
+    ),
+    frequencies: new Float32Array(frameCount).fill(NaN),
+    confidences: new Float32Array(frameCount),
+    voiced: new Uint8Array(frameCount),
+  }
+
+  let bufferSize = windowSize + maxLag
+  let fftSize = 1 << Math.ceil(Math.log2(bufferSize))
+  // Sums of squares of the buffer, for the energy of the window at each lag
+  let energies = new Float64Array(bufferSize + 1)
+  let cmnd = new Float32Array(maxLag + 1)
+  await forEachFrameBlock(
+    {
+      signal,
+      fftSize,
+      frameStart,
+      frameEnd: frameStart + frameCount,
+      label: 'Pitch tracking',
+      onProgress: options.onProgress,
+    },
+    async (blockStart, blockEnd) => {
+      let blockFrameCount = blockEnd - blockStart
+      let buffers = new Float32Array(blockFrameCount * fftSize)
+      for (let i = 0; i < blockFrameCount; i++) {
+        // Half of the lags before the frame and half after it, zero outside the audio
+        let start = (blockStart + i) * hopSize - Math.floor(maxLag / 2)
+        let from = Math.max(0, start)
+        let to = Math.min(audioData.length, start + bufferSize)
+        if (to > from) {
+          buffers.set(audioData.subarray(from, to), i * fftSize + from - start)
+        }
+      }
+      let tensor = createCrossCorrelationTensor(
+        buffers,
+        blockFrameCount,
+        fftSize,
+        windowSize,
+        maxLag,
+      )
+      let correlations: Float32Array
+      try {
+        correlations = (await tensor.data()) as Float32Array
+      } finally {
+        tensor.dispose()
+      }
+
+      for (let i = 0; i < blockFrameCount; i++) {
+        let offset = i * fftSize
+        for (let j = 0; j < bufferSize; j++) {
+          let sample = buffers[offset + j]
+          energies[j + 1] = energies[j] + sample * sample
+        }
+        let headEnergy = energies[windowSize]
+        if (Math.sqrt(headEnergy / windowSize) < SILENCE_RMS) continue
+
+        // Cumulative mean normalized difference of each lag
+        let correlation = correlations.subarray(
+          i * (maxLag + 1),
+          (i + 1) * (maxLag + 1),
+        )
+        cmnd[0] = 1
+        let runningSum = 0
+        for (let lag = 1; lag <= maxLag; lag++) {
+          let lagEnergy = energies[lag + windowSize] - energies[lag]
+          let difference = Math.max(
+            0,
+            headEnergy + lagEnergy - 2 * correlation[lag],
+          )
+          runningSum += difference
+          cmnd[lag] = runningSum > 0 ? (difference * lag) / runningSum : 1
+        }
+
+        // The first dip below the threshold avoids octave errors, else the lowest value
+        let bestLag = -1
+        for (let lag = minLag; lag <= maxLag; lag++) {
+          if (cmnd[lag] < threshold) {
+            while (lag + 1 <= maxLag && cmnd[lag + 1] < cmnd[lag]) lag++
+            bestLag = lag
+            break
+          }
+        }
+        let voiced = bestLag >= 0
+        if (!voiced) {
+          bestLag = minLag
+          for (let lag = minLag + 1; lag <= maxLag; lag++) {
+            if (cmnd[lag] < cmnd[bestLag]) bestLag = lag
+          }
+        }
+
+        let period = bestLag
+        if (bestLag > 1 && bestLag < maxLag) {
+          let before = cmnd[bestLag - 1]
+          let at = cmnd[bestLag]
+          let after = cmnd[bestLag + 1]
+          let curvature = before - 2 * at + after
+          if (curvature > 0) {
+            period += (before - after) / (2 * curvature)
+          }
+        }
+        let index = blockStart - frameStart + i
+        track.confidences[index] = Math.max(0, Math.min(1, 1 - cmnd[bestLag]))
+        if (voiced) {
+          track.frequencies[index] = sampleRate / period
+          track.voiced[index] = 1
+        }
+      }
+    },
+  )
+  return track
+}
+
+// Pitch of the frame centred nearest to a time, null outside the track
+export function getPitchAtTime(
+  track: PitchTrack,
+  time: number,
+  sampleRate: number,
+  windowSize: number,
+  hopSize: number,
+) {
+  let index =
+    getFrameAtTime(time, sampleRate, windowSize, hopSize) - track.frameStart
+  if (index < 0 || index >= track.times.length) return null
+  return {
+    frequency: track.frequencies[index],
+    confidence: track.confidences[index],
+    voiced: track.voiced[index] === 1,
+  }
+}
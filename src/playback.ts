@@ -0,0 +1,167 @@
+export type PlaybackOptions = {
+  // Only play the range [start, end) in seconds, defaults to the whole buffer
+  start?: number
+  end?: number
+  // Repeat the range until paused
+  loop?: boolean
+  // Band-pass the audio to the frequencies [lowHz, highHz]
+  lowHz?: number
+  highHz?: number
+}
+
+export type AudioPlayer = ReturnType<typeof createAudioPlayer>
+
+// Filters per band edge, two 12 dB/octave biquads give a steeper 24 dB/octave slope
+const BAND_FILTER_STAGES = 2
+
+// Play an AudioBuffer from any position, keeping track of the playback time
+export function createAudioPlayer(
+  audioBuffer: AudioBuffer,
+  options: {
+    // Called when the playback reaches the end (not when paused)
+    onEnded?: () => void
+  } = {},
+) {
+  let duration = audioBuffer.duration
+  let audioContext: AudioContext | null = null
+  let sourceNode: AudioBufferSourceNode | null = null
+  let filterNodes: BiquadFilterNode[] = []
+  // Playback position when paused, or when the current source started
+  let startOffset = 0
+  let startContextTime = 0
+  // Range and filter of the current (or last) playback
+  let playbackOptions: PlaybackOptions = {}
+
+  function getAudioContext() {
+    // Created on the first play, browsers only start audio after a user gesture
+    audioContext ??= new AudioContext({ sampleRate: audioBuffer.sampleRate })
+    return audioContext
+  }
+
+  function getRange() {
+    let start = Math.max(0, Math.min(playbackOptions.start ?? 0, duration))
+    let end = Math.max(
+      start,
+      Math.min(playbackOptions.end ?? duration, duration),
+    )
+    return { start, end }
+  }
+
+  function isPlaying() {
+    return sourceNode !== null
+  }
+
+  // Playback position in seconds
+  function getCurrentTime() {
+    if (!sourceNode || !audioContext) return startOffset
+    let elapsed = audioContext.currentTime - startContextTime
+    let { start, end } = getRange()
+    if (playbackOptions.loop && end > start) {
+      let length = end - start
+      return start + ((startOffset - start + elapsed) % length)
+    }
+    return Math.min(end, startOffset + elapsed)
+  }
+
+  function stopSource() {
+    if (!sourceNode) return
+    sourceNode.onended = null
+    sourceNode.stop()
+    sourceNode.disconnect()
+    sourceNode = null
+    for (let filterNode of filterNodes) {
+      filterNode.disconnect()
+    }
+    filterNodes = []
+  }
+
+  // Chain high-pass and low-pass filters for the band, returns the input of the chain
+  function connectBandFilters(context: AudioContext) {
+    let { lowHz, highHz } = playbackOptions
+    let nyquist = context.sampleRate / 2
+    let output: AudioNode = context.destination
+    let addFilter = (type: BiquadFilterType, frequency: number) => {
+      for (let i = 0; i < BAND_FILTER_STAGES; i++) {
+        let filterNode = context.createBiquadFilter()
+        filterNode.type = type
+        filterNode.frequency.value = frequency
+        filterNode.connect(output)
+        filterNodes.push(filterNode)
+        output = filterNode
+      }
+    }
+    if (highHz !== undefined && highHz < nyquist) {
+      addFilter('lowpass', highHz)
+    }
+    if (lowHz !== undefined && lowHz > 0) {
+      addFilter('highpass', lowHz)
+    }
+    return output
+  }
+
+  // Start playing from the given time (defaults to the current position),
+  // with a new range and filter when options are given
+  async function play(time = getCurrentTime(), playback?: PlaybackOptions) {
+    let context = getAudioContext()
+    if (context.state === 'suspended') {
+      await context.resume()
+    }
+    stopSource()
+    if (playback) {
+      playbackOptions = playback
+    }
+    let { start, end } = getRange()
+    // Play from the start of the range when outside of it
+    startOffset = time >= start && time < end ? time : start
+    let node = context.createBufferSource()
+    node.buffer = audioBuffer
+    node.connect(connectBandFilters(context))
+    node.onended = () => {
+      stopSource()
+      startOffset = start
+      options.onEnded?.()
+    }
+    startContextTime = context.currentTime
+    if (playbackOptions.loop) {
+      node.loop = true
+      node.loopStart = start
+      node.loopEnd = end
+      node.start(0, startOffset)
+    } else {
+      node.start(0, startOffset, end - startOffset)
+    }
+    sourceNode = node
+  }
+
+  function pause() {
+    startOffset = getCurrentTime()
+    stopSource()
+  }
+
+  // Move the playback position, playback continues from there when playing
+  async function seek(time: number) {
+    time = Math.max(0, Math.min(time, duration))
+    if (isPlaying()) {
+      await play(time)
+    } else {
+      startOffset = time
+    }
+  }
+
+  async function close() {
+    stopSource()
+    await audioContext?.close()
+    audioContext = null
+  }
+
+  return {
+    audioBuffer,
+    duration,
+    isPlaying,
+    getCurrentTime,
+    play,
+    pause,
+    seek,
+    close,
+  }
+}
@@ -0,0 +1,335 @@
+// RGBA pixels, row-major from the top-left pixel, 4 bytes per pixel
+export type RgbaImage = {
+  width: number
+  height: number
+  data: Uint8ClampedArray
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+
+// Deflate window and match limits
+const WINDOW_SIZE = 32768
+const MIN_MATCH = 3
+const MAX_MATCH = 258
+// Candidates followed per position, more finds longer matches but is slower
+const MAX_CHAIN = 32
+const HASH_BITS = 15
+
+// Base lengths and extra bits of the length codes 257..285
+const LENGTH_BASES = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67,
+  83, 99, 115, 131, 163, 195, 227, 258,
+]
+const LENGTH_EXTRA_BITS = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5,
+  5, 5, 0,
+]
+// Base distances and extra bits of the distance codes 0..29
+const DISTANCE_BASES = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769,
+  1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577,
+]
+const DISTANCE_EXTRA_BITS = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11,
+  11, 12, 12, 13, 13,
+]
+
+let crcTable: Uint32Array | null = null
+
+function getCrcTable() {
+  if (crcTable) return crcTable
+  crcTable = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    crcTable[n] = c >>> 0
+  }
+  return crcTable
+}
+
+export function crc32(bytes: Uint8Array, start = 0, end = bytes.length) {
+  let table = getCrcTable()
+  let crc = 0xffffffff
+  for (let i = start; i < end; i++) {
+    crc = table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function adler32(bytes: Uint8Array) {
+  let a = 1
+  let b = 0
+  // Largest run of bytes before the sums must be reduced to stay within 32 bits
+  let chunk = 5552
+  for (let start = 0; start < bytes.length; start += chunk) {
+    let end = Math.min(start + chunk, bytes.length)
+    for (let i = start; i < end; i++) {
+      a += bytes[i]
+      b += a
+    }
+    a %= 65521
+    b %= 65521
+  }
+  return ((b << 16) | a) >>> 0
+}
+
+// Writes bits least significant first, as deflate packs them
+function createBitWriter(initialSize: number) {
+  let bytes = new Uint8Array(Math.max(1024, initialSize))
+  let length = 0
+  let bitBuffer = 0
+  let bitCount = 0
+
+  function pushByte(byte: number) {
+    if (length === bytes.length) {
+      let grown = new Uint8Array(bytes.length * 2)
+      grown.set(bytes)
+      bytes = grown
+    }
+    bytes[length++] = byte
+  }
+
+  function writeBits(value: number, count: number) {
+    bitBuffer |= value << bitCount
+    bitCount += count
+    while (bitCount >= 8) {
+      pushByte(bitBuffer & 0xff)
+      bitBuffer >>>= 8
+      bitCount -= 8
+    }
+  }
+
+  // Huffman codes are packed starting from their most significant bit
+  function writeCode(code: number, count: number) {
+    let reversed = 0
+    for (let i = 0; i < count; i++) {
+      reversed = (reversed << 1) | ((code >> i) & 1)
+    }
+    writeBits(reversed, count)
+  }
+
+  function finish() {
+    if (bitCount > 0) {
+      pushByte(bitBuffer & 0xff)
+      bitBuffer = 0
+      bitCount = 0
+    }
+    return bytes.subarray(0, length)
+  }
+
+  return { writeBits, writeCode, finish }
+}
+
+// Code of a literal byte or length symbol in the fixed Huffman table
+function writeLiteralLength(
+  writer: ReturnType<typeof createBitWriter>,
+  symbol: number,
+) {
+  if (symbol < 144) writer.writeCode(0x30 + symbol, 8)
+  else if (symbol < 256) writer.writeCode(0x190 + symbol - 144, 9)
+  else if (symbol < 280) writer.writeCode(symbol - 256, 7)
+  else writer.writeCode(0xc0 + symbol - 280, 8)
+}
+
+function writeMatch(
+  writer: ReturnType<typeof createBitWriter>,
+  length: number,
+  distance: number,
+) {
+  let lengthCode = 0
+  while (lengthCode < 28 && LENGTH_BASES[lengthCode + 1] <= length) {
+    lengthCode++
+  }
+  writeLiteralLength(writer, 257 + lengthCode)
+  writer.writeBits(
+    length - LENGTH_BASES[lengthCode],
+    LENGTH_EXTRA_BITS[lengthCode],
+  )
+  let distanceCode = 0
+  while (distanceCode < 29 && DISTANCE_BASES[distanceCode + 1] <= distance) {
+    distanceCode++
+  }
+  writer.writeCode(distanceCode, 5)
+  writer.writeBits(
+    distance - DISTANCE_BASES[distanceCode],
+    DISTANCE_EXTRA_BITS[distanceCode],
+  )
+}
+
+// Compress into a zlib stream: one deflate block with the fixed Huffman codes and LZ77 matches.
+// Not as small as zlib's dynamic codes, but spectrogram rows repeat a lot and pack well.
+export function zlibDeflate(bytes: Uint8Array) {
+  let writer = createBitWriter(bytes.length / 4)
+  // CMF (deflate, 32K window) and FLG (no dictionary, check bits)
+  writer.writeBits(0x78, 8)
+  writer.writeBits(0x01, 8)
+  // Final block, fixed Huffman codes
+  writer.writeBits(1, 1)
+  writer.writeBits(1, 2)
+
+  let hashSize = 1 << HASH_BITS
+  let head = new Int32Array(hashSize).fill(-1)
+  let previous = new Int32Array(WINDOW_SIZE)
+  let hashAt = (i: number) =>
+    Math.imul(
+      (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2],
+      0x9e3779b1,
+    ) >>>
+    (32 - HASH_BITS)
+  let insert = (i: number) => {
+    if (i + MIN_MATCH > bytes.length) return
+    let hash = hashAt(i)
+    previous[i % WINDOW_SIZE] = head[hash]
+    head[hash] = i
+  }
+
+  let i = 0
+  while (i < bytes.length) {
+    let bestLength = 0
+    let bestDistance = 0
+    if (i + MIN_MATCH <= bytes.length) {
+      let maxLength = Math.min(MAX_MATCH, bytes.length - i)
+      let candidate = head[hashAt(i)]
+      for (
+        let chain = 0;
+        chain < MAX_CHAIN && candidate >= 0 && i - candidate <= WINDOW_SIZE;
+        chain++
+      ) {
+        if (bytes[candidate + bestLength] === bytes[i + bestLength]) {
+          let length = 0
+          while (
+            length < maxLength &&
+            bytes[candidate + length] === bytes[i + length]
+          ) {
+            length++
+          }
+          if (length > bestLength) {
+            bestLength = length
+            bestDistance = i - candidate
+            if (length === maxLength) break
+          }
+        }
+        candidate = previous[candidate % WINDOW_SIZE]
+      }
+    }
+    if (bestLength >= MIN_MATCH) {
+      writeMatch(writer, bestLength, bestDistance)
+      for (let j = 0; j < bestLength; j++) {
+        insert(i + j)
+      }
+      i += bestLength
+    } else {
+      writeLiteralLength(writer, bytes[i])
+      insert(i)
+      i++
+    }
+  }
+  // End of block
+  writeLiteralLength(writer, 256)
+
+  let deflated = writer.finish()
+  let output = new Uint8Array(deflated.length + 4)
+  output.set(deflated)
+  new DataView(output.buffer).setUint32(deflated.length, adler32(bytes))
+  return output
+}
+
+function paethPredictor(left: number, up: number, upLeft: number) {
+  let estimate = left + up - upLeft
+  let distanceLeft = Math.abs(estimate - left)
+  let distanceUp = Math.abs(estimate - up)
+  let distanceUpLeft = Math.abs(estimate - upLeft)
+  if (distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft) return left
+  if (distanceUp <= distanceUpLeft) return up
+  return upLeft
+}
+
+// Prefix each row with the PNG filter that leaves the smallest residuals (sum of absolute values)
+function filterRows(image: RgbaImage) {
+  let { width, height, data } = image
+  let stride = width * 4
+  let output = new Uint8Array(height * (stride + 1))
+  let candidate = new Uint8Array(stride)
+  for (let y = 0; y < height; y++) {
+    let row = y * stride
+    let upRow = row - stride
+    let bestFilter = 0
+    let bestScore = Infinity
+    let outputOffset = y * (stride + 1)
+    for (let filter = 0; filter < 5; filter++) {
+      let score = 0
+      for (let x = 0; x < stride; x++) {
+        let value = data[row + x]
+        let left = x >= 4 ? data[row + x - 4] : 0
+        let up = y > 0 ? data[upRow + x] : 0
+        let upLeft = y > 0 && x >= 4 ? data[upRow + x - 4] : 0
+        let predicted =
+          filter === 0
+            ? 0
+            : filter === 1
+            ? left
+            : filter === 2
+            ? up
+            : filter === 3
+            ? (left + up) >> 1
+            : paethPredictor(left, up, upLeft)
+        let residual = (value - predicted) & 0xff
+        candidate[x] = residual
+        score += residual < 128 ? residual : 256 - residual
+      }
+      if (score < bestScore) {
+        bestScore = score
+        bestFilter = filter
+        output.set(candidate, outputOffset + 1)
+      }
+    }
+    output[outputOffset] = bestFilter
+  }
+  return output
+}
+
+function writeChunk(
+  chunks: Uint8Array[],
+  type: string,
+  data: Uint8Array = new Uint8Array(0),
+) {
+  let chunk = new Uint8Array(data.length + 12)
+  let view = new DataView(chunk.buffer)
+  view.setUint32(0, data.length)
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i)
+  }
+  chunk.set(data, 8)
+  view.setUint32(data.length + 8, crc32(chunk, 4, data.length + 8))
+  chunks.push(chunk)
+}
+
+// Encode RGBA pixels as an 8-bit truecolour-with-alpha PNG, without a canvas or zlib dependency
+export function encodePng(image: RgbaImage): Uint8Array {
+  let { width, height, data } = image
+  if (!(width > 0 && height > 0) || data.length !== width * height * 4) {
+    throw new Error(
+      `Invalid RGBA image: expected ${width}x${height}x4 bytes, got ${data.length}`,
+    )
+  }
+  let chunks: Uint8Array[] = [new Uint8Array(PNG_SIGNATURE)]
+  let header = new Uint8Array(13)
+  let headerView = new DataView(header.buffer)
+  headerView.setUint32(0, width)
+  headerView.setUint32(4, height)
+  // Bit depth 8, colour type 6 (RGBA), default compression, filtering and no interlace
+  header.set([8, 6, 0, 0, 0], 8)
+  writeChunk(chunks, 'IHDR', header)
+  writeChunk(chunks, 'IDAT', zlibDeflate(filterRows(image)))
+  writeChunk(chunks, 'IEND')
+
+  let png = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0))
+  let offset = 0
+  for (let chunk of chunks) {
+    png.set(chunk, offset)
+    offset += chunk.length
+  }
+  return png
+}
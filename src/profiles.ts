@@ -0,0 +1,200 @@
+import type { AudioProfile } from './core'
+import { DEFAULT_WINDOW_FUNCTION, WINDOW_FUNCTIONS } from './window-function'
+
+// A user-defined profile, stored and shared by name
+export type NamedAudioProfile = AudioProfile & { name: string }
+
+// Time and frequency resolution of a profile, derived from its sizes and sample rate
+export type AudioProfileResolution = {
+  // Duration of one analysis window
+  windowMs: number
+  // Time between the starts of two frames, the time resolution of the spectrogram
+  hopMs: number
+  overlapPercent: number
+  // Spacing of the FFT bins, the frequency resolution
+  binWidthHz: number
+  nyquistHz: number
+  maxFrequencyHz: number
+}
+
+// Sample rates an AudioContext accepts for decoding and playback
+export const MIN_SAMPLE_RATE = 3000
+export const MAX_SAMPLE_RATE = 768000
+export const MIN_WINDOW_SIZE = 16
+export const MAX_FFT_SIZE = 65536
+
+export const PROFILE_STORAGE_KEY = 'audio-spectrogram.profiles'
+
+export function isPowerOfTwo(value: number) {
+  return Number.isInteger(value) && value > 0 && (value & (value - 1)) === 0
+}
+
+// Hop size of frames that overlap by the given percentage of the window
+export function getHopSizeForOverlap(
+  windowSize: number,
+  overlapPercent: number,
+) {
+  return Math.max(1, Math.round(windowSize * (1 - overlapPercent / 100)))
+}
+
+export function getOverlapPercent(windowSize: number, hopSize: number) {
+  return Math.max(0, (1 - hopSize / windowSize) * 100)
+}
+
+export function getAudioProfileResolution(
+  profile: AudioProfile,
+): AudioProfileResolution {
+  let { sampleRate, windowSize, hopSize, fftSize, maxFrequency } = profile
+  let binWidthHz = sampleRate / fftSize
+  return {
+    windowMs: (windowSize / sampleRate) * 1000,
+    hopMs: (hopSize / sampleRate) * 1000,
+    overlapPercent: getOverlapPercent(windowSize, hopSize),
+    binWidthHz,
+    nyquistHz: sampleRate / 2,
+    maxFrequencyHz: maxFrequency * binWidthHz,
+  }
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0
+}
+
+// Problems that make a profile unusable, empty when it is valid
+export function validateAudioProfile(profile: AudioProfile): string[] {
+  let {
+    sampleRate,
+    windowSize,
+    hopSize,
+    fftSize,
+    windowFunction,
+    maxFrequency,
+  } = profile
+  let errors: string[] = []
+  if (
+    !isPositiveInteger(sampleRate) ||
+    sampleRate < MIN_SAMPLE_RATE ||
+    sampleRate > MAX_SAMPLE_RATE
+  ) {
+    errors.push(
+      `Sample rate must be an integer from ${MIN_SAMPLE_RATE} to ${MAX_SAMPLE_RATE} Hz`,
+    )
+  }
+  if (!isPositiveInteger(windowSize) || windowSize < MIN_WINDOW_SIZE) {
+    errors.push(`Window size must be an integer of at least ${MIN_WINDOW_SIZE}`)
+  }
+  if (!isPowerOfTwo(fftSize) || fftSize > MAX_FFT_SIZE) {
+    errors.push(`FFT size must be a power of two up to ${MAX_FFT_SIZE}`)
+  } else if (isPositiveInteger(windowSize) && fftSize < windowSize) {
+    errors.push(`FFT size (${fftSize}) must be at least the window size`)
+  }
+  if (!isPositiveInteger(hopSize)) {
+    errors.push('Hop size must be a positive integer')
+  } else if (isPositiveInteger(windowSize) && hopSize > windowSize) {
+    // A larger hop skips samples between frames
+    errors.push(`Hop size (${hopSize}) must not exceed the window size`)
+  }
+  if (!WINDOW_FUNCTIONS.includes(windowFunction)) {
+    errors.push(`Unknown window function: ${windowFunction}`)
+  }
+  if (!isPositiveInteger(maxFrequency)) {
+    errors.push('Max frequency must be at least one FFT bin')
+  } else if (isPowerOfTwo(fftSize) && maxFrequency > fftSize / 2) {
+    let nyquist = sampleRate / 2
+    errors.push(
+      `Max frequency (${Math.round(
+        (maxFrequency * sampleRate) / fftSize,
+      )} Hz) must not exceed the Nyquist frequency (${nyquist} Hz)`,
+    )
+  }
+  return errors
+}
+
+// Check the fields of an imported or stored profile, throwing with all problems
+export function parseNamedAudioProfile(value: unknown): NamedAudioProfile {
+  if (!value || typeof value !== 'object') {
+    throw new Error('Invalid profile: expected an object')
+  }
+  let input = value as Record<string, unknown>
+  let name = typeof input.name === 'string' ? input.name.trim() : ''
+  if (!name) {
+    throw new Error('Invalid profile: missing name')
+  }
+  let profile = {
+    name,
+    sampleRate: input.sampleRate,
+    windowSize: input.windowSize,
+    hopSize: input.hopSize,
+    // Profiles without zero-padding may leave out the FFT size
+    fftSize: input.fftSize ?? input.windowSize,
+    windowFunction: input.windowFunction ?? DEFAULT_WINDOW_FUNCTION,
+    maxFrequency: input.maxFrequency,
+  } as NamedAudioProfile
+  let errors = validateAudioProfile(profile)
+  if (errors.length > 0) {
+    throw new Error(`Invalid profile "${name}": ${errors.join('; ')}`)
+  }
+  return profile
+}
+
+// Read profiles from JSON: an array, a single profile, or { profiles: [...] } as exported
+export function parseAudioProfilesJson(text: string): NamedAudioProfile[] {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch (error) {
+    throw new Error(`Invalid profiles JSON: ${(error as Error).message}`)
+  }
+  let list =
+    json && typeof json === 'object' && 'profiles' in json
+      ? (json as { profiles: unknown }).profiles
+      : json
+  let items = Array.isArray(list) ? list : [list]
+  return items.map(parseNamedAudioProfile)
+}
+
+export function stringifyAudioProfiles(profiles: NamedAudioProfile[]) {
+  return JSON.stringify({ profiles }, null, 2)
+}
+
+// Profiles saved in localStorage (or another Storage), invalid entries are left out
+export function loadAudioProfiles(
+  storage: Pick<Storage, 'getItem'> = localStorage,
+): NamedAudioProfile[] {
+  let text = storage.getItem(PROFILE_STORAGE_KEY)
+  if (!text) return []
+  let json: { profiles?: unknown } | null
+  try {
+    json = JSON.parse(text)
+  } catch (error) {
+    console.warn('Ignoring stored profiles:', error)
+    return []
+  }
+  let profiles: NamedAudioProfile[] = []
+  for (let item of Array.isArray(json?.profiles) ? json!.profiles : []) {
+    try {
+      profiles.push(parseNamedAudioProfile(item))
+    } catch (error) {
+      console.warn('Ignoring stored profile:', error)
+    }
+  }
+  return profiles
+}
+
+export function saveAudioProfiles(
+  profiles: NamedAudioProfile[],
+  storage: Pick<Storage, 'setItem'> = localStorage,
+) {
+  storage.setItem(PROFILE_STORAGE_KEY, stringifyAudioProfiles(profiles))
+}
+
+// Add profiles, replacing the ones with the same name
+export function mergeAudioProfiles(
+  profiles: NamedAudioProfile[],
+  updates: NamedAudioProfile[],
+) {
+  let merged = profiles.filter(
+    profile => !updates.some(update => update.name === profile.name),
+  )
+  return [...merged, ...updates].sort((a, b) => a.name.localeCompare(b.name))
+}
@@ -0,0 +1,58 @@
+export type DrawProgress = {
+  percent: number
+  etaMs: number | null
+}
+
+export type PauseState = {
+  paused: boolean
+}
+
+export function getNow() {
+  return performance.now()
+}
+
+// Wait until resumed (or aborted) when paused
+export async function waitForResume(
+  pauseState: PauseState | undefined,
+  signal: AbortSignal | undefined,
+) {
+  if (!pauseState) return
+  while (pauseState.paused && !signal?.aborted) {
+    await new Promise(resolve => setTimeout(resolve, 50))
+  }
+}
+
+// Report progress whenever the whole percentage changes, with the ETA extrapolated from the elapsed time
+export function createProgressReporter(
+  onProgress: ((progress: DrawProgress) => void) | undefined,
+) {
+  let lastPercent = -1
+  let startTime = getNow()
+  return (progress: number) => {
+    if (!onProgress) return
+    let percent = Math.floor(progress * 100)
+    if (percent !== lastPercent) {
+      lastPercent = percent
+      let elapsedMs = getNow() - startTime
+      let speed = progress / elapsedMs
+      let etaMs = (1 - progress) / speed
+      onProgress({ percent, etaMs })
+    }
+  }
+}
+
+// Remaining time of a DrawProgress for status lines, e.g. "ETA 1m 5s"
+export function formatEta(etaMs: number | null) {
+  if (etaMs == null || !isFinite(etaMs) || etaMs < 0) {
+    return 'ETA --'
+  }
+  let seconds = etaMs / 1000
+  let roundedSeconds = Math.round(seconds * 10) / 10
+  if (roundedSeconds < 60) {
+    return `ETA ${roundedSeconds}s`
+  }
+  // Rounded before the split so 119.6s is 2m 0s rather than 1m 60s
+  let totalSeconds = Math.round(seconds)
+  let minutes = Math.floor(totalSeconds / 60)
+  return `ETA ${minutes}m ${totalSeconds - minutes * 60}s`
+}
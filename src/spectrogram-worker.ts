@@ -0,0 +1,175 @@
+// Worker entry of createSpectrogramWorkerPool, bundled on its own (web/spectrogram-worker.js).
+// Renders a strip of columns into an OffscreenCanvas and posts it back as ImageBitmaps.
+
+import { DEFAULT_COLORMAP } from './colormap'
+import { createMagnitudeCache, MagnitudeCache } from './magnitude-cache'
+import { getFullScaleMagnitude } from './magnitude-scale'
+import { paintSpectrogramColumns } from './paint'
+import { getNow, PauseState } from './progress'
+import { computeSpectrogramImage, getMagnitudeCacheKey } from './spectrogram'
+import { createWindow } from './window-function'
+import type {
+  MagnitudeTile,
+  SpectrogramWorkerRenderOptions,
+  SpectrogramWorkerRequest,
+  SpectrogramWorkerResponse,
+} from './worker-renderer'
+
+// Minimum interval between posted bitmaps, blocks read from the cache finish much faster
+const BITMAP_INTERVAL_MS = 30
+
+// The DOM typings describe a window, this is the part of the worker scope in use
+let scope = self as unknown as {
+  onmessage: ((event: MessageEvent<SpectrogramWorkerRequest>) => void) | null
+  postMessage(
+    message: SpectrogramWorkerResponse,
+    transfer?: Transferable[],
+  ): void
+}
+
+let audioData: Float32Array | null = null
+
+// Controls of the renders in progress, by render id
+let renders = new Map<
+  number,
+  { pauseState: PauseState; abortController: AbortController }
+>()
+
+scope.onmessage = event => {
+  let message = event.data
+  if (message.type === 'audio') {
+    audioData = message.audioData
+    return
+  }
+  if (message.type === 'render') {
+    let id = message.id
+    render(id, message.options).catch(error => {
+      scope.postMessage({ type: 'error', id, message: String(error) })
+    })
+    return
+  }
+  let controls = renders.get(message.id)
+  if (!controls) return
+  if (message.type === 'pause') {
+    controls.pauseState.paused = message.paused
+  } else if (message.type === 'abort') {
+    controls.abortController.abort()
+  }
+}
+
+async function render(id: number, options: SpectrogramWorkerRenderOptions) {
+  if (!audioData) {
+    throw new Error('No audio data received by the spectrogram worker')
+  }
+  let controls = {
+    pauseState: { paused: options.paused },
+    abortController: new AbortController(),
+  }
+  renders.set(id, controls)
+  try {
+    let { width, height, columnStart, columnEnd } = options
+    let stripWidth = columnEnd - columnStart
+
+    // The caller's cache lives on the main thread, so seed a local one with its tiles
+    // and send the newly computed tiles back
+    let cache: MagnitudeCache | undefined
+    let computedTiles: MagnitudeTile[] = []
+    if (options.tileFrames) {
+      let key = getMagnitudeCacheKey({ ...options, audioData })
+      let fullScaleMagnitude = getFullScaleMagnitude(
+        createWindow(options.windowSize, options),
+      )
+      let localCache = createMagnitudeCache({
+        tileFrames: options.tileFrames,
+        maxBytes: Infinity,
+      })
+      for (let tile of options.tiles) {
+        localCache.setTile(
+          key,
+          tile.tileIndex,
+          tile.magnitudes,
+          fullScaleMagnitude,
+        )
+      }
+      cache = {
+        ...localCache,
+        setTile: (key, tileIndex, magnitudes, fullScaleMagnitude) => {
+          localCache.setTile(key, tileIndex, magnitudes, fullScaleMagnitude)
+          computedTiles.push({ tileIndex, magnitudes })
+        },
+      }
+    }
+
+    let canvas = new OffscreenCanvas(stripWidth, height)
+    let context = canvas.getContext('2d')!
+    let imageData = new ImageData(width, height)
+    let lastPostTime = getNow()
+
+    let postBitmap = () => {
+      context.putImageData(
+        imageData,
+        -columnStart,
+        0,
+        columnStart,
+        0,
+        stripWidth,
+        height,
+      )
+      let bitmap = canvas.transferToImageBitmap()
+      scope.postMessage({ type: 'bitmap', id, bitmap }, [bitmap])
+      lastPostTime = getNow()
+    }
+
+    let image = await computeSpectrogramImage({
+      ...options,
+      audioData,
+      signal: controls.abortController.signal,
+      pauseState: controls.pauseState,
+      cache,
+      onColumns: (image, blockStart, blockEnd) => {
+        paintSpectrogramColumns(
+          imageData.data,
+          image,
+          options.colormap ?? DEFAULT_COLORMAP,
+          options.magnitudeScale,
+          blockStart,
+          blockEnd,
+        )
+        scope.postMessage({
+          type: 'progress',
+          id,
+          progress: (blockEnd - columnStart) / stripWidth,
+        })
+        if (getNow() - lastPostTime >= BITMAP_INTERVAL_MS) {
+          postBitmap()
+        }
+      },
+    })
+    postBitmap()
+
+    let values = new Float32Array(stripWidth * height)
+    for (let y = 0; y < height; y++) {
+      values.set(
+        image.values.subarray(y * width + columnStart, y * width + columnEnd),
+        y * stripWidth,
+      )
+    }
+    // Tiles may be views of one buffer, a buffer can only be listed once
+    let transfer = new Set<ArrayBuffer>([values.buffer])
+    for (let tile of computedTiles) {
+      transfer.add(tile.magnitudes.buffer as ArrayBuffer)
+    }
+    scope.postMessage(
+      {
+        type: 'done',
+        id,
+        values,
+        fullScaleMagnitude: image.fullScaleMagnitude,
+        tiles: computedTiles,
+      },
+      Array.from(transfer),
+    )
+  } finally {
+    renders.delete(id)
+  }
+}
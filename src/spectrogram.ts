@@ -0,0 +1,527 @@
+import * as tf from '@tensorflow/tfjs'
+import { FrequencyScale, getRowBinRanges } from './frequency-scale'
+import { MagnitudeCache, MagnitudeCacheKey } from './magnitude-cache'
+import { getFullScaleMagnitude } from './magnitude-scale'
+import {
+  createProgressReporter,
+  DrawProgress,
+  PauseState,
+  waitForResume,
+} from './progress'
+import { createWindow, WindowOptions } from './window-function'
+
+// Max-pooled FFT magnitudes of a rendered spectrogram, row-major from the top-left pixel.
+// Kept so the image can be re-coloured and re-levelled without recomputing the FFT.
+export type SpectrogramImage = {
+  width: number
+  height: number
+  values: Float32Array
+  // Magnitude of a full-scale sine wave with the same window, the 0 dBFS reference
+  fullScaleMagnitude: number
+}
+
+// Upper bound of samples in one batched FFT, to limit the memory of a block
+export const MAX_BLOCK_SAMPLES = 1 << 21
+
+export function getFftSize(windowSize: number, fftSize: number | undefined) {
+  fftSize ??= windowSize
+  if (fftSize < windowSize) {
+    throw new Error(
+      `fftSize (${fftSize}) must be greater than or equal to windowSize (${windowSize})`,
+    )
+  }
+  return fftSize
+}
+
+// Hz per FFT bin, only required to be known for non-linear frequency scales
+export function getBinWidth(
+  frequencyScale: FrequencyScale,
+  sampleRate: number | undefined,
+  fftSize: number,
+) {
+  if (sampleRate) {
+    return sampleRate / fftSize
+  }
+  if (frequencyScale !== 'linear') {
+    throw new Error(
+      `sampleRate is required for ${frequencyScale} frequency scale`,
+    )
+  }
+  return 1
+}
+
+export function getFrameCount(
+  sampleCount: number,
+  windowSize: number,
+  hopSize: number,
+) {
+  return Math.floor((sampleCount - windowSize) / hopSize) + 1
+}
+
+// Centre time (seconds) of each frame of [frameStart, frameEnd), where a change within the frame is placed.
+// The times of all frame analyses, such as pitch tracks and onsets, follow this convention.
+export function getFrameCenterTimes(
+  frameStart: number,
+  frameEnd: number,
+  sampleRate: number,
+  windowSize: number,
+  hopSize: number,
+) {
+  let times = new Float32Array(Math.max(0, frameEnd - frameStart))
+  for (let i = 0; i < times.length; i++) {
+    times[i] = ((frameStart + i) * hopSize + windowSize / 2) / sampleRate
+  }
+  return times
+}
+
+// Frame whose centre is nearest to a time (seconds), the inverse of getFrameCenterTimes
+export function getFrameAtTime(
+  time: number,
+  sampleRate: number,
+  windowSize: number,
+  hopSize: number,
+) {
+  return Math.round((time * sampleRate - windowSize / 2) / hopSize)
+}
+
+// Build the FFT magnitudes of frames [frameStart, frameEnd) as one 2-D tensor of shape [frames, binCount].
+// The frames are windowed into a single framed tensor so the whole block takes one FFT call.
+export function createFrameMagnitudeTensor(inputs: {
+  audioData: Float32Array
+  window: Float32Array
+  hopSize: number
+  fftSize: number
+  binCount: number
+  frameStart: number
+  frameEnd: number
+}) {
+  let { audioData, window, hopSize, fftSize, binCount, frameStart, frameEnd } =
+    inputs
+  let windowSize = window.length
+  let frameCount = frameEnd - frameStart
+  let framed = new Float32Array(frameCount * windowSize)
+  for (let i = 0; i < frameCount; i++) {
+    let start = (frameStart + i) * hopSize
+    let end = start + windowSize
+    if (end > audioData.length) {
+      end = audioData.length
+      start = Math.max(0, end - windowSize)
+    }
+    let offset = i * windowSize
+    for (let j = 0; j < end - start; j++) {
+      framed[offset + j] = audioData[start + j] * window[j]
+    }
+  }
+  return tf.tidy(() => {
+    let frames = tf.tensor2d(framed, [frameCount, windowSize])
+    // Zero-pad each windowed frame up to the FFT size
+    if (fftSize > windowSize) {
+      frames = tf.pad(frames, [
+        [0, 0],
+        [0, fftSize - windowSize],
+      ])
+    }
+    let spectrum = tf.spectral.rfft(frames)
+    let magnitude = tf.abs(spectrum) as tf.Tensor2D
+    return magnitude.slice([0, 0], [frameCount, binCount])
+  })
+}
+
+type FrameMagnitudeInputs = WindowOptions & {
+  audioData: Float32Array
+  windowSize: number
+  hopSize: number
+  // FFT size for zero-padding, must be at least windowSize, defaults to windowSize
+  fftSize?: number
+  // Number of FFT bins to keep, defaults to fftSize / 2
+  binCount?: number
+  frameStart: number
+  frameEnd: number
+}
+
+// Options of the analyses over the frames of a (mono) signal, such as pitch tracking and onset detection
+export type FrameAnalysisOptions = {
+  signal?: AbortSignal
+  // Mono samples, e.g. from getMonoAudioData
+  audioData: Float32Array
+  sampleRate: number
+  // Frames as in drawSpectrogram
+  windowSize: number
+  hopSize: number
+  onProgress?: (progress: DrawProgress) => void
+}
+
+// Options of the frame analyses of the windowed spectrum, such as spectral features and voice activity
+export type SpectrumAnalysisOptions = FrameAnalysisOptions &
+  WindowOptions & {
+    // FFT size for zero-padding, must be at least windowSize, defaults to windowSize
+    fftSize?: number
+  }
+
+export type FrameBlockOptions = {
+  signal?: AbortSignal
+  // FFT size of a frame, how many frames fit in a block follows from it
+  fftSize: number
+  frameStart: number
+  frameEnd: number
+  // Name of the analysis in the error thrown when aborted, e.g. 'Pitch tracking'
+  label: string
+  onProgress?: (progress: DrawProgress) => void
+}
+
+// Walk frames [frameStart, frameEnd) in blocks of at most MAX_BLOCK_SAMPLES FFT samples,
+// yielding to the event loop and reporting the progress after each block, and throwing when aborted
+export async function forEachFrameBlock(
+  options: FrameBlockOptions,
+  callback: (blockStart: number, blockEnd: number) => void | Promise<void>,
+) {
+  let { signal, fftSize, frameStart, frameEnd, label } = options
+  let blockFrames = Math.max(1, Math.floor(MAX_BLOCK_SAMPLES / fftSize))
+  let reportProgress = createProgressReporter(options.onProgress)
+  for (
+    let blockStart = frameStart;
+    blockStart < frameEnd;
+    blockStart += blockFrames
+  ) {
+    if (signal?.aborted) {
+      throw new Error(`${label} was aborted`)
+    }
+    let blockEnd = Math.min(blockStart + blockFrames, frameEnd)
+    await callback(blockStart, blockEnd)
+    reportProgress((blockEnd - frameStart) / (frameEnd - frameStart))
+    // Keep the page responsive between blocks
+    await new Promise(resolve => setTimeout(resolve, 0))
+  }
+}
+
+// forEachFrameBlock with the FFT magnitudes of each block, a row-major (blockEnd - blockStart) x binCount matrix
+export async function forEachFrameMagnitudeBlock(
+  options: FrameMagnitudeInputs & Omit<FrameBlockOptions, 'fftSize'>,
+  callback: (
+    magnitudes: Float32Array,
+    blockStart: number,
+    blockEnd: number,
+  ) => void,
+) {
+  let fftSize = getFftSize(options.windowSize, options.fftSize)
+  await forEachFrameBlock(
+    { ...options, fftSize },
+    async (blockStart, blockEnd) => {
+      let magnitudes = await getFrameMagnitudes({
+        ...options,
+        fftSize,
+        frameStart: blockStart,
+        frameEnd: blockEnd,
+      })
+      callback(magnitudes, blockStart, blockEnd)
+    },
+  )
+}
+
+// Compute the FFT magnitudes of frames [frameStart, frameEnd),
+// as a row-major (frameEnd - frameStart) x binCount matrix
+export async function getFrameMagnitudes(inputs: FrameMagnitudeInputs) {
+  let fftSize = getFftSize(inputs.windowSize, inputs.fftSize)
+  let tensor = createFrameMagnitudeTensor({
+    ...inputs,
+    window: createWindow(inputs.windowSize, inputs),
+    fftSize,
+    binCount: inputs.binCount ?? fftSize / 2,
+  })
+  try {
+    return (await tensor.data()) as Float32Array
+  } finally {
+    tensor.dispose()
+  }
+}
+
+// Key of the magnitudes cached by computeSpectrogramImage for these settings
+export function getMagnitudeCacheKey(
+  inputs: WindowOptions & {
+    audioData: Float32Array
+    windowSize: number
+    hopSize: number
+    fftSize?: number
+    maxFrequency: number
+  },
+): MagnitudeCacheKey {
+  return {
+    audioData: inputs.audioData,
+    windowSize: inputs.windowSize,
+    hopSize: inputs.hopSize,
+    fftSize: getFftSize(inputs.windowSize, inputs.fftSize),
+    binCount: inputs.maxFrequency,
+    windowFunction: inputs.windowFunction,
+    kaiserBeta: inputs.kaiserBeta,
+    gaussianSigma: inputs.gaussianSigma,
+  }
+}
+
+// Frame range [start, end) of a render, clamped to the frames of the audio
+export function getRenderFrameRange(
+  totalFrameCount: number,
+  frameStart: number | undefined,
+  frameEnd: number | undefined,
+): [number, number] {
+  let start = frameStart ?? 0
+  let end = frameEnd ?? totalFrameCount
+  start = Math.max(0, Math.min(start, totalFrameCount - 1))
+  end = Math.max(0, Math.min(end, totalFrameCount))
+  return [start, end]
+}
+
+// Frame range [start, end) that is max pooled into a pixel column
+export function getColumnFrameRange(
+  x: number,
+  width: number,
+  startFrame: number,
+  frameCount: number,
+): [number, number] {
+  // x=0 maps to startFrame, x=width-1 maps to endFrame-1
+  let frameIndexStart = startFrame + (x / width) * frameCount
+  let frameIndexEnd = startFrame + ((x + 1) / width) * frameCount
+  // Clamp frame range to valid values
+  let start = Math.max(
+    startFrame,
+    Math.min(Math.floor(frameIndexStart), startFrame + frameCount - 1),
+  )
+  let end = Math.max(
+    startFrame,
+    Math.min(Math.ceil(frameIndexEnd), startFrame + frameCount),
+  )
+  return [start, end]
+}
+
+// Compute the max-pooled magnitudes of a spectrogram image without touching the DOM.
+// Columns are processed in blocks: the frames of a block are framed and transformed in one batch,
+// then read back at once and pooled into pixels.
+export async function computeSpectrogramImage(
+  inputs: WindowOptions & {
+    signal?: AbortSignal
+    audioData: Float32Array
+    windowSize: number
+    hopSize: number
+    // FFT size for zero-padding, must be at least windowSize, defaults to windowSize
+    fftSize?: number
+    // Number of FFT bins shown
+    maxFrequency: number
+    // Lowest frequency (Hz) shown at the bottom row, needs sampleRate, defaults to 0
+    lowHz?: number
+    width: number
+    height: number
+    frameStart?: number
+    frameEnd?: number
+    // Only compute columns [columnStart, columnEnd), defaults to the whole width
+    columnStart?: number
+    columnEnd?: number
+    pauseState?: PauseState
+    frequencyScale?: FrequencyScale
+    // Required for non-linear frequency scales
+    sampleRate?: number
+    // Reuse magnitudes computed by earlier renders, only missing frames are transformed
+    cache?: MagnitudeCache
+    // Called after the columns [columnStart, columnEnd) are written into the image
+    onColumns?: (
+      image: SpectrogramImage,
+      columnStart: number,
+      columnEnd: number,
+    ) => void
+  },
+): Promise<SpectrogramImage> {
+  let {
+    signal,
+    audioData,
+    windowSize,
+    hopSize,
+    maxFrequency,
+    width,
+    height,
+    pauseState,
+    cache,
+    onColumns,
+  } = inputs
+
+  let fftSize = getFftSize(windowSize, inputs.fftSize)
+  let totalFrameCount = getFrameCount(audioData.length, windowSize, hopSize)
+  let frequencyBinCount = fftSize / 2
+
+  if (maxFrequency > frequencyBinCount) {
+    throw new Error(
+      `maxFrequency (${maxFrequency}) must be less than frequencyBinCount (${frequencyBinCount})`,
+    )
+  }
+
+  if (width <= 0 || height <= 0) {
+    throw new Error('Canvas width and height must be greater than 0')
+  }
+
+  // Determine frame range to render (default to all frames)
+  let [startFrame, endFrame] = getRenderFrameRange(
+    totalFrameCount,
+    inputs.frameStart,
+    inputs.frameEnd,
+  )
+  let frameCount = endFrame - startFrame
+
+  if (frameCount <= 0) {
+    throw new Error(
+      'Invalid frame range: frameStart must be less than frameEnd',
+    )
+  }
+
+  let scale = inputs.frequencyScale ?? 'linear'
+  let rowBinRanges = getRowBinRanges(height, {
+    scale,
+    binCount: maxFrequency,
+    binWidth: getBinWidth(scale, inputs.sampleRate, fftSize),
+    minHz: inputs.lowHz,
+  })
+
+  let analysisWindow = createWindow(windowSize, inputs)
+  let image: SpectrogramImage = {
+    width,
+    height,
+    values: new Float32Array(width * height),
+    fullScaleMagnitude: getFullScaleMagnitude(analysisWindow),
+  }
+  let values = image.values
+
+  let maxBlockFrames = Math.max(1, Math.floor(MAX_BLOCK_SAMPLES / fftSize))
+
+  // Transform frames [frameStart, frameEnd) in one batch and read them back at once
+  let computeFrames = async (frameStart: number, frameEnd: number) => {
+    let tensor = createFrameMagnitudeTensor({
+      audioData,
+      window: analysisWindow,
+      hopSize,
+      fftSize,
+      binCount: maxFrequency,
+      frameStart,
+      frameEnd,
+    })
+    try {
+      return (await tensor.data()) as Float32Array
+    } finally {
+      tensor.dispose()
+    }
+  }
+
+  let cacheKey = getMagnitudeCacheKey(inputs)
+
+  // Get frames [frameStart, frameEnd) from the cache tiles, computing the missing tiles
+  let readFrames = async (frameStart: number, frameEnd: number) => {
+    if (!cache) {
+      return computeFrames(frameStart, frameEnd)
+    }
+    let tileFrames = cache.tileFrames
+    let magnitudes = new Float32Array((frameEnd - frameStart) * maxFrequency)
+    let firstTile = Math.floor(frameStart / tileFrames)
+    let lastTile = Math.ceil(frameEnd / tileFrames)
+    for (let tileIndex = firstTile; tileIndex < lastTile; tileIndex++) {
+      let tileStart = tileIndex * tileFrames
+      let tile = cache.getTile(cacheKey, tileIndex)
+      if (!tile) {
+        let tileEnd = Math.min(tileStart + tileFrames, totalFrameCount)
+        tile = await computeFrames(tileStart, tileEnd)
+        cache.setTile(cacheKey, tileIndex, tile, image.fullScaleMagnitude)
+      }
+      let copyStart = Math.max(frameStart, tileStart)
+      let copyEnd = Math.min(frameEnd, tileStart + tileFrames)
+      magnitudes.set(
+        tile.subarray(
+          (copyStart - tileStart) * maxFrequency,
+          (copyEnd - tileStart) * maxFrequency,
+        ),
+        (copyStart - frameStart) * maxFrequency,
+      )
+    }
+    return magnitudes
+  }
+  let columnStart = Math.max(0, inputs.columnStart ?? 0)
+  let columnEnd = Math.min(width, inputs.columnEnd ?? width)
+
+  let x = columnStart
+  while (x < columnEnd && !signal?.aborted) {
+    // Check for pause and wait if paused
+    await waitForResume(pauseState, signal)
+    if (signal?.aborted) break
+
+    // Take as many columns as fit into one block of frames (at least one column)
+    let blockStart = x
+    let [blockFrameStart, blockFrameEnd] = getColumnFrameRange(
+      x,
+      width,
+      startFrame,
+      frameCount,
+    )
+    let blockEnd = x + 1
+    while (blockEnd < columnEnd) {
+      let [, frameEndIdx] = getColumnFrameRange(
+        blockEnd,
+        width,
+        startFrame,
+        frameCount,
+      )
+      if (frameEndIdx - blockFrameStart > maxBlockFrames) break
+      blockFrameEnd = frameEndIdx
+      blockEnd++
+    }
+
+    // Max pooling horizontally: frames into the columns of this block
+    let columnMax = new Float32Array((blockEnd - blockStart) * maxFrequency)
+    for (
+      let chunkStart = blockFrameStart;
+      chunkStart < blockFrameEnd && !signal?.aborted;
+      chunkStart += maxBlockFrames
+    ) {
+      let chunkEnd = Math.min(chunkStart + maxBlockFrames, blockFrameEnd)
+      let magnitudes = await readFrames(chunkStart, chunkEnd)
+      for (let column = blockStart; column < blockEnd; column++) {
+        let [frameStartIdx, frameEndIdx] = getColumnFrameRange(
+          column,
+          width,
+          startFrame,
+          frameCount,
+        )
+        frameStartIdx = Math.max(frameStartIdx, chunkStart)
+        frameEndIdx = Math.min(frameEndIdx, chunkEnd)
+        let maxOffset = (column - blockStart) * maxFrequency
+        for (let frame = frameStartIdx; frame < frameEndIdx; frame++) {
+          let frameOffset = (frame - chunkStart) * maxFrequency
+          for (let bin = 0; bin < maxFrequency; bin++) {
+            let magnitude = magnitudes[frameOffset + bin]
+            if (magnitude > columnMax[maxOffset + bin]) {
+              columnMax[maxOffset + bin] = magnitude
+            }
+          }
+        }
+      }
+    }
+    if (signal?.aborted) break
+
+    // Write the maximum values to the pixel columns, with vertical max pooling
+    for (let column = blockStart; column < blockEnd; column++) {
+      let maxOffset = (column - blockStart) * maxFrequency
+      for (let y = 0; y < height; y++) {
+        // Each row covers a range of frequency bins according to the frequency scale
+        // y=0 is top (highest frequency), y=height-1 is bottom (lowest frequency)
+        let freqStart = rowBinRanges[y * 2]
+        let freqEnd = rowBinRanges[y * 2 + 1]
+
+        // Find maximum value across frequency bins for this pixel
+        let maxMag = 0
+        for (let freq = freqStart; freq < freqEnd; freq++) {
+          if (columnMax[maxOffset + freq] > maxMag) {
+            maxMag = columnMax[maxOffset + freq]
+          }
+        }
+        values[y * width + column] = maxMag
+      }
+    }
+
+    onColumns?.(image, blockStart, blockEnd)
+    x = blockEnd
+  }
+
+  return image
+}
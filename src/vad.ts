@@ -0,0 +1,213 @@
+import { getFullScaleMagnitude, getPercentile } from './magnitude-scale'
+import {
+  forEachFrameMagnitudeBlock,
+  getFftSize,
+  getFrameCenterTimes,
+  getFrameCount,
+  SpectrumAnalysisOptions,
+} from './spectrogram'
+import { createWindow } from './window-function'
+
+export type VoiceActivityOptions = SpectrumAnalysisOptions & {
+  // Level above the noise floor of the speech band (dB) from which a frame can be speech
+  thresholdDb?: number
+  // Spectral flatness of the speech band (0 tonal to 1 white noise) above which a frame is noise
+  maxFlatness?: number
+  // Shorter speech is dropped, shorter pauses are bridged, in seconds
+  minSpeechSeconds?: number
+  minSilenceSeconds?: number
+}
+
+export type VoiceSegment = {
+  startTime: number
+  endTime: number
+  speech: boolean
+}
+
+export type VoiceActivity = {
+  // Centre time (seconds) of each frame
+  times: Float32Array
+  // Level of the speech band in dB relative to a full-scale sine, per frame
+  levels: Float32Array
+  // Spectral flatness of the speech band, per frame
+  flatness: Float32Array
+  // Noise floor of the speech band (dB), a low percentile of the levels
+  noiseFloorDb: number
+  // 1 for speech frames after the minimum durations are applied
+  speech: Uint8Array
+  // Alternating speech and non-speech segments covering the whole audio
+  segments: VoiceSegment[]
+}
+
+export const DEFAULT_VAD_THRESHOLD_DB = 12
+// Windowed white noise has a flatness of about 0.6, voiced speech below 0.1
+export const DEFAULT_VAD_MAX_FLATNESS = 0.4
+export const DEFAULT_MIN_SPEECH_SECONDS = 0.2
+export const DEFAULT_MIN_SILENCE_SECONDS = 0.3
+
+// Band holding most of the energy of speech, as in telephony
+const SPEECH_LOW_HZ = 300
+const SPEECH_HIGH_HZ = 3400
+
+// Percentile of the frame levels taken as the noise floor, recordings are rarely speech throughout
+const NOISE_FLOOR_PERCENTILE = 10
+
+// Levels below this (-100 dB relative to a full-scale sine) count as silence
+const POWER_FLOOR = 1e-10
+
+// Set runs of value shorter than minLength frames to the other value, except at the ends when keepEnds is set
+function removeShortRuns(
+  flags: Uint8Array,
+  value: number,
+  minLength: number,
+  keepEnds: boolean,
+) {
+  let start = 0
+  while (start < flags.length) {
+    let end = start
+    while (end < flags.length && flags[end] === flags[start]) end++
+    let atEnd = start === 0 || end === flags.length
+    if (
+      flags[start] === value &&
+      end - start < minLength &&
+      !(keepEnds && atEnd)
+    ) {
+      flags.fill(1 - value, start, end)
+    }
+    start = end
+  }
+}
+
+// Split the audio into speech and non-speech. A frame is speech when the level of its 300-3400 Hz band
+// is thresholdDb above the noise floor and that band is not noise-like (flatness at most maxFlatness).
+// Pauses shorter than minSilenceSeconds are then bridged and speech shorter than minSpeechSeconds dropped.
+export async function detectVoiceActivity(
+  options: VoiceActivityOptions,
+): Promise<VoiceActivity> {
+  let { audioData, sampleRate, windowSize, hopSize } = options
+  let fftSize = getFftSize(windowSize, options.fftSize)
+  let thresholdDb = options.thresholdDb ?? DEFAULT_VAD_THRESHOLD_DB
+  let maxFlatness = options.maxFlatness ?? DEFAULT_VAD_MAX_FLATNESS
+  let minSpeechSeconds = options.minSpeechSeconds ?? DEFAULT_MIN_SPEECH_SECONDS
+  let minSilenceSeconds =
+    options.minSilenceSeconds ?? DEFAULT_MIN_SILENCE_SECONDS
+  if (!(minSpeechSeconds >= 0) || !(minSilenceSeconds >= 0)) {
+    throw new Error('Minimum speech and silence durations must not be negative')
+  }
+
+  let times = getFrameCenterTimes(
+    0,
+    getFrameCount(audioData.length, windowSize, hopSize),
+    sampleRate,
+    windowSize,
+    hopSize,
+  )
+  let frameCount = times.length
+  let levels = new Float32Array(frameCount)
+  let flatness = new Float32Array(frameCount)
+
+  let binWidth = sampleRate / fftSize
+  let binStart = Math.max(1, Math.floor(SPEECH_LOW_HZ / binWidth))
+  let binEnd = Math.min(fftSize / 2, Math.ceil(SPEECH_HIGH_HZ / binWidth))
+  if (binEnd <= binStart) {
+    throw new Error(
+      `Sample rate ${sampleRate} Hz is too low for the ${SPEECH_LOW_HZ}-${SPEECH_HIGH_HZ} Hz speech band`,
+    )
+  }
+  let bandBinCount = binEnd - binStart
+  let fullScaleMagnitude = getFullScaleMagnitude(
+    createWindow(windowSize, options),
+  )
+  await forEachFrameMagnitudeBlock(
+    {
+      ...options,
+      fftSize,
+      binCount: binEnd,
+      frameStart: 0,
+      frameEnd: frameCount,
+      label: 'Voice activity detection',
+    },
+    (magnitudes, blockStart, blockEnd) => {
+      for (let frame = blockStart; frame < blockEnd; frame++) {
+        let offset = (frame - blockStart) * binEnd
+        let powerSum = 0
+        let logPowerSum = 0
+        for (let bin = binStart; bin < binEnd; bin++) {
+          let magnitude = magnitudes[offset + bin] / fullScaleMagnitude
+          let power = magnitude * magnitude + POWER_FLOOR
+          powerSum += power
+          logPowerSum += Math.log(power)
+        }
+        levels[frame] = 10 * Math.log10(powerSum)
+        flatness[frame] =
+          Math.exp(logPowerSum / bandBinCount) / (powerSum / bandBinCount)
+      }
+    },
+  )
+
+  let noiseFloorDb =
+    frameCount > 0 ? getPercentile(levels, NOISE_FLOOR_PERCENTILE) : -100
+  let speech = new Uint8Array(frameCount)
+  for (let i = 0; i < frameCount; i++) {
+    if (levels[i] >= noiseFloorDb + thresholdDb && flatness[i] <= maxFlatness) {
+      speech[i] = 1
+    }
+  }
+  let frameRate = sampleRate / hopSize
+  // Pauses at the start and end are not between speech, they stay
+  removeShortRuns(speech, 0, minSilenceSeconds * frameRate, true)
+  removeShortRuns(speech, 1, minSpeechSeconds * frameRate, false)
+
+  // Frame i stands for the hop around its centre, the first and last segments reach the ends of the audio
+  let duration = audioData.length / sampleRate
+  let segments: VoiceSegment[] = []
+  for (let i = 0; i < frameCount; i++) {
+    let isSpeech = speech[i] === 1
+    let last = segments[segments.length - 1]
+    if (last?.speech === isSpeech) continue
+    let startTime =
+      i === 0 ? 0 : (i * hopSize + (windowSize - hopSize) / 2) / sampleRate
+    if (last) last.endTime = startTime
+    segments.push({ startTime, endTime: duration, speech: isSpeech })
+  }
+  return { times, levels, flatness, noiseFloorDb, speech, segments }
+}
+
+function formatSeconds(seconds: number) {
+  return String(+seconds.toFixed(6))
+}
+
+// CSV of the speech segments (or all segments), one "start_s,end_s,label" row each
+export function encodeVoiceSegmentsCsv(
+  segments: VoiceSegment[],
+  speechOnly = true,
+) {
+  let lines = ['start_s,end_s,label']
+  for (let segment of segments) {
+    if (speechOnly && !segment.speech) continue
+    lines.push(
+      [
+        formatSeconds(segment.startTime),
+        formatSeconds(segment.endTime),
+        segment.speech ? 'speech' : 'silence',
+      ].join(','),
+    )
+  }
+  return lines.join('\n') + '\n'
+}
+
+// JSON array of { start, end, label } in seconds, of the speech segments (or all segments)
+export function encodeVoiceSegmentsJson(
+  segments: VoiceSegment[],
+  speechOnly = true,
+) {
+  return JSON.stringify(
+    segments
+      .filter(segment => !speechOnly || segment.speech)
+      .map(segment => ({
+        start: +segment.startTime.toFixed(6),
+        end: +segment.endTime.toFixed(6),
+        label: segment.speech ? 'speech' : 'silence',
+      })),
+  )
+}
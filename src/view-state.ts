@@ -0,0 +1,113 @@
+// Time range and frequency band of a selection, without a band it covers all frequencies
+export type ViewStateSelection = {
+  startTime: number
+  endTime: number
+  lowHz?: number
+  highHz?: number
+}
+
+// What is shown in the spectrogram view, shared as the fragment of a page URL.
+// Missing fields keep the page defaults.
+export type ViewState = {
+  // Audio file loaded with loadUrl, local files cannot be shared
+  sourceUrl?: string
+  // Value of the profile select, e.g. "low-precision" or "custom:<name>"
+  profile?: string
+  maxFrequencyHz?: number
+  // Canvas height in pixels
+  height?: number
+  // Time window of the view in seconds
+  zoomSeconds?: number
+  // Time at the left edge of the view in seconds, unlike the pixel offset it does not depend on the page width
+  startTime?: number
+  selection?: ViewStateSelection
+}
+
+// Digits kept in the URL: sub-sample times and tenths of a Hz
+const TIME_DIGITS = 6
+const FREQUENCY_DIGITS = 1
+
+function formatNumber(value: number, digits: number) {
+  return String(+value.toFixed(digits))
+}
+
+function parseNumber(text: string | null, min: number) {
+  if (text === null || !text.trim()) return undefined
+  let value = Number(text)
+  return Number.isFinite(value) && value >= min ? value : undefined
+}
+
+// Encode a view state as URL parameters, e.g. "src=a.wav&zoom=2&start=10.5&sel=11,12,300,3400"
+export function encodeViewState(state: ViewState): string {
+  let params = new URLSearchParams()
+  if (state.sourceUrl) params.set('src', state.sourceUrl)
+  if (state.profile) params.set('profile', state.profile)
+  if (state.maxFrequencyHz !== undefined) {
+    params.set('maxHz', formatNumber(state.maxFrequencyHz, FREQUENCY_DIGITS))
+  }
+  if (state.height !== undefined) {
+    params.set('height', String(Math.round(state.height)))
+  }
+  if (state.zoomSeconds !== undefined) {
+    params.set('zoom', formatNumber(state.zoomSeconds, TIME_DIGITS))
+  }
+  if (state.startTime !== undefined) {
+    params.set('start', formatNumber(state.startTime, TIME_DIGITS))
+  }
+  let { selection } = state
+  if (selection) {
+    let values = [
+      formatNumber(selection.startTime, TIME_DIGITS),
+      formatNumber(selection.endTime, TIME_DIGITS),
+    ]
+    if (selection.lowHz !== undefined && selection.highHz !== undefined) {
+      values.push(
+        formatNumber(selection.lowHz, FREQUENCY_DIGITS),
+        formatNumber(selection.highHz, FREQUENCY_DIGITS),
+      )
+    }
+    params.set('sel', values.join(','))
+  }
+  return params.toString()
+}
+
+// Read a view state from URL parameters (a leading "#" or "?" is ignored).
+// Invalid values are left out, so a hand-edited link still opens what it can.
+export function decodeViewState(text: string): ViewState {
+  let params = new URLSearchParams(text.replace(/^[#?]/, ''))
+  let state: ViewState = {}
+  let sourceUrl = params.get('src')?.trim()
+  if (sourceUrl) state.sourceUrl = sourceUrl
+  let profile = params.get('profile')?.trim()
+  if (profile) state.profile = profile
+  let maxFrequencyHz = parseNumber(params.get('maxHz'), 0)
+  if (maxFrequencyHz) state.maxFrequencyHz = maxFrequencyHz
+  let height = parseNumber(params.get('height'), 1)
+  if (height !== undefined) state.height = Math.round(height)
+  let zoomSeconds = parseNumber(params.get('zoom'), 0)
+  if (zoomSeconds) state.zoomSeconds = zoomSeconds
+  let startTime = parseNumber(params.get('start'), 0)
+  if (startTime !== undefined) state.startTime = startTime
+  let selection = params.get('sel')
+  if (selection) {
+    let values = selection.split(',').map(value => parseNumber(value, 0))
+    let [startTime, endTime, lowHz, highHz] = values
+    if (
+      (values.length === 2 || values.length === 4) &&
+      values.every(value => value !== undefined) &&
+      startTime! < endTime! &&
+      (values.length === 2 || lowHz! < highHz!)
+    ) {
+      state.selection =
+        values.length === 2
+          ? { startTime: startTime!, endTime: endTime! }
+          : {
+              startTime: startTime!,
+              endTime: endTime!,
+              lowHz: lowHz!,
+              highHz: highHz!,
+            }
+    }
+  }
+  return state
+}
@@ -0,0 +1,98 @@
+export type WindowFunction =
+  | 'rectangular'
+  | 'hann'
+  | 'hamming'
+  | 'blackman'
+  | 'blackman-harris'
+  | 'kaiser'
+  | 'gaussian'
+
+export const WINDOW_FUNCTIONS: WindowFunction[] = [
+  'rectangular',
+  'hann',
+  'hamming',
+  'blackman',
+  'blackman-harris',
+  'kaiser',
+  'gaussian',
+]
+
+export const DEFAULT_WINDOW_FUNCTION: WindowFunction = 'hamming'
+
+export type WindowOptions = {
+  windowFunction?: WindowFunction
+  // Shape parameter of the Kaiser window, larger beta trades resolution for lower sidelobes
+  kaiserBeta?: number
+  // Standard deviation of the Gaussian window, relative to half the window size
+  gaussianSigma?: number
+}
+
+export const DEFAULT_KAISER_BETA = 8.6
+export const DEFAULT_GAUSSIAN_SIGMA = 0.4
+
+// Zeroth order modified Bessel function of the first kind (power series)
+function besselI0(x: number) {
+  let sum = 1
+  let term = 1
+  let halfX = x / 2
+  for (let k = 1; k < 50; k++) {
+    term *= (halfX / k) * (halfX / k)
+    sum += term
+    if (term < sum * 1e-12) break
+  }
+  return sum
+}
+
+// Generalized cosine window: a0 - a1 cos(2πn/N) + a2 cos(4πn/N) - a3 cos(6πn/N)
+function cosineSum(n: number, size: number, coefficients: number[]) {
+  let phase = (2 * Math.PI * n) / size
+  let value = 0
+  for (let k = 0; k < coefficients.length; k++) {
+    let sign = k % 2 === 0 ? 1 : -1
+    value += sign * coefficients[k] * Math.cos(k * phase)
+  }
+  return value
+}
+
+// Create the window coefficients of the given size.
+// Windows are periodic (DFT-even), matching tf.signal.hammingWindow for even sizes.
+export function createWindow(size: number, options: WindowOptions = {}) {
+  let windowFunction = options.windowFunction ?? DEFAULT_WINDOW_FUNCTION
+  let window = new Float32Array(size)
+  for (let n = 0; n < size; n++) {
+    window[n] = getWindowValue(n, size, windowFunction, options)
+  }
+  return window
+}
+
+function getWindowValue(
+  n: number,
+  size: number,
+  windowFunction: WindowFunction,
+  options: WindowOptions,
+) {
+  switch (windowFunction) {
+    case 'rectangular':
+      return 1
+    case 'hann':
+      return cosineSum(n, size, [0.5, 0.5])
+    case 'hamming':
+      return cosineSum(n, size, [0.54, 0.46])
+    case 'blackman':
+      return cosineSum(n, size, [0.42, 0.5, 0.08])
+    case 'blackman-harris':
+      return cosineSum(n, size, [0.35875, 0.48829, 0.14128, 0.01168])
+    case 'kaiser': {
+      let beta = options.kaiserBeta ?? DEFAULT_KAISER_BETA
+      let ratio = (2 * n) / size - 1
+      return besselI0(beta * Math.sqrt(1 - ratio * ratio)) / besselI0(beta)
+    }
+    case 'gaussian': {
+      let sigma = options.gaussianSigma ?? DEFAULT_GAUSSIAN_SIGMA
+      let ratio = (n - size / 2) / ((sigma * size) / 2)
+      return Math.exp(-0.5 * ratio * ratio)
+    }
+    default:
+      throw new Error(`Unsupported window function: ${windowFunction}`)
+  }
+}
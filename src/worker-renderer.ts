@@ -0,0 +1,363 @@
+import { Colormap, DEFAULT_COLORMAP } from './colormap'
+import type { DrawSpectrogramOptions } from './core'
+import { FrequencyScale } from './frequency-scale'
+import { isMagnitudeScaleAdaptive, MagnitudeScale } from './magnitude-scale'
+import { drawSpectrogramImage } from './paint'
+import { createProgressReporter } from './progress'
+import {
+  getColumnFrameRange,
+  getFrameCount,
+  getMagnitudeCacheKey,
+  getRenderFrameRange,
+  SpectrogramImage,
+} from './spectrogram'
+import { WindowOptions } from './window-function'
+
+// FFT magnitudes of a cache tile (row-major frames x binCount)
+export type MagnitudeTile = {
+  tileIndex: number
+  magnitudes: Float32Array
+}
+
+// Settings of the columns [columnStart, columnEnd) rendered by one worker
+export type SpectrogramWorkerRenderOptions = WindowOptions & {
+  windowSize: number
+  hopSize: number
+  fftSize?: number
+  maxFrequency: number
+  width: number
+  height: number
+  frameStart?: number
+  frameEnd?: number
+  columnStart: number
+  columnEnd: number
+  frequencyScale?: FrequencyScale
+  sampleRate?: number
+  colormap?: Colormap
+  magnitudeScale?: MagnitudeScale
+  paused: boolean
+  // Tile size of the caller's magnitude cache, the worker only caches when set
+  tileFrames?: number
+  // Cached tiles overlapping the columns, so the worker skips their FFT
+  tiles: MagnitudeTile[]
+}
+
+export type SpectrogramWorkerRequest =
+  | { type: 'audio'; audioData: Float32Array }
+  | { type: 'render'; id: number; options: SpectrogramWorkerRenderOptions }
+  | { type: 'pause'; id: number; paused: boolean }
+  | { type: 'abort'; id: number }
+
+export type SpectrogramWorkerResponse =
+  // The painted columns so far, as a bitmap of the worker's strip
+  | { type: 'bitmap'; id: number; bitmap: ImageBitmap }
+  // Fraction (0-1) of the worker's columns computed
+  | { type: 'progress'; id: number; progress: number }
+  // Magnitudes of the strip (row-major), with the tiles computed for the caller's cache
+  | {
+      type: 'done'
+      id: number
+      values: Float32Array
+      fullScaleMagnitude: number
+      tiles: MagnitudeTile[]
+    }
+  | { type: 'error'; id: number; message: string }
+
+export type SpectrogramWorkerPoolOptions = {
+  // URL of the worker script, bundled from src/spectrogram-worker.ts
+  workerUrl: string | URL
+  // Number of workers sharing the columns (and so the frames) of a render, defaults to 1
+  workerCount?: number
+}
+
+// Rendering in workers needs OffscreenCanvas to draw off the main thread
+export function isWorkerRenderingSupported() {
+  return (
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof ImageBitmap !== 'undefined'
+  )
+}
+
+// Interval of forwarding pause state changes to the workers
+const PAUSE_POLL_INTERVAL_MS = 50
+
+export type SpectrogramWorkerPool = ReturnType<
+  typeof createSpectrogramWorkerPool
+>
+
+// Pool of workers rendering spectrograms into OffscreenCanvas strips.
+// The canvas is split into one strip of columns per worker, each strip is painted
+// in its worker and copied onto the canvas as an ImageBitmap.
+export function createSpectrogramWorkerPool(
+  options: SpectrogramWorkerPoolOptions,
+) {
+  let workerCount = Math.max(1, Math.floor(options.workerCount ?? 1))
+  let workers: Worker[] = []
+  for (let i = 0; i < workerCount; i++) {
+    workers.push(new Worker(options.workerUrl))
+  }
+
+  // The workers keep the audio between renders, it is only sent again when changed
+  let sentAudioData: Float32Array | null = null
+  let lastRenderId = 0
+
+  function post(
+    worker: Worker,
+    message: SpectrogramWorkerRequest,
+    transfer: Transferable[] = [],
+  ) {
+    worker.postMessage(message, transfer)
+  }
+
+  function sendAudio(audioData: Float32Array) {
+    if (audioData === sentAudioData) return
+    for (let worker of workers) {
+      // Transfer a copy, so the caller keeps its own buffer
+      let copy = audioData.slice()
+      post(worker, { type: 'audio', audioData: copy }, [copy.buffer])
+    }
+    sentAudioData = audioData
+  }
+
+  // Same options and result as drawSpectrogram, computed off the main thread
+  async function drawSpectrogram(
+    inputs: DrawSpectrogramOptions,
+  ): Promise<SpectrogramImage> {
+    if (workers.length === 0) {
+      throw new Error('Spectrogram worker pool is terminated')
+    }
+    let {
+      signal,
+      audioData,
+      canvas,
+      onProgress,
+      pauseState,
+      colormap,
+      magnitudeScale,
+      cache,
+    } = inputs
+
+    let width = canvas.width
+    let height = canvas.height
+    if (width <= 0 || height <= 0) {
+      throw new Error('Canvas width and height must be greater than 0')
+    }
+    let context = canvas.getContext('2d')!
+    context.clearRect(0, 0, width, height)
+
+    // Adaptive scales are previewed against full scale and repainted at the end, as in drawSpectrogram
+    let adaptive = !!magnitudeScale && isMagnitudeScaleAdaptive(magnitudeScale)
+    let previewScale = adaptive
+      ? {
+          ...magnitudeScale!,
+          reference: 'full-scale' as const,
+          autoLevel: false,
+        }
+      : magnitudeScale
+
+    sendAudio(audioData)
+    let id = ++lastRenderId
+
+    let [startFrame, endFrame] = getRenderFrameRange(
+      getFrameCount(audioData.length, inputs.windowSize, inputs.hopSize),
+      inputs.frameStart,
+      inputs.frameEnd,
+    )
+    let frameCount = endFrame - startFrame
+    let cacheKey = getMagnitudeCacheKey(inputs)
+
+    // Cached tiles overlapping the frames of the columns [columnStart, columnEnd)
+    let getCachedTiles = (columnStart: number, columnEnd: number) => {
+      let tiles: MagnitudeTile[] = []
+      if (!cache || frameCount <= 0) return tiles
+      let [stripFrameStart] = getColumnFrameRange(
+        columnStart,
+        width,
+        startFrame,
+        frameCount,
+      )
+      let [, stripFrameEnd] = getColumnFrameRange(
+        columnEnd - 1,
+        width,
+        startFrame,
+        frameCount,
+      )
+      let firstTile = Math.floor(stripFrameStart / cache.tileFrames)
+      let lastTile = Math.ceil(stripFrameEnd / cache.tileFrames)
+      for (let tileIndex = firstTile; tileIndex < lastTile; tileIndex++) {
+        let magnitudes = cache.getTile(cacheKey, tileIndex)
+        if (magnitudes) {
+          tiles.push({ tileIndex, magnitudes })
+        }
+      }
+      return tiles
+    }
+
+    let values = new Float32Array(width * height)
+    let fullScaleMagnitude = 0
+    let reportProgress = createProgressReporter(onProgress)
+    let stripCount = Math.min(workers.length, width)
+    let stripProgress = new Float32Array(stripCount)
+
+    let renderStrip = (
+      worker: Worker,
+      stripIndex: number,
+      columnStart: number,
+      columnEnd: number,
+    ) =>
+      new Promise<void>((resolve, reject) => {
+        let stripWidth = columnEnd - columnStart
+        let cleanup = () => {
+          worker.removeEventListener('message', onMessage)
+          worker.removeEventListener('error', onError)
+        }
+        let onMessage = (event: MessageEvent<SpectrogramWorkerResponse>) => {
+          let message = event.data
+          if (message.id !== id) return
+          if (message.type === 'bitmap') {
+            context.drawImage(message.bitmap, columnStart, 0)
+            message.bitmap.close()
+          } else if (message.type === 'progress') {
+            stripProgress[stripIndex] = message.progress * stripWidth
+            reportProgress(stripProgress.reduce((a, b) => a + b, 0) / width)
+          } else if (message.type === 'done') {
+            for (let y = 0; y < height; y++) {
+              values.set(
+                message.values.subarray(y * stripWidth, (y + 1) * stripWidth),
+                y * width + columnStart,
+              )
+            }
+            fullScaleMagnitude = message.fullScaleMagnitude
+            for (let tile of message.tiles) {
+              cache?.setTile(
+                cacheKey,
+                tile.tileIndex,
+                tile.magnitudes,
+                message.fullScaleMagnitude,
+              )
+            }
+            cleanup()
+            resolve()
+          } else if (message.type === 'error') {
+            cleanup()
+            reject(new Error(message.message))
+          }
+        }
+        let onError = (event: ErrorEvent) => {
+          cleanup()
+          reject(new Error(`Spectrogram worker failed: ${event.message}`))
+        }
+        worker.addEventListener('message', onMessage)
+        worker.addEventListener('error', onError)
+        post(worker, {
+          type: 'render',
+          id,
+          options: {
+            windowSize: inputs.windowSize,
+            hopSize: inputs.hopSize,
+            fftSize: inputs.fftSize,
+            windowFunction: inputs.windowFunction,
+            kaiserBeta: inputs.kaiserBeta,
+            gaussianSigma: inputs.gaussianSigma,
+            maxFrequency: inputs.maxFrequency,
+            width,
+            height,
+            frameStart: inputs.frameStart,
+            frameEnd: inputs.frameEnd,
+            columnStart,
+            columnEnd,
+            frequencyScale: inputs.frequencyScale,
+            sampleRate: inputs.sampleRate,
+            colormap,
+            magnitudeScale: previewScale,
+            paused: !!pauseState?.paused,
+            tileFrames: cache?.tileFrames,
+            tiles: getCachedTiles(columnStart, columnEnd),
+          },
+        })
+      })
+
+    let strips: Promise<void>[] = []
+    for (let i = 0; i < stripCount; i++) {
+      let columnStart = Math.round((i / stripCount) * width)
+      let columnEnd = Math.round(((i + 1) / stripCount) * width)
+      strips.push(renderStrip(workers[i], i, columnStart, columnEnd))
+    }
+
+    // The workers stop at the next block and report the columns computed so far
+    let abort = () => {
+      for (let i = 0; i < stripCount; i++) {
+        post(workers[i], { type: 'abort', id })
+      }
+    }
+    signal.addEventListener('abort', abort)
+    if (signal.aborted) {
+      abort()
+    }
+
+    // Forward pause state changes, PauseState is a plain object that cannot be shared
+    let paused = !!pauseState?.paused
+    let pauseTimer = setInterval(() => {
+      if (!pauseState || pauseState.paused === paused) return
+      paused = pauseState.paused
+      for (let i = 0; i < stripCount; i++) {
+        post(workers[i], { type: 'pause', id, paused })
+      }
+    }, PAUSE_POLL_INTERVAL_MS)
+
+    try {
+      await Promise.all(strips)
+    } catch (error) {
+      // Stop the other strips, the render is incomplete anyway
+      abort()
+      throw error
+    } finally {
+      clearInterval(pauseTimer)
+      signal.removeEventListener('abort', abort)
+    }
+
+    let image: SpectrogramImage = { width, height, values, fullScaleMagnitude }
+
+    if (onProgress && !signal.aborted) {
+      onProgress({ percent: 100, etaMs: 0 })
+    }
+
+    if (adaptive && !signal.aborted) {
+      drawSpectrogramImage(
+        canvas,
+        image,
+        colormap ?? DEFAULT_COLORMAP,
+        magnitudeScale,
+      )
+    }
+
+    return image
+  }
+
+  function terminate() {
+    for (let worker of workers) {
+      worker.terminate()
+    }
+    workers = []
+    sentAudioData = null
+  }
+
+  return {
+    workerCount,
+    drawSpectrogram,
+    terminate,
+  }
+}
+
+// Render once in a temporary worker pool, see createSpectrogramWorkerPool to reuse the workers
+export async function drawSpectrogramInWorkers(
+  inputs: DrawSpectrogramOptions & SpectrogramWorkerPoolOptions,
+) {
+  let pool = createSpectrogramWorkerPool(inputs)
+  try {
+    return await pool.drawSpectrogram(inputs)
+  } finally {
+    pool.terminate()
+  }
+}
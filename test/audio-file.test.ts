@@ -0,0 +1,129 @@
+// Truncated and malformed headers must fail with a readable error, not a DataView RangeError.
+// Usage: npm test
+
+import assert from 'assert'
+import { test } from 'node:test'
+import { parseAiff, parseWav } from '../src/audio-file'
+
+function fourCC(id: string) {
+  return [...id].map(char => char.charCodeAt(0))
+}
+
+function uint16(value: number, littleEndian = true) {
+  let bytes = [value & 0xff, (value >> 8) & 0xff]
+  return littleEndian ? bytes : bytes.reverse()
+}
+
+function uint32(value: number, littleEndian = true) {
+  let bytes = [
+    value & 0xff,
+    (value >> 8) & 0xff,
+    (value >> 16) & 0xff,
+    (value >>> 24) & 0xff,
+  ]
+  return littleEndian ? bytes : bytes.reverse()
+}
+
+function chunk(id: string, body: number[], littleEndian = true) {
+  let padding = body.length % 2 ? [0] : []
+  return [
+    ...fourCC(id),
+    ...uint32(body.length, littleEndian),
+    ...body,
+    ...padding,
+  ]
+}
+
+// 16-bit mono PCM at 8000 Hz
+let fmtBody = [
+  ...uint16(1),
+  ...uint16(1),
+  ...uint32(8000),
+  ...uint32(16000),
+  ...uint16(2),
+  ...uint16(16),
+]
+
+function wav(chunks: number[]) {
+  return new Uint8Array([
+    ...fourCC('RIFF'),
+    ...uint32(chunks.length + 4),
+    ...fourCC('WAVE'),
+    ...chunks,
+  ])
+}
+
+// 16-bit mono at 8000 Hz, the sample rate as an 80-bit float
+let commBody = [
+  ...uint16(1, false),
+  ...uint32(2, false),
+  ...uint16(16, false),
+  ...[0x40, 0x0b, 0xfa, 0, 0, 0, 0, 0, 0, 0],
+]
+
+function aiff(chunks: number[]) {
+  return new Uint8Array([
+    ...fourCC('FORM'),
+    ...uint32(chunks.length + 4, false),
+    ...fourCC('AIFF'),
+    ...chunks,
+  ])
+}
+
+test('parses a minimal WAV file', () => {
+  let audio = parseWav(
+    wav([...chunk('fmt ', fmtBody), ...chunk('data', [0, 0, 0xff, 0x7f])]),
+  )
+  assert.equal(audio.sampleRate, 8000)
+  assert.equal(audio.length, 2)
+})
+
+test('parses a minimal AIFF file', () => {
+  let audio = parseAiff(
+    aiff([
+      ...chunk('COMM', commBody, false),
+      ...chunk('SSND', [...uint32(0), ...uint32(0), 0, 0, 0x7f, 0xff], false),
+    ]),
+  )
+  assert.equal(audio.sampleRate, 8000)
+  assert.equal(audio.length, 2)
+})
+
+test('rejects a WAV file cut off in the fmt chunk', () => {
+  let bytes = wav(chunk('fmt ', fmtBody)).subarray(0, 12 + 8 + 10)
+  assert.throws(() => parseWav(bytes), /^Error: Invalid WAV file: fmt chunk/)
+})
+
+test('rejects a WAV file cut off in a WAVE_FORMAT_EXTENSIBLE fmt chunk', () => {
+  let extensibleBody = [
+    ...uint16(0xfffe),
+    ...fmtBody.slice(2),
+    ...uint16(22),
+    ...uint16(16),
+    ...uint32(4),
+    ...uint16(1),
+    ...Array(14).fill(0),
+  ]
+  let bytes = wav(chunk('fmt ', extensibleBody)).subarray(0, 12 + 8 + 24)
+  assert.throws(
+    () => parseWav(bytes),
+    /^Error: Invalid WAV file: WAVE_FORMAT_EXTENSIBLE fmt chunk/,
+  )
+})
+
+test('rejects a WAV file cut off in a LIST chunk', () => {
+  let bytes = wav([
+    ...chunk('fmt ', fmtBody),
+    ...chunk('data', [0, 0]),
+    ...chunk('LIST', fourCC('INFO')),
+  ])
+  assert.throws(
+    () => parseWav(bytes.subarray(0, bytes.length - 2)),
+    /^Error: Invalid WAV file: LIST chunk/,
+  )
+})
+
+test('rejects an AIFF file cut off in the COMM chunk', () => {
+  let bytes = aiff(chunk('COMM', commBody, false)).subarray(0, 12 + 8 + 10)
+  assert.throws(() => parseAiff(bytes), /^Error: Invalid AIFF file: COMM chunk/)
+})